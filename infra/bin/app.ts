@@ -2,13 +2,37 @@
 import 'source-map-support/register';
 import * as cdk from 'aws-cdk-lib';
 import { TheSafeZoneIdpStack } from '../lib/thesafezone-idp-stack';
+import { TheSafeZoneCertificateStack } from '../lib/certificate-stack';
+import { getStageConfig } from '../lib/stage.config';
+import { getStageDomains } from '../lib/domain.config';
 
 const app = new cdk.App();
 
-new TheSafeZoneIdpStack(app, 'TheSafeZoneIdpStack', {
-  env: {
-    account: process.env.CDK_DEFAULT_ACCOUNT,
-    region: process.env.CDK_DEFAULT_REGION,
-  },
-  description: 'TheSafeZone Identity Provider - OAuth2/OIDC compliant authentication system',
-});
+// Stages to synthesize, e.g. -c stages=dev,staging,prod (see lib/stage.config.ts)
+const stages: string = app.node.tryGetContext('stages') || 'dev';
+
+for (const stageName of stages.split(',').map((name) => name.trim())) {
+  const stage = getStageConfig(stageName);
+  const account = process.env.CDK_DEFAULT_ACCOUNT;
+
+  // Custom domains need a us-east-1 certificate for CloudFront and Cognito
+  // (see lib/domain.config.ts)
+  const domains = getStageDomains(app, stage);
+  const certificates = domains && new TheSafeZoneCertificateStack(app, `${stage.stackId}-certificates`, {
+    env: { account, region: 'us-east-1' },
+    crossRegionReferences: true,
+    description: `TheSafeZone Identity Provider (${stage.name}) - us-east-1 certificates for custom domains`,
+    domains,
+  });
+
+  new TheSafeZoneIdpStack(app, stage.stackId, {
+    env: {
+      account,
+      region: process.env.CDK_DEFAULT_REGION,
+    },
+    description: `TheSafeZone Identity Provider (${stage.name}) - OAuth2/OIDC compliant authentication system`,
+    stage,
+    globalCertificate: certificates?.certificate,
+    crossRegionReferences: certificates !== undefined,
+  });
+}
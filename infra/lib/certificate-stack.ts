@@ -0,0 +1,41 @@
+import * as cdk from 'aws-cdk-lib';
+import * as acm from 'aws-cdk-lib/aws-certificatemanager';
+import * as route53 from 'aws-cdk-lib/aws-route53';
+import { Construct } from 'constructs';
+import type { StageDomains } from './domain.config';
+
+export interface TheSafeZoneCertificateStackProps extends cdk.StackProps {
+  domains: StageDomains;
+}
+
+/**
+ * Certificate Stack for a stage's custom domains (domain.config.ts)
+ *
+ * CloudFront and Cognito custom domains only take certificates from
+ * us-east-1, so the certificate for the auth and account domains is issued
+ * by this stack, deployed to us-east-1 next to the stage's
+ * TheSafeZoneIdpStack. The IdP stack references it across regions.
+ */
+export class TheSafeZoneCertificateStack extends cdk.Stack {
+  public readonly certificate: acm.Certificate;
+
+  constructor(scope: Construct, id: string, props: TheSafeZoneCertificateStackProps) {
+    super(scope, id, props);
+
+    if (!cdk.Token.isUnresolved(this.region) && this.region !== 'us-east-1') {
+      throw new Error(`TheSafeZoneCertificateStack must be deployed to us-east-1, not ${this.region}`);
+    }
+
+    const hostedZone = route53.HostedZone.fromHostedZoneAttributes(this, 'HostedZone', {
+      hostedZoneId: props.domains.hostedZoneId,
+      zoneName: props.domains.zoneName,
+    });
+
+    // Validated with DNS records in the hosted zone
+    this.certificate = new acm.Certificate(this, 'Certificate', {
+      domainName: props.domains.account,
+      subjectAlternativeNames: [props.domains.auth],
+      validation: acm.CertificateValidation.fromDns(hostedZone),
+    });
+  }
+}
@@ -0,0 +1,218 @@
+import { DeviceFlowSettings, validateDeviceFlowSettings } from './lambda/device-code/device-flow-config';
+
+/**
+ * User Pool Client Registry
+ *
+ * Every app that signs users in with TheSafeZone is described here.
+ * TheSafeZoneIdpStack generates each client's resources from this list:
+ * the user pool client, Managed Login branding, identity pool provider,
+ * `<key>ClientId` output and, for device clients, its DEVICE_CLIENTS entry.
+ *
+ * Onboarding a partner app means adding an entry. Callback and logout URLs
+ * can be overridden per deployment with the `<contextPrefix>CallbackUrls`
+ * and `<contextPrefix>LogoutUrls` context keys.
+ */
+
+/**
+ * OAuth flows a client may use
+ * - authorization_code: hosted sign-in with PKCE
+ * - device_code: RFC 8628 device grant - the Device Code Lambda mints the
+ *   client's tokens via custom auth
+ */
+export type ClientFlow = 'authorization_code' | 'device_code';
+
+/**
+ * Scopes a client may request (cognito.OAuthScope names)
+ */
+export type ClientScope = 'openid' | 'email' | 'profile' | 'phone' | 'aws.cognito.signin.user.admin';
+
+/**
+ * Apps the stack hosts on CloudFront
+ */
+export type HostedApp = 'loginUi' | 'sampleClient';
+
+export interface ClientConfig {
+  key: string;                  // Construct ID prefix, e.g. VR -> VRClient and the VRClientId output
+  name: string;                 // Cognito client name
+  description: string;          // Description of the client ID output
+  type: 'public' | 'confidential'; // Confidential clients get a client secret
+  flows: ClientFlow[];
+  scopes: ClientScope[];
+  contextPrefix: string;        // Prefix of the callback/logout URL context keys
+  callbackUrls: string[];       // Defaults when the context key is not set
+  logoutUrls: string[];
+  // App hosted by this stack - its CloudFront URL is added to the logout URLs,
+  // and with each callback path to the callback URLs
+  hostedOn?: { app: HostedApp; callbackPaths: string[] };
+  tokenValidity?: Partial<TokenValidity>; // Defaults to the stage's token validity (stage.config.ts)
+  branding?: boolean;           // Apply the TheSafeZone Managed Login branding
+  brandingConstructId?: string; // Brandings created before this registry keep their ID
+  deviceGrant?: DeviceGrantConfig; // Required with the device_code flow
+}
+
+export interface TokenValidity {
+  accessTokenHours: number;
+  idTokenHours: number;
+  refreshTokenDays: number;     // Signed-in devices are forgotten after this
+}
+
+/**
+ * Device client metadata for the Device Code Lambda (DEVICE_CLIENTS)
+ */
+export interface DeviceGrantConfig {
+  displayName: string;          // Name shown to users on the consent screen
+  deviceFlow?: DeviceFlowSettings; // Overrides of the stack-level device flow defaults
+}
+
+// The Login UI signs users in with this client; its access tokens authorize devices
+export const LOGIN_UI_CLIENT_KEY = 'WebMobile';
+
+// Requirements: 10.1, 10.2, 10.3, 10.4 - all clients are public and use PKCE
+export const CLIENTS: ClientConfig[] = [
+  {
+    key: LOGIN_UI_CLIENT_KEY,
+    name: 'thesafezone-web-mobile-client',
+    description: 'Web/Mobile App Client ID',
+    type: 'public',
+    flows: ['authorization_code'],
+    // aws.cognito.signin.user.admin is required for the UpdateUserAttributes API
+    scopes: ['openid', 'email', 'profile', 'aws.cognito.signin.user.admin'],
+    contextPrefix: 'web',
+    // /activate for device flow and /profile/callback for profile management
+    callbackUrls: [
+      'http://localhost:3000/oauth2/callback',
+      'http://localhost:3000/activate',
+      'http://localhost:3000/profile/callback',
+      'http://localhost:5173/activate',
+      'http://localhost:5173/profile/callback',
+    ],
+    logoutUrls: [
+      'http://localhost:3000',
+      'http://localhost:3000/logout',
+      'http://localhost:5173',
+    ],
+    hostedOn: { app: 'loginUi', callbackPaths: ['/activate', '/profile/callback'] },
+    branding: true,
+    brandingConstructId: 'ManagedLoginBranding',
+  },
+  {
+    key: 'VR',
+    name: 'thesafezone-vr-client',
+    description: 'VR App Client ID',
+    type: 'public',
+    flows: ['authorization_code', 'device_code'],
+    scopes: ['openid', 'email', 'profile'],
+    contextPrefix: 'vr',
+    callbackUrls: ['thesafezone://oauth2/callback'],
+    logoutUrls: ['thesafezone://logout'],
+    deviceGrant: {
+      displayName: 'TheSafeZone VR',
+      // 15 minutes - users take the headset off to find their phone
+      deviceFlow: { expiresIn: 900 },
+    },
+  },
+  {
+    // Demonstrates a third-party client integrating with TheSafeZone IDP
+    key: 'Sample',
+    name: 'thesafezone-sample-client',
+    description: 'Sample Client App Client ID (for testing OIDC flow)',
+    type: 'public',
+    flows: ['authorization_code'],
+    scopes: ['openid', 'email', 'profile'],
+    contextPrefix: 'sampleClient',
+    callbackUrls: [
+      'http://localhost:3001/callback',
+      'http://localhost:5174/callback',
+    ],
+    logoutUrls: [
+      'http://localhost:3001',
+      'http://localhost:5174',
+    ],
+    // Requirement 15.3 - redirect mismatch fix
+    hostedOn: { app: 'sampleClient', callbackPaths: ['/callback'] },
+    branding: true,
+  },
+  {
+    // Third-party client hosted on Vercel
+    key: 'Arthur',
+    name: 'thesafezone-arthur',
+    description: 'Arthur Client App Client ID (Vercel-hosted app)',
+    type: 'public',
+    flows: ['authorization_code'],
+    scopes: ['openid', 'email', 'profile'],
+    contextPrefix: 'arthurClient',
+    callbackUrls: [
+      'http://localhost:3001/callback',
+      'http://localhost:5174/callback',
+      'https://dev-api-enterprise-a.arthur-dev.digital/auth/sso/callback/oauth2',
+      'https://api.arthur.digital/auth/sso/callback/oauth2',
+    ],
+    logoutUrls: [
+      'http://localhost:3001',
+      'http://localhost:5174',
+    ],
+    branding: true,
+  },
+];
+
+/**
+ * Checks the registry for clients the stack cannot generate
+ * @returns a description of each problem, empty if the registry is valid
+ */
+export function validateClientConfigs(clients: ClientConfig[]): string[] {
+  const errors: string[] = [];
+
+  for (const field of ['key', 'name', 'contextPrefix'] as const) {
+    const seen = new Set<string>();
+    for (const client of clients) {
+      if (seen.has(client[field])) {
+        errors.push(`${field} ${client[field]} is used by more than one client`);
+      }
+      seen.add(client[field]);
+    }
+  }
+
+  if (!clients.some((client) => client.key === LOGIN_UI_CLIENT_KEY)) {
+    errors.push(`the Login UI client ${LOGIN_UI_CLIENT_KEY} is missing`);
+  }
+
+  for (const client of clients) {
+    const prefix = `${client.key}:`;
+
+    if (!/^[A-Z][A-Za-z0-9]*$/.test(client.key)) {
+      errors.push(`${prefix} key must be PascalCase letters and digits`);
+    }
+    if (client.flows.length === 0) {
+      errors.push(`${prefix} flows must not be empty`);
+    }
+    if (!client.scopes.includes('openid')) {
+      errors.push(`${prefix} scopes must include openid`);
+    }
+    if (client.flows.includes('authorization_code') && client.callbackUrls.length === 0 && !client.hostedOn) {
+      errors.push(`${prefix} authorization_code clients need at least one callback URL`);
+    }
+
+    const deviceCode = client.flows.includes('device_code');
+    if (deviceCode !== (client.deviceGrant !== undefined)) {
+      errors.push(`${prefix} deviceGrant must be given exactly for device_code clients`);
+    }
+    // The Device Code Lambda mints tokens without a client secret
+    if (deviceCode && client.type !== 'public') {
+      errors.push(`${prefix} device_code clients must be public`);
+    }
+    if (client.deviceGrant?.deviceFlow) {
+      for (const error of validateDeviceFlowSettings(client.deviceGrant.deviceFlow)) {
+        errors.push(`${prefix} deviceGrant.deviceFlow.${error}`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Returns a client's token validity - its own values over the given defaults
+ */
+export function tokenValidityOf(client: ClientConfig, defaults: TokenValidity): TokenValidity {
+  return { ...defaults, ...client.tokenValidity };
+}
@@ -0,0 +1,14 @@
+import * as acm from 'aws-cdk-lib/aws-certificatemanager';
+import * as route53 from 'aws-cdk-lib/aws-route53';
+
+/**
+ * Custom domain a construct serves its endpoint from
+ * The construct creates the alias records pointing the domain at it.
+ */
+export interface CustomDomainOptions {
+  domainName: string;           // e.g. auth.thesafezone.eu
+  // Covers domainName - issued in us-east-1 for CloudFront and Cognito,
+  // in the stack's region for API Gateway
+  certificate: acm.ICertificate;
+  hostedZone: route53.IHostedZone; // Gets the alias records
+}
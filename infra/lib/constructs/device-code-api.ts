@@ -0,0 +1,654 @@
+import * as cdk from 'aws-cdk-lib';
+import * as cognito from 'aws-cdk-lib/aws-cognito';
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as kms from 'aws-cdk-lib/aws-kms';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as lambdaNodejs from 'aws-cdk-lib/aws-lambda-nodejs';
+import * as apigateway from 'aws-cdk-lib/aws-apigateway';
+import * as apigatewayv2 from 'aws-cdk-lib/aws-apigatewayv2';
+import * as apigatewayv2Integrations from 'aws-cdk-lib/aws-apigatewayv2-integrations';
+import * as lambdaEventSources from 'aws-cdk-lib/aws-lambda-event-sources';
+import * as route53 from 'aws-cdk-lib/aws-route53';
+import * as route53Targets from 'aws-cdk-lib/aws-route53-targets';
+import * as path from 'path';
+import { Construct } from 'constructs';
+import { DeviceFlowSettings, validateDeviceFlowSettings } from '../lambda/device-code/device-flow-config';
+import deviceApiSpec from '../lambda/device-code/openapi.json';
+import { CustomDomainOptions } from './custom-domain';
+
+const DEVICE_API_STAGE_NAME = 'v1';
+
+/**
+ * API Gateway flavour fronting the Device Code Lambda
+ * - rest: REST API that validates requests against the OpenAPI document
+ * - http: HTTP API (payload format 2.0) for lower latency and cost
+ */
+export type DeviceApiType = 'rest' | 'http';
+
+export interface DeviceCodeApiProps {
+  userPool: cognito.UserPool;   // Gets the device custom-auth triggers
+  // Client whose access tokens authorize devices (the Login UI's)
+  authorizingClient: cognito.IUserPoolClient;
+  deviceClients: DeviceClient[]; // Clients that may use the device grant
+  namePrefix: string;           // Prefix of resource names, e.g. thesafezone-prod-device-codes
+  verificationUri: string;      // Page where users enter the user code
+  deviceFlowDefaults?: DeviceFlowSettings; // Code lifetime, polling interval, user code format
+  apiType?: DeviceApiType;      // Defaults to rest
+  allowedOrigins?: string[];    // Browser origins allowed to call the API (CORS)
+  basePaths?: string[];         // Paths the API is mounted under, e.g. by custom domain mappings
+  // Serves the API from the root of e.g. api.thesafezone.eu - the certificate
+  // is issued in the stack's region
+  domain?: CustomDomainOptions;
+  // Tables, keys and logs are retained or deleted with the stack
+  removalPolicy?: cdk.RemovalPolicy; // Defaults to RETAIN
+  deletionProtection?: boolean; // Tables cannot be deleted while set
+  logRetention?: logs.RetentionDays; // Lambda logs, defaults to two years
+}
+
+/**
+ * Device client metadata for the Device Code Lambda (DEVICE_CLIENTS)
+ */
+export interface DeviceClient {
+  client: cognito.IUserPoolClient; // Must allow the custom auth flow
+  displayName: string;          // Name shown to users on the consent screen
+  allowedScopes: string[];
+  deviceFlow?: DeviceFlowSettings; // Overrides of the device flow defaults
+  refreshTokenValidity: cdk.Duration; // Signed-in devices are forgotten after this
+}
+
+/**
+ * Device Code API
+ *
+ * OAuth 2.0 Device Authorization Grant (RFC 8628) in front of a user pool:
+ * - DynamoDB tables for device codes, failed user code attempts and signed-in devices
+ * - KMS keys for token encryption and device assertions
+ * - Cognito custom-auth triggers minting device client tokens
+ * - Device Code Lambda behind a REST or HTTP API, optionally on a custom domain
+ * - WebSocket API pushing Device Code completion to devices
+ */
+export class DeviceCodeApi extends Construct {
+  public readonly deviceCodeTable: dynamodb.Table;
+  public readonly deviceAttemptsTable: dynamodb.Table;
+  public readonly userDevicesTable: dynamodb.Table;
+  public readonly deviceTokenKey: kms.Key;
+  public readonly deviceAuthKey: kms.Key;
+  public readonly deviceAuthChallengeLambda: lambdaNodejs.NodejsFunction;
+  public readonly deviceCodeLambda: lambdaNodejs.NodejsFunction;
+  public readonly restApi?: apigateway.RestApi;
+  public readonly httpApi?: apigatewayv2.HttpApi;
+  public readonly deviceConnectionsTable: dynamodb.Table;
+  public readonly devicePushConnectionLambda: lambdaNodejs.NodejsFunction;
+  public readonly deviceStatusStreamLambda: lambdaNodejs.NodejsFunction;
+  public readonly devicePushApi: apigatewayv2.WebSocketApi;
+  public readonly url: string;  // Device Code API URL, ending in /
+  public readonly pushUrl: string; // WebSocket URL devices connect to with ?device_code=
+
+  private readonly props: DeviceCodeApiProps;
+
+  constructor(scope: Construct, id: string, props: DeviceCodeApiProps) {
+    super(scope, id);
+    this.props = props;
+
+    const deviceFlowErrors = validateDeviceFlowSettings(props.deviceFlowDefaults ?? {});
+    if (deviceFlowErrors.length > 0) {
+      throw new Error(`Invalid deviceFlowDefaults: ${deviceFlowErrors.join('; ')}`);
+    }
+    // The Device Code Lambda refuses to start with invalid client settings
+    for (const deviceClient of props.deviceClients) {
+      const clientErrors = validateDeviceFlowSettings(deviceClient.deviceFlow ?? {});
+      if (clientErrors.length > 0) {
+        throw new Error(`Invalid deviceFlow for ${deviceClient.displayName}: ${clientErrors.join('; ')}`);
+      }
+    }
+
+    const removalPolicy = props.removalPolicy ?? cdk.RemovalPolicy.RETAIN;
+
+    // Create DynamoDB table for Device Code storage (Requirement 9.1, 9.2)
+    this.deviceCodeTable = new dynamodb.Table(this, 'DeviceCodeTable', {
+      tableName: this.resourceName('device-codes'),
+      partitionKey: {
+        name: 'deviceCode',
+        type: dynamodb.AttributeType.STRING,
+      },
+      // Enable TTL for automatic expiration of device codes
+      timeToLiveAttribute: 'ttl',
+      // Status changes are pushed to waiting devices (DeviceStatusStreamLambda)
+      stream: dynamodb.StreamViewType.NEW_AND_OLD_IMAGES,
+      // Billing mode - on-demand for variable traffic
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy,
+      deletionProtection: props.deletionProtection,
+    });
+
+    // Add GSI on userCode for lookup by user code
+    this.deviceCodeTable.addGlobalSecondaryIndex({
+      indexName: 'userCode-index',
+      partitionKey: {
+        name: 'userCode',
+        type: dynamodb.AttributeType.STRING,
+      },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
+    // DynamoDB table for failed user code attempts per caller (sub or source IP)
+    // Items expire once a caller has had no failures for a whole window
+    this.deviceAttemptsTable = new dynamodb.Table(this, 'DeviceAttemptsTable', {
+      tableName: this.resourceName('device-attempts'),
+      partitionKey: {
+        name: 'callerKey',
+        type: dynamodb.AttributeType.STRING,
+      },
+      timeToLiveAttribute: 'ttl',
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy,
+      deletionProtection: props.deletionProtection,
+    });
+
+    // DynamoDB table for the devices each user signed in with the device flow
+    // Items expire with the device's refresh token
+    this.userDevicesTable = new dynamodb.Table(this, 'UserDevicesTable', {
+      tableName: this.resourceName('user-devices'),
+      partitionKey: {
+        name: 'userId',
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: 'deviceId',
+        type: dynamodb.AttributeType.STRING,
+      },
+      timeToLiveAttribute: 'ttl',
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy,
+      deletionProtection: props.deletionProtection,
+    });
+
+    // KMS key for envelope encryption of tokens held in the device code and user devices tables
+    // Only the Device Code Lambda is granted use of this key
+    this.deviceTokenKey = new kms.Key(this, 'DeviceTokenKey', {
+      alias: `alias/${this.resourceName('device-tokens')}`,
+      description: 'Encrypts user tokens stored in the device code and user devices tables',
+      enableKeyRotation: true,
+      removalPolicy,
+    });
+
+    // KMS HMAC key for device assertions - the custom-auth challenge answer
+    // that lets the Device Code Lambda mint tokens for device clients
+    this.deviceAuthKey = new kms.Key(this, 'DeviceAuthKey', {
+      alias: `alias/${this.resourceName('device-auth')}`,
+      description: 'Signs device assertions for minting device client tokens',
+      keySpec: kms.KeySpec.HMAC_256,
+      keyUsage: kms.KeyUsage.GENERATE_VERIFY_MAC,
+      removalPolicy,
+    });
+
+    // Cognito custom-auth triggers that accept only signed device assertions,
+    // and the pre token generation trigger that scopes the minted tokens
+    this.deviceAuthChallengeLambda = new lambdaNodejs.NodejsFunction(this, 'DeviceAuthChallengeLambda', {
+      functionName: this.resourceName('device-auth-challenge'),
+      logGroup: this.createLogGroup('DeviceAuthChallengeLambdaLogs'),
+      entry: path.join(__dirname, '../lambda/device-auth-challenge/index.ts'),
+      handler: 'handler',
+      runtime: lambda.Runtime.NODEJS_22_X,
+      timeout: cdk.Duration.seconds(10),
+      memorySize: 256,
+      environment: {
+        DEVICE_AUTH_KEY_ID: this.deviceAuthKey.keyArn,
+        USER_DEVICES_TABLE_NAME: this.userDevicesTable.tableName,
+      },
+    });
+    this.deviceAuthKey.grant(this.deviceAuthChallengeLambda, 'kms:VerifyMac');
+    this.userDevicesTable.grantReadData(this.deviceAuthChallengeLambda);
+    this.userDevicesTable.grant(this.deviceAuthChallengeLambda, 'dynamodb:UpdateItem');
+
+    props.userPool.addTrigger(cognito.UserPoolOperation.DEFINE_AUTH_CHALLENGE, this.deviceAuthChallengeLambda);
+    props.userPool.addTrigger(cognito.UserPoolOperation.CREATE_AUTH_CHALLENGE, this.deviceAuthChallengeLambda);
+    props.userPool.addTrigger(cognito.UserPoolOperation.VERIFY_AUTH_CHALLENGE_RESPONSE, this.deviceAuthChallengeLambda);
+
+    // Puts the granted scope on device access tokens (V2 events need the
+    // Essentials or Plus feature plan)
+    props.userPool.addTrigger(
+      cognito.UserPoolOperation.PRE_TOKEN_GENERATION_CONFIG,
+      this.deviceAuthChallengeLambda,
+      cognito.LambdaVersion.V2_0
+    );
+
+    // DynamoDB table for WebSocket connections waiting on a device code
+    // Items expire with the device code they wait on
+    this.deviceConnectionsTable = new dynamodb.Table(this, 'DeviceConnectionsTable', {
+      tableName: this.resourceName('device-connections'),
+      partitionKey: {
+        name: 'connectionId',
+        type: dynamodb.AttributeType.STRING,
+      },
+      timeToLiveAttribute: 'ttl',
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy,
+      deletionProtection: props.deletionProtection,
+    });
+
+    // Add GSI on deviceCode to find the connections to push to
+    this.deviceConnectionsTable.addGlobalSecondaryIndex({
+      indexName: 'deviceCode-index',
+      partitionKey: {
+        name: 'deviceCode',
+        type: dynamodb.AttributeType.STRING,
+      },
+      projectionType: dynamodb.ProjectionType.KEYS_ONLY,
+    });
+
+    // WebSocket $connect/$disconnect - registers devices waiting on a pending code
+    this.devicePushConnectionLambda = new lambdaNodejs.NodejsFunction(this, 'DevicePushConnectionLambda', {
+      functionName: this.resourceName('device-push-connection'),
+      logGroup: this.createLogGroup('DevicePushConnectionLambdaLogs'),
+      entry: path.join(__dirname, '../lambda/device-code/push.ts'),
+      handler: 'connectionHandler',
+      runtime: lambda.Runtime.NODEJS_22_X,
+      timeout: cdk.Duration.seconds(10),
+      memorySize: 256,
+      environment: {
+        DEVICE_CODE_TABLE_NAME: this.deviceCodeTable.tableName,
+        DEVICE_CONNECTIONS_TABLE_NAME: this.deviceConnectionsTable.tableName,
+      },
+    });
+    this.deviceCodeTable.grantReadData(this.devicePushConnectionLambda);
+    this.deviceConnectionsTable.grantReadWriteData(this.devicePushConnectionLambda);
+
+    // WebSocket API for completion pushes - optional for devices, polling
+    // /device/token keeps working without it
+    this.devicePushApi = new apigatewayv2.WebSocketApi(this, 'DevicePushApi', {
+      apiName: 'TheSafeZone Device Push API',
+      description: 'Pushes Device Code Flow completion to waiting devices',
+      connectRouteOptions: {
+        integration: new apigatewayv2Integrations.WebSocketLambdaIntegration(
+          'DevicePushConnectIntegration', this.devicePushConnectionLambda),
+      },
+      disconnectRouteOptions: {
+        integration: new apigatewayv2Integrations.WebSocketLambdaIntegration(
+          'DevicePushDisconnectIntegration', this.devicePushConnectionLambda),
+      },
+    });
+
+    const devicePushStage = new apigatewayv2.WebSocketStage(this, 'DevicePushStage', {
+      webSocketApi: this.devicePushApi,
+      stageName: 'v1',
+      autoDeploy: true,
+    });
+    this.pushUrl = devicePushStage.url;
+
+    // Pushes status changes out of pending to the connections waiting on the code
+    this.deviceStatusStreamLambda = new lambdaNodejs.NodejsFunction(this, 'DeviceStatusStreamLambda', {
+      functionName: this.resourceName('device-status-stream'),
+      logGroup: this.createLogGroup('DeviceStatusStreamLambdaLogs'),
+      entry: path.join(__dirname, '../lambda/device-code/push.ts'),
+      handler: 'streamHandler',
+      runtime: lambda.Runtime.NODEJS_22_X,
+      timeout: cdk.Duration.seconds(30),
+      memorySize: 256,
+      environment: {
+        DEVICE_CONNECTIONS_TABLE_NAME: this.deviceConnectionsTable.tableName,
+        DEVICE_PUSH_ENDPOINT: devicePushStage.callbackUrl,
+      },
+    });
+    this.deviceConnectionsTable.grantReadWriteData(this.deviceStatusStreamLambda);
+    this.devicePushApi.grantManageConnections(this.deviceStatusStreamLambda);
+
+    // Only invoked for records leaving pending - polls and attempt counters are filtered out
+    this.deviceStatusStreamLambda.addEventSource(new lambdaEventSources.DynamoEventSource(this.deviceCodeTable, {
+      startingPosition: lambda.StartingPosition.LATEST,
+      batchSize: 10,
+      retryAttempts: 2,
+      filters: [
+        lambda.FilterCriteria.filter({
+          eventName: lambda.FilterRule.isEqual('MODIFY'),
+          dynamodb: {
+            OldImage: { status: { S: lambda.FilterRule.isEqual('pending') } },
+            NewImage: { status: { S: lambda.FilterRule.or('authorized', 'denied', 'expired') } },
+          },
+        }),
+      ],
+    }));
+
+    // Create Device Code Lambda function (Requirements: 9.1, 9.2, 9.3, 9.4, 9.5)
+    // Using NodejsFunction to automatically bundle and transpile TypeScript
+    this.deviceCodeLambda = new lambdaNodejs.NodejsFunction(this, 'DeviceCodeLambda', {
+      functionName: this.resourceName('device-code'),
+      logGroup: this.createLogGroup('DeviceCodeLambdaLogs'),
+      entry: path.join(__dirname, '../lambda/device-code/index.ts'),
+      handler: 'handler',
+      runtime: lambda.Runtime.NODEJS_22_X,
+      timeout: cdk.Duration.seconds(30),
+      memorySize: 256,
+      environment: {
+        DEVICE_CODE_TABLE_NAME: this.deviceCodeTable.tableName,
+        DEVICE_ATTEMPTS_TABLE_NAME: this.deviceAttemptsTable.tableName,
+        USER_DEVICES_TABLE_NAME: this.userDevicesTable.tableName,
+        TOKEN_ENCRYPTION_KEY_ID: this.deviceTokenKey.keyArn,
+        DEVICE_AUTH_KEY_ID: this.deviceAuthKey.keyArn,
+        VERIFICATION_URI: props.verificationUri,
+        USER_POOL_ID: props.userPool.userPoolId,
+        USER_POOL_CLIENT_ID: props.authorizingClient.userPoolClientId,
+        // Device client registry (client_id -> metadata)
+        // Only these clients may use the device grant
+        DEVICE_CLIENTS: cdk.Stack.of(this).toJsonString(Object.fromEntries(
+          props.deviceClients.map((deviceClient) => [
+            deviceClient.client.userPoolClientId,
+            {
+              displayName: deviceClient.displayName,
+              allowedScopes: deviceClient.allowedScopes,
+              deviceFlow: deviceClient.deviceFlow,
+              refreshTokenValidity: deviceClient.refreshTokenValidity.toSeconds(),
+            },
+          ])
+        )),
+        DEVICE_FLOW_DEFAULTS: JSON.stringify(props.deviceFlowDefaults ?? {}),
+        // Devices learn the push URI from the /device/code response
+        DEVICE_PUSH_URI: devicePushStage.url,
+        // The Lambda answers these origins with CORS headers (cors.ts)
+        CORS_ALLOWED_ORIGINS: (props.allowedOrigins ?? []).join(','),
+        // Stripped before routing (router.ts)
+        ...(props.basePaths?.length ? { DEVICE_API_BASE_PATHS: props.basePaths.join(',') } : {}),
+      },
+    });
+
+    // Grant Lambda permissions to access DynamoDB
+    this.deviceCodeTable.grantReadWriteData(this.deviceCodeLambda);
+    this.deviceAttemptsTable.grantReadWriteData(this.deviceCodeLambda);
+    this.userDevicesTable.grantReadWriteData(this.deviceCodeLambda);
+
+    // Grant Lambda permissions to generate and decrypt token data keys
+    this.deviceTokenKey.grantEncryptDecrypt(this.deviceCodeLambda);
+
+    // Grant Lambda permissions to mint device client tokens via custom auth
+    this.deviceAuthKey.grant(this.deviceCodeLambda, 'kms:GenerateMac');
+    this.deviceCodeLambda.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['cognito-idp:AdminInitiateAuth', 'cognito-idp:AdminRespondToAuthChallenge'],
+      resources: [props.userPool.userPoolArn],
+    }));
+
+    // The Lambda routes both event formats (router.ts) and validates requests either way
+    if ((props.apiType ?? 'rest') === 'rest') {
+      this.restApi = this.createRestApi();
+      this.url = this.restApi.url;
+    } else {
+      this.httpApi = this.createHttpApi();
+      this.url = `${this.httpApi.apiEndpoint}/${DEVICE_API_STAGE_NAME}/`;
+    }
+    if (props.domain) {
+      this.url = `https://${props.domain.domainName}/`;
+    }
+  }
+
+  /**
+   * Returns the name of a resource, e.g. thesafezone-prod-device-codes
+   */
+  private resourceName(name: string): string {
+    return `${this.props.namePrefix}-${name}`;
+  }
+
+  /**
+   * Points the custom domain at the API
+   */
+  private createAliasRecord(target: route53.IAliasRecordTarget): void {
+    new route53.ARecord(this, 'CustomDomainAliasRecord', {
+      zone: this.props.domain!.hostedZone,
+      recordName: this.props.domain!.domainName,
+      target: route53.RecordTarget.fromAlias(target),
+    });
+  }
+
+  /**
+   * Creates a Lambda log group with the configured retention
+   */
+  private createLogGroup(id: string): logs.LogGroup {
+    return new logs.LogGroup(this, id, {
+      retention: this.props.logRetention ?? logs.RetentionDays.TWO_YEARS,
+      removalPolicy: this.props.removalPolicy ?? cdk.RemovalPolicy.RETAIN,
+    });
+  }
+
+  /**
+   * Creates the Device Code API as a REST API
+   * Requests are validated against models from the OpenAPI document before
+   * they reach the Lambda.
+   */
+  private createRestApi(): apigateway.RestApi {
+    const api = new apigateway.RestApi(this, 'DeviceCodeApi', {
+      restApiName: 'TheSafeZone Device Code API',
+      description: 'API for Device Code Flow (RFC 8628)',
+      deployOptions: {
+        stageName: DEVICE_API_STAGE_NAME,
+      },
+      // No preflight without browser origins - devices don't send one
+      defaultCorsPreflightOptions: this.props.allowedOrigins?.length ? {
+        allowOrigins: this.props.allowedOrigins,
+        allowMethods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
+        allowHeaders: ['Content-Type', 'Authorization'],
+      } : undefined,
+    });
+
+    // Request validation, with models generated from the OpenAPI document
+    // (scripts/generate-openapi.ts). Only JSON bodies have a model - form-encoded
+    // RFC 8628 requests pass through and are validated by the handlers, which
+    // keep their own checks for the local dev server as well.
+    const bodyValidator = api.addRequestValidator('DeviceCodeBodyValidator', {
+      requestValidatorName: 'device-code-body',
+      validateRequestBody: true,
+    });
+    const parameterValidator = api.addRequestValidator('DeviceCodeParameterValidator', {
+      requestValidatorName: 'device-code-parameters',
+      validateRequestParameters: true,
+    });
+
+    const requestModels = new Map<string, apigateway.Model>();
+    const jsonRequestModel = (type: string): Record<string, apigateway.IModel> => {
+      let model = requestModels.get(type);
+      if (!model) {
+        model = api.addModel(`${type}Model`, {
+          modelName: type,
+          contentType: 'application/json',
+          schema: requestModelSchema(type),
+        });
+        requestModels.set(type, model);
+      }
+      return { 'application/json': model };
+    };
+
+    // Errors raised by API Gateway itself (validation, throttling, missing
+    // routes) never reach the Lambda's CORS handling. Gateway responses can't
+    // match the origin against a list, so with several allowed origins the
+    // request's own is echoed - these bodies carry no user data.
+    const allowedOrigins = this.props.allowedOrigins ?? [];
+    const corsResponseHeaders: Record<string, string> = allowedOrigins.length ? {
+      'Access-Control-Allow-Origin': allowedOrigins.length === 1
+        ? `'${allowedOrigins[0]}'`
+        : 'method.request.header.Origin',
+      Vary: "'Origin'",
+    } : {};
+    if (allowedOrigins.length) {
+      api.addGatewayResponse('Default4xx', {
+        type: apigateway.ResponseType.DEFAULT_4XX,
+        responseHeaders: corsResponseHeaders,
+      });
+      api.addGatewayResponse('Default5xx', {
+        type: apigateway.ResponseType.DEFAULT_5XX,
+        responseHeaders: corsResponseHeaders,
+      });
+    }
+
+    // Validation failures are OAuth errors like the handlers' (RFC 6749 Section 5.2)
+    const validationResponses: Array<[string, apigateway.ResponseType]> = [
+      ['BadRequestBody', apigateway.ResponseType.BAD_REQUEST_BODY],
+      ['BadRequestParameters', apigateway.ResponseType.BAD_REQUEST_PARAMETERS],
+    ];
+    for (const [id, type] of validationResponses) {
+      api.addGatewayResponse(id, {
+        type,
+        statusCode: '400',
+        responseHeaders: {
+          ...corsResponseHeaders,
+          'Cache-Control': "'no-store'",
+        },
+        templates: {
+          'application/json':
+            '{"error":"invalid_request","error_description":"$context.error.validationErrorString"}',
+        },
+      });
+    }
+
+    // Create /device resource
+    const deviceResource = api.root.addResource('device');
+
+    // Create Lambda integration
+    const deviceCodeIntegration = new apigateway.LambdaIntegration(this.deviceCodeLambda);
+
+    // POST /device/code - Generate device code
+    const codeResource = deviceResource.addResource('code');
+    codeResource.addMethod('POST', deviceCodeIntegration, {
+      requestValidator: bodyValidator,
+      requestModels: jsonRequestModel('DeviceCodeRequest'),
+    });
+
+    // POST /device/token - Poll for tokens
+    const tokenResource = deviceResource.addResource('token');
+    tokenResource.addMethod('POST', deviceCodeIntegration, {
+      requestValidator: bodyValidator,
+      requestModels: jsonRequestModel('DeviceTokenRequest'),
+    });
+
+    // POST /device/authorize - User authorizes device
+    const authorizeResource = deviceResource.addResource('authorize');
+    authorizeResource.addMethod('POST', deviceCodeIntegration, {
+      requestValidator: bodyValidator,
+      requestModels: jsonRequestModel('DeviceDecisionRequest'),
+    });
+
+    // POST /device/deny - User denies device
+    const denyResource = deviceResource.addResource('deny');
+    denyResource.addMethod('POST', deviceCodeIntegration, {
+      requestValidator: bodyValidator,
+      requestModels: jsonRequestModel('DeviceDecisionRequest'),
+    });
+
+    // GET /device/lookup - Consent details for a user code
+    // The Authorization header is left to the handler, which answers 401 without it
+    const lookupResource = deviceResource.addResource('lookup');
+    lookupResource.addMethod('GET', deviceCodeIntegration, {
+      requestValidator: parameterValidator,
+      requestParameters: {
+        'method.request.querystring.user_code': true,
+      },
+    });
+
+    // GET /device/user-code-formats - User code formats for the Login UI code input
+    const userCodeFormatsResource = deviceResource.addResource('user-code-formats');
+    userCodeFormatsResource.addMethod('GET', deviceCodeIntegration);
+
+    // GET /device/openapi.json - OpenAPI document of the API
+    const openApiResource = deviceResource.addResource('openapi.json');
+    openApiResource.addMethod('GET', deviceCodeIntegration);
+
+    // GET /devices - Devices the user signed in
+    const devicesResource = api.root.addResource('devices');
+    devicesResource.addMethod('GET', deviceCodeIntegration);
+
+    // DELETE /devices/{id} - Sign a device out (revokes its refresh token)
+    const userDeviceResource = devicesResource.addResource('{id}');
+    userDeviceResource.addMethod('DELETE', deviceCodeIntegration);
+
+    // Custom domain mapped to the root of the stage
+    if (this.props.domain) {
+      const domainName = api.addDomainName('CustomDomain', {
+        domainName: this.props.domain.domainName,
+        certificate: this.props.domain.certificate,
+        endpointType: apigateway.EndpointType.REGIONAL,
+        securityPolicy: apigateway.SecurityPolicy.TLS_1_2,
+      });
+      this.createAliasRecord(new route53Targets.ApiGatewayDomain(domainName));
+    }
+
+    return api;
+  }
+
+  /**
+   * Creates the Device Code API as an HTTP API (payload format 2.0)
+   * Every request goes to the Lambda, whose router answers unknown paths and
+   * methods; API Gateway only answers CORS preflights.
+   */
+  private createHttpApi(): apigatewayv2.HttpApi {
+    const api = new apigatewayv2.HttpApi(this, 'DeviceCodeHttpApi', {
+      apiName: 'TheSafeZone Device Code API',
+      description: 'API for Device Code Flow (RFC 8628)',
+      createDefaultStage: false,
+      defaultIntegration: new apigatewayv2Integrations.HttpLambdaIntegration(
+        'DeviceCodeHttpIntegration', this.deviceCodeLambda),
+      corsPreflight: this.props.allowedOrigins?.length ? {
+        allowOrigins: this.props.allowedOrigins,
+        allowMethods: [
+          apigatewayv2.CorsHttpMethod.GET,
+          apigatewayv2.CorsHttpMethod.POST,
+          apigatewayv2.CorsHttpMethod.DELETE,
+          apigatewayv2.CorsHttpMethod.OPTIONS,
+        ],
+        allowHeaders: ['Content-Type', 'Authorization'],
+      } : undefined,
+    });
+
+    const domainName = this.props.domain && new apigatewayv2.DomainName(this, 'CustomDomain', {
+      domainName: this.props.domain.domainName,
+      certificate: this.props.domain.certificate,
+    });
+
+    // Same stage name as the REST API, so the URLs look alike
+    api.addStage('DeviceCodeHttpStage', {
+      stageName: DEVICE_API_STAGE_NAME,
+      autoDeploy: true,
+      // Mapped to the root of the custom domain
+      domainMapping: domainName && { domainName },
+    });
+
+    if (domainName) {
+      this.createAliasRecord(new route53Targets.ApiGatewayv2DomainProperties(
+        domainName.regionalDomainName, domainName.regionalHostedZoneId));
+    }
+
+    return api;
+  }
+}
+
+/**
+ * Builds the API Gateway model (JSON Schema draft 4) of a request body type
+ * from the OpenAPI document
+ *
+ * References are inlined, as models can only refer to other models by URL.
+ * Fixed values (single-value enums such as grant_type) are left to the
+ * handlers, which answer them with their own OAuth error codes
+ * (unsupported_grant_type) instead of invalid_request.
+ */
+function requestModelSchema(type: string): apigateway.JsonSchema {
+  const schemas = deviceApiSpec.components.schemas as Record<string, object>;
+
+  const inline = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(inline);
+    if (!value || typeof value !== 'object') return value;
+
+    const schema: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      if (key === '$ref' && typeof child === 'string') {
+        Object.assign(schema, inline(schemas[child.replace('#/components/schemas/', '')]));
+      } else if (key === 'enum' && Array.isArray(child) && child.length === 1) {
+        continue;
+      } else {
+        schema[key] = inline(child);
+      }
+    }
+    return schema;
+  };
+
+  return {
+    schema: apigateway.JsonSchemaVersion.DRAFT4,
+    title: type,
+    ...(inline(schemas[type]) as apigateway.JsonSchema),
+  };
+}
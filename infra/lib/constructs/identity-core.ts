@@ -0,0 +1,421 @@
+import * as cdk from 'aws-cdk-lib';
+import * as cognito from 'aws-cdk-lib/aws-cognito';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as route53 from 'aws-cdk-lib/aws-route53';
+import * as route53Targets from 'aws-cdk-lib/aws-route53-targets';
+import * as path from 'path';
+import * as fs from 'fs';
+import { Construct } from 'constructs';
+import { ClientConfig, HostedApp, TokenValidity, tokenValidityOf } from '../clients.config';
+import { CustomDomainOptions } from './custom-domain';
+
+export interface IdentityCoreProps {
+  namePrefix: string;           // Prefix of resource names, e.g. thesafezone-prod-user-pool
+  cognitoDomainPrefix: string;  // <prefix>.auth.<region>.amazoncognito.com - unique per region
+  // Also serves the OAuth2 endpoints and Managed Login, e.g. from auth.thesafezone.eu
+  // Cognito requires an A record for the parent domain
+  customDomain?: CustomDomainOptions;
+  clients: ClientConfig[];      // Client registry entries (clients.config.ts)
+  tokenValidity: TokenValidity; // Default for clients that don't set their own
+  // User pool is retained or deleted with the stack
+  removalPolicy?: cdk.RemovalPolicy; // Defaults to RETAIN
+  deletionProtection?: boolean;
+  google?: GoogleProviderConfig; // Google sign-in, if given
+  threatProtection?: ThreatProtectionConfig; // Not enabled if not given
+}
+
+export interface GoogleProviderConfig {
+  clientId: string;
+  clientSecret: string;
+}
+
+/**
+ * Cognito threat protection (Plus feature plan)
+ * - audit: sign-ins are scored for risk and logged, but never blocked
+ * - enforced: the risk actions are taken
+ */
+export interface ThreatProtectionConfig {
+  mode: 'audit' | 'enforced';
+  // Adaptive authentication - action by the risk level of a sign-in
+  riskActions?: Partial<Record<RiskLevel, RiskAction>>; // Defaults to DEFAULT_RISK_ACTIONS
+  // Sign-ins, sign-ups and password changes with leaked passwords
+  compromisedCredentialsAction?: 'BLOCK' | 'NO_ACTION'; // Defaults to BLOCK
+}
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+// MFA_IF_CONFIGURED lets users without MFA through; MFA_REQUIRED blocks them
+export type RiskAction = 'NO_ACTION' | 'MFA_IF_CONFIGURED' | 'MFA_REQUIRED' | 'BLOCK';
+
+export const DEFAULT_RISK_ACTIONS: Record<RiskLevel, RiskAction> = {
+  low: 'NO_ACTION',
+  medium: 'MFA_IF_CONFIGURED',
+  high: 'BLOCK',
+};
+
+/**
+ * Identity Core
+ *
+ * The Cognito resources users sign in with:
+ * - User Pool with custom profile attributes and security settings
+ * - Threat protection with adaptive authentication and compromised
+ *   credentials detection
+ * - Google identity provider
+ * - User Pool App Clients generated from client registry entries
+ * - Identity Pool with anonymous and authenticated roles
+ * - Cognito domain, and optionally a custom domain, with TheSafeZone Managed
+ *   Login branding
+ */
+export class IdentityCore extends Construct {
+  public readonly userPool: cognito.UserPool;
+  public readonly userPoolDomain: cognito.UserPoolDomain;
+  public readonly customDomain?: cognito.UserPoolDomain;
+  public readonly clients: Record<string, cognito.UserPoolClient>; // By client registry key
+  public readonly identityPool: cognito.CfnIdentityPool;
+  public readonly unauthenticatedRole: iam.Role;
+  public readonly authenticatedRole: iam.Role;
+
+  private readonly clientConfigs: ClientConfig[];
+  private readonly tokenValidity: TokenValidity;
+
+  constructor(scope: Construct, id: string, props: IdentityCoreProps) {
+    super(scope, id);
+    this.clientConfigs = props.clients;
+    this.tokenValidity = props.tokenValidity;
+
+    // Create Cognito User Pool with email/password authentication
+    // Requirements: 2.1, 6.1, 11.1, 13.1
+    this.userPool = new cognito.UserPool(this, 'UserPool', {
+      userPoolName: `${props.namePrefix}-user-pool`,
+      
+      // Email as primary sign-in method
+      signInAliases: {
+        email: true,
+        username: false,
+      },
+      
+      // Self sign-up enabled
+      selfSignUpEnabled: true,
+      
+      // Email verification required (Requirement 2.1)
+      autoVerify: {
+        email: true,
+      },
+      
+      // Standard attributes
+      standardAttributes: {
+        email: {
+          required: true,
+          mutable: true,
+        },
+      },
+      
+      // Custom attributes for user profile (Requirement 6.1)
+      customAttributes: {
+        displayName: new cognito.StringAttribute({
+          minLen: 1,
+          maxLen: 256,
+          mutable: true,
+        }),
+        firstName: new cognito.StringAttribute({
+          minLen: 1,
+          maxLen: 256,
+          mutable: true,
+        }),
+        lastName: new cognito.StringAttribute({
+          minLen: 1,
+          maxLen: 256,
+          mutable: true,
+        }),
+        interests: new cognito.StringAttribute({
+          minLen: 0,
+          maxLen: 2048,
+          mutable: true,
+        }),
+      },
+      
+      // Password policy (secure defaults)
+      passwordPolicy: {
+        minLength: 8,
+        requireLowercase: true,
+        requireUppercase: true,
+        requireDigits: true,
+        requireSymbols: true,
+        tempPasswordValidity: cdk.Duration.days(7),
+      },
+
+      // Account lockout (Requirement 13.1) is built into Cognito and cannot be
+      // configured: after 5 failed sign-ins in a row the user is locked out for
+      // a second, doubling with each further failure up to about 15 minutes.
+      // Threat protection is enabled with the Plus feature plan.
+      featurePlan: props.threatProtection ? cognito.FeaturePlan.PLUS : undefined,
+      standardThreatProtectionMode: props.threatProtection && (props.threatProtection.mode === 'enforced'
+        ? cognito.StandardThreatProtectionMode.FULL_FUNCTION
+        : cognito.StandardThreatProtectionMode.AUDIT_ONLY),
+      // Device tokens are minted with custom auth from the Device Code Lambda,
+      // whose requests carry no user context - enforcing would block them
+      customThreatProtectionMode: props.threatProtection && cognito.CustomThreatProtectionMode.AUDIT_ONLY,
+      
+      // Account recovery via email (Requirement 2.4)
+      accountRecovery: cognito.AccountRecovery.EMAIL_ONLY,
+      
+      // User verification
+      userVerification: {
+        emailSubject: 'Verify your TheSafeZone account',
+        emailBody: 'Your verification code is {####}',
+        emailStyle: cognito.VerificationEmailStyle.CODE,
+      },
+      
+      removalPolicy: props.removalPolicy ?? cdk.RemovalPolicy.RETAIN,
+      deletionProtection: props.deletionProtection,
+    });
+
+    // Configure Google Identity Provider (Requirement 3.1, 3.2)
+    if (props.google) {
+      new cognito.UserPoolIdentityProviderGoogle(this, 'GoogleProvider', {
+        userPool: this.userPool,
+        clientId: props.google.clientId,
+        clientSecretValue: cdk.SecretValue.unsafePlainText(props.google.clientSecret),
+        scopes: ['profile', 'email', 'openid'],
+        // Attribute mapping from Google claims to Cognito attributes
+        attributeMapping: {
+          email: cognito.ProviderAttribute.GOOGLE_EMAIL,
+          givenName: cognito.ProviderAttribute.GOOGLE_GIVEN_NAME,
+          familyName: cognito.ProviderAttribute.GOOGLE_FAMILY_NAME,
+          fullname: cognito.ProviderAttribute.GOOGLE_NAME,
+          profilePicture: cognito.ProviderAttribute.GOOGLE_PICTURE,
+        },
+      });
+    }
+
+    if (props.threatProtection) {
+      this.createRiskConfiguration(props.threatProtection);
+    }
+
+    // Create the user pool clients described in the client registry
+    this.clients = Object.fromEntries(props.clients.map((client) => [client.key, this.createClient(client)]));
+
+    // Create Cognito Identity Pool for anonymous authentication (Requirement 4.1, 4.2)
+    this.identityPool = new cognito.CfnIdentityPool(this, 'IdentityPool', {
+      identityPoolName: `${props.namePrefix}-identity-pool`,
+      allowUnauthenticatedIdentities: true, // Enable anonymous access
+      // Link to User Pool for authenticated identities
+      cognitoIdentityProviders: props.clients.map((client) => ({
+        clientId: this.clients[client.key].userPoolClientId,
+        providerName: this.userPool.userPoolProviderName,
+      })),
+    });
+
+    // Create IAM role for unauthenticated (anonymous) users
+    this.unauthenticatedRole = new iam.Role(this, 'UnauthenticatedRole', {
+      assumedBy: new iam.FederatedPrincipal(
+        'cognito-identity.amazonaws.com',
+        {
+          StringEquals: {
+            'cognito-identity.amazonaws.com:aud': this.identityPool.ref,
+          },
+          'ForAnyValue:StringLike': {
+            'cognito-identity.amazonaws.com:amr': 'unauthenticated',
+          },
+        },
+        'sts:AssumeRoleWithWebIdentity'
+      ),
+      description: 'Role for unauthenticated (anonymous) users',
+    });
+
+    // Create IAM role for authenticated users
+    this.authenticatedRole = new iam.Role(this, 'AuthenticatedRole', {
+      assumedBy: new iam.FederatedPrincipal(
+        'cognito-identity.amazonaws.com',
+        {
+          StringEquals: {
+            'cognito-identity.amazonaws.com:aud': this.identityPool.ref,
+          },
+          'ForAnyValue:StringLike': {
+            'cognito-identity.amazonaws.com:amr': 'authenticated',
+          },
+        },
+        'sts:AssumeRoleWithWebIdentity'
+      ),
+      description: 'Role for authenticated users',
+    });
+
+    // Attach role mappings to Identity Pool
+    new cognito.CfnIdentityPoolRoleAttachment(this, 'IdentityPoolRoleAttachment', {
+      identityPoolId: this.identityPool.ref,
+      roles: {
+        unauthenticated: this.unauthenticatedRole.roleArn,
+        authenticated: this.authenticatedRole.roleArn,
+      },
+    });
+
+    // Add Cognito domain for OAuth2 endpoints
+    // This creates the /oauth2/authorize, /oauth2/token endpoints
+    this.userPoolDomain = this.userPool.addDomain('CognitoDomain', {
+      cognitoDomain: {
+        domainPrefix: props.cognitoDomainPrefix,
+      },
+      // Use Managed Login instead of classic Hosted UI
+      managedLoginVersion: cognito.ManagedLoginVersion.NEWER_MANAGED_LOGIN,
+    });
+
+    // The prefix domain keeps working next to the custom domain
+    if (props.customDomain) {
+      this.customDomain = this.userPool.addDomain('CustomDomain', {
+        customDomain: {
+          domainName: props.customDomain.domainName,
+          certificate: props.customDomain.certificate,
+        },
+        managedLoginVersion: cognito.ManagedLoginVersion.NEWER_MANAGED_LOGIN,
+      });
+      new route53.ARecord(this, 'UserPoolDomainAliasRecord', {
+        zone: props.customDomain.hostedZone,
+        recordName: props.customDomain.domainName,
+        target: route53.RecordTarget.fromAlias(new route53Targets.UserPoolDomainTarget(this.customDomain)),
+      });
+    }
+
+    // Configure Managed Login branding with TheSafeZone styling
+    // Requirements: 12.1, 12.3
+    // Uses CfnManagedLoginBranding for the new Managed Login experience
+    const managedLoginSettings = JSON.parse(
+      fs.readFileSync(
+        path.join(__dirname, '../cognito-ui/managed-login-settings.json'),
+        'utf-8'
+      )
+    );
+
+    // Read logo as base64
+    const logoBase64 = fs.readFileSync(
+      path.join(__dirname, '../cognito-ui/logo.png')
+    ).toString('base64');
+
+    // Apply branding to the clients that use it
+    // Valid category values: FAVICON_ICO, FAVICON_SVG, EMAIL_GRAPHIC, SMS_GRAPHIC,
+    // AUTH_APP_GRAPHIC, PASSWORD_GRAPHIC, PASSKEY_GRAPHIC, PAGE_HEADER_LOGO,
+    // PAGE_HEADER_BACKGROUND, PAGE_FOOTER_LOGO, PAGE_FOOTER_BACKGROUND,
+    // PAGE_BACKGROUND, FORM_BACKGROUND, FORM_LOGO, IDP_BUTTON_ICON
+    // Note: FAVICON_ICO requires .ico format with 1:1 aspect ratio
+    for (const client of props.clients.filter((config) => config.branding)) {
+      new cognito.CfnManagedLoginBranding(this, client.brandingConstructId ?? `${client.key}ClientBranding`, {
+        userPoolId: this.userPool.userPoolId,
+        clientId: this.clients[client.key].userPoolClientId,
+        settings: managedLoginSettings,
+        assets: [
+          {
+            category: 'FORM_LOGO',
+            colorMode: 'LIGHT',
+            extension: 'PNG',
+            bytes: logoBase64,
+          },
+          {
+            category: 'FORM_LOGO',
+            colorMode: 'DARK',
+            extension: 'PNG',
+            bytes: logoBase64,
+          },
+        ],
+      });
+    }
+  }
+
+  /**
+   * Full domain URL of the OAuth2 endpoints - the custom domain if there is one
+   */
+  public get domainUrl(): string {
+    if (this.customDomain) {
+      return this.customDomain.baseUrl();
+    }
+    return `https://${this.userPoolDomain.domainName}.auth.${cdk.Stack.of(this).region}.amazoncognito.com`;
+  }
+
+  /**
+   * Configures the threat protection actions for all clients
+   * Users are not notified - that needs an SES sending identity.
+   */
+  private createRiskConfiguration(config: ThreatProtectionConfig): void {
+    const riskActions = { ...DEFAULT_RISK_ACTIONS, ...config.riskActions };
+
+    new cognito.CfnUserPoolRiskConfigurationAttachment(this, 'RiskConfiguration', {
+      userPoolId: this.userPool.userPoolId,
+      clientId: 'ALL',
+      accountTakeoverRiskConfiguration: {
+        actions: {
+          lowAction: { eventAction: riskActions.low, notify: false },
+          mediumAction: { eventAction: riskActions.medium, notify: false },
+          highAction: { eventAction: riskActions.high, notify: false },
+        },
+      },
+      compromisedCredentialsRiskConfiguration: {
+        actions: { eventAction: config.compromisedCredentialsAction ?? 'BLOCK' },
+        eventFilter: ['SIGN_IN', 'SIGN_UP', 'PASSWORD_CHANGE'],
+      },
+    });
+  }
+
+  /**
+   * Returns a client's token validity - its own or the default
+   */
+  public tokenValidityOf(client: ClientConfig): TokenValidity {
+    return tokenValidityOf(client, this.tokenValidity);
+  }
+
+  /**
+   * Adds the URL an app is hosted at to the callback and logout URLs of the
+   * clients hosted on it (Requirement 15.3 - redirect mismatch fix)
+   *
+   * @param appUrl - e.g. the app's CloudFront URL
+   */
+  public addHostedAppUrl(app: HostedApp, appUrl: string): void {
+    for (const client of this.clientConfigs) {
+      if (client.hostedOn?.app !== app) continue;
+      const cfnClient = this.clients[client.key].node.defaultChild as cognito.CfnUserPoolClient;
+      cfnClient.callbackUrLs = [
+        ...this.clientUrls(client, 'CallbackUrls'),
+        ...client.hostedOn.callbackPaths.map((callbackPath) => `${appUrl}${callbackPath}`),
+      ];
+      cfnClient.logoutUrLs = [...this.clientUrls(client, 'LogoutUrls'), appUrl];
+    }
+  }
+
+  /**
+   * Creates a user pool client from its client registry entry
+   */
+  private createClient(client: ClientConfig): cognito.UserPoolClient {
+    const tokenValidity = this.tokenValidityOf(client);
+    return this.userPool.addClient(`${client.key}Client`, {
+      userPoolClientName: client.name,
+      generateSecret: client.type === 'confidential',
+      authFlows: {
+        userSrp: true, // Secure Remote Password for email/password
+        userPassword: false, // Disable plain password auth
+        // Device Code Lambda mints device client tokens via custom auth
+        custom: client.flows.includes('device_code'),
+      },
+      oAuth: {
+        flows: {
+          authorizationCodeGrant: client.flows.includes('authorization_code'), // With PKCE
+          implicitCodeGrant: false, // Disable implicit flow (less secure)
+        },
+        scopes: client.scopes.map((scope) => cognito.OAuthScope.custom(scope)),
+        callbackUrls: this.clientUrls(client, 'CallbackUrls'),
+        logoutUrls: this.clientUrls(client, 'LogoutUrls'),
+      },
+      accessTokenValidity: cdk.Duration.hours(tokenValidity.accessTokenHours),
+      idTokenValidity: cdk.Duration.hours(tokenValidity.idTokenHours),
+      refreshTokenValidity: cdk.Duration.days(tokenValidity.refreshTokenDays),
+      // Lets users sign devices out from their device list (DELETE /devices/{id})
+      enableTokenRevocation: true,
+    });
+  }
+
+  /**
+   * Returns a client's callback or logout URLs from context, or its defaults
+   * Context from the command line (-c webCallbackUrls=https://a,https://b) is a string.
+   */
+  private clientUrls(client: ClientConfig, kind: 'CallbackUrls' | 'LogoutUrls'): string[] {
+    const urls = this.node.tryGetContext(`${client.contextPrefix}${kind}`)
+      || (kind === 'CallbackUrls' ? client.callbackUrls : client.logoutUrls);
+    return typeof urls === 'string' ? urls.split(',').map((url) => url.trim()) : urls;
+  }
+}
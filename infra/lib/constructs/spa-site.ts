@@ -0,0 +1,161 @@
+import * as cdk from 'aws-cdk-lib';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import * as cloudfront from 'aws-cdk-lib/aws-cloudfront';
+import * as origins from 'aws-cdk-lib/aws-cloudfront-origins';
+import * as s3deploy from 'aws-cdk-lib/aws-s3-deployment';
+import * as route53 from 'aws-cdk-lib/aws-route53';
+import * as route53Targets from 'aws-cdk-lib/aws-route53-targets';
+import * as fs from 'fs';
+import { Construct } from 'constructs';
+import { CustomDomainOptions } from './custom-domain';
+
+// Runtime configuration file deployed next to the app (addRuntimeConfig)
+const RUNTIME_CONFIG_FILE = 'config.json';
+
+export interface SpaSiteProps {
+  bucketName: string;
+  displayName: string;          // Used in output descriptions, e.g. Login UI
+  comment: string;              // CloudFront distribution comment
+  // Built app, deployed to the bucket if the folder exists (e.g. login-ui/dist)
+  distPath?: string;
+  domain?: CustomDomainOptions; // Serves the app from e.g. account.thesafezone.eu
+  // The bucket is emptied and deleted with the stack when DESTROY
+  removalPolicy?: cdk.RemovalPolicy; // Defaults to RETAIN
+  // Outputs are named <outputPrefix>BucketName, <outputPrefix>DistributionId
+  // and <outputPrefix>Url - set it when the construct ID is not unique in the stack
+  outputPrefix?: string;        // Defaults to the construct ID
+}
+
+/**
+ * Single-page app hosted on S3 behind CloudFront
+ *
+ * - Private, versioned S3 bucket read by CloudFront via Origin Access Control
+ * - SPA routing: 403/404 from S3 are answered with /index.html
+ * - Deployment of the built app with CloudFront invalidation
+ * - Runtime config.json with the stack's values, so one build serves every stage
+ * - Optional custom domain with Route 53 alias records
+ * - Bucket name, distribution ID and URL outputs for deploy scripts
+ */
+export class SpaSite extends Construct {
+  public readonly bucket: s3.Bucket;
+  public readonly distribution: cloudfront.Distribution;
+  public readonly deployment?: s3deploy.BucketDeployment;
+
+  private readonly domainName?: string;
+
+  constructor(scope: Construct, id: string, props: SpaSiteProps) {
+    super(scope, id);
+    const removalPolicy = props.removalPolicy ?? cdk.RemovalPolicy.RETAIN;
+    this.domainName = props.domain?.domainName;
+
+    this.bucket = new s3.Bucket(this, 'Bucket', {
+      bucketName: props.bucketName,
+      // Block all public access - CloudFront will access via OAC
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      // Enable versioning for rollback capability
+      versioned: true,
+      removalPolicy,
+      autoDeleteObjects: removalPolicy === cdk.RemovalPolicy.DESTROY,
+      // Enable encryption
+      encryption: s3.BucketEncryption.S3_MANAGED,
+    });
+
+    this.distribution = new cloudfront.Distribution(this, 'Distribution', {
+      comment: props.comment,
+      domainNames: props.domain ? [props.domain.domainName] : undefined,
+      certificate: props.domain?.certificate,
+      defaultBehavior: {
+        origin: origins.S3BucketOrigin.withOriginAccessControl(this.bucket),
+        viewerProtocolPolicy: cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
+        allowedMethods: cloudfront.AllowedMethods.ALLOW_GET_HEAD_OPTIONS,
+        cachePolicy: cloudfront.CachePolicy.CACHING_OPTIMIZED,
+        compress: true,
+      },
+      // SPA routing - return index.html for all 404s
+      errorResponses: [
+        {
+          httpStatus: 403,
+          responseHttpStatus: 200,
+          responsePagePath: '/index.html',
+          ttl: cdk.Duration.minutes(5),
+        },
+        {
+          httpStatus: 404,
+          responseHttpStatus: 200,
+          responsePagePath: '/index.html',
+          ttl: cdk.Duration.minutes(5),
+        },
+      ],
+      defaultRootObject: 'index.html',
+      // Enable HTTP/2 and HTTP/3 for better performance
+      httpVersion: cloudfront.HttpVersion.HTTP2_AND_3,
+      // Price class - use all edge locations for global coverage
+      priceClass: cloudfront.PriceClass.PRICE_CLASS_100,
+    });
+
+    if (props.domain) {
+      const target = route53.RecordTarget.fromAlias(new route53Targets.CloudFrontTarget(this.distribution));
+      new route53.ARecord(this, 'AliasRecord', {
+        zone: props.domain.hostedZone,
+        recordName: props.domain.domainName,
+        target,
+      });
+      new route53.AaaaRecord(this, 'Ipv6AliasRecord', {
+        zone: props.domain.hostedZone,
+        recordName: props.domain.domainName,
+        target,
+      });
+    }
+
+    // Deploy the app's static files to S3 (if dist folder exists)
+    if (props.distPath && fs.existsSync(props.distPath)) {
+      this.deployment = new s3deploy.BucketDeployment(this, 'Deployment', {
+        sources: [s3deploy.Source.asset(props.distPath)],
+        destinationBucket: this.bucket,
+        distribution: this.distribution,
+        distributionPaths: ['/*'],
+      });
+    }
+
+    const outputPrefix = props.outputPrefix ?? id;
+
+    new cdk.CfnOutput(this, 'BucketName', {
+      value: this.bucket.bucketName,
+      description: `S3 bucket name for ${props.displayName}`,
+    }).overrideLogicalId(`${outputPrefix}BucketName`);
+
+    new cdk.CfnOutput(this, 'DistributionId', {
+      value: this.distribution.distributionId,
+      description: `CloudFront distribution ID for ${props.displayName}`,
+    }).overrideLogicalId(`${outputPrefix}DistributionId`);
+
+    new cdk.CfnOutput(this, 'Url', {
+      value: this.url,
+      description: `${props.displayName} URL (CloudFront)`,
+    }).overrideLogicalId(`${outputPrefix}Url`);
+  }
+
+  /**
+   * Deploys config.json with the given values next to the built app
+   * The app reads it at startup in place of its build-time (VITE_*) values.
+   * Values may be tokens, e.g. a user pool client ID. Nothing is deployed
+   * without a built app.
+   */
+  public addRuntimeConfig(config: Record<string, string>): void {
+    this.deployment?.addSource(s3deploy.Source.jsonData(RUNTIME_CONFIG_FILE, config));
+  }
+
+  /**
+   * https URL of the site - its custom domain if it has one
+   */
+  public get url(): string {
+    return this.domainName ? `https://${this.domainName}` : this.distributionUrl;
+  }
+
+  /**
+   * https URL of the site's CloudFront domain
+   */
+  public get distributionUrl(): string {
+    return `https://${this.distribution.distributionDomainName}`;
+  }
+}
@@ -0,0 +1,50 @@
+import { Construct } from 'constructs';
+import type { StageConfig } from './stage.config';
+
+/**
+ * Custom Domains
+ *
+ * With the domainName and hostedZoneId context keys, a stage is served from
+ * subdomains of a Route 53 hosted zone instead of the AWS-generated domains:
+ * - auth.<domain>: Cognito OAuth2 endpoints and Managed Login
+ * - account.<domain>: Login UI, including the device activation page
+ * - api.<domain>: Device Code API
+ *
+ * Stages with a subdomain (stage.config.ts) nest their domains below it,
+ * e.g. auth.staging.thesafezone.eu. The certificate for auth and account is
+ * issued in us-east-1 (TheSafeZoneCertificateStack), as CloudFront and
+ * Cognito require; the api certificate is issued in the stack's region.
+ */
+
+export interface StageDomains {
+  zoneName: string;             // Hosted zone the alias records are created in, e.g. thesafezone.eu
+  hostedZoneId: string;
+  auth: string;                 // e.g. auth.thesafezone.eu
+  account: string;
+  api: string;
+}
+
+/**
+ * Returns a stage's custom domains from context
+ * @returns undefined if no custom domain is configured
+ * @throws if only one of domainName and hostedZoneId is given
+ */
+export function getStageDomains(scope: Construct, stage: StageConfig): StageDomains | undefined {
+  const zoneName: string | undefined = scope.node.tryGetContext('domainName');
+  const hostedZoneId: string | undefined = scope.node.tryGetContext('hostedZoneId');
+  if (!zoneName && !hostedZoneId) {
+    return undefined;
+  }
+  if (!zoneName || !hostedZoneId) {
+    throw new Error('Custom domains need both the domainName and hostedZoneId context');
+  }
+
+  const stageDomain = stage.subdomain ? `${stage.subdomain}.${zoneName}` : zoneName;
+  return {
+    zoneName,
+    hostedZoneId,
+    auth: `auth.${stageDomain}`,
+    account: `account.${stageDomain}`,
+    api: `api.${stageDomain}`,
+  };
+}
@@ -1 +1,7 @@
 export * from './thesafezone-idp-stack';
+export * from './constructs/identity-core';
+export * from './constructs/device-code-api';
+export * from './constructs/spa-site';
+export * from './certificate-stack';
+export * from './domain.config';
+export * from './constructs/custom-domain';
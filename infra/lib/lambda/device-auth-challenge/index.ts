@@ -0,0 +1,170 @@
+import {
+  DefineAuthChallengeTriggerEvent,
+  CreateAuthChallengeTriggerEvent,
+  VerifyAuthChallengeResponseTriggerEvent,
+  PreTokenGenerationV2TriggerEvent,
+} from 'aws-lambda';
+import { verifyDeviceAssertion } from '../device-code/device-assertion';
+import { UserDeviceRegistry, getUserDeviceRegistry } from '../device-code/user-device-registry';
+
+type AuthChallengeTriggerEvent =
+  | DefineAuthChallengeTriggerEvent
+  | CreateAuthChallengeTriggerEvent
+  | VerifyAuthChallengeResponseTriggerEvent
+  | PreTokenGenerationV2TriggerEvent;
+
+/**
+ * Scope Cognito gives access tokens from admin and custom auth flows
+ */
+const ADMIN_SCOPE = 'aws.cognito.signin.user.admin';
+
+/**
+ * Cognito custom-auth triggers for device token minting
+ *
+ * The Device Code Lambda mints tokens for a device client by starting a
+ * CUSTOM_AUTH flow for the authorizing user and answering a single
+ * CUSTOM_CHALLENGE with a KMS-signed device assertion.
+ *
+ * Triggers:
+ * - DefineAuthChallenge - one CUSTOM_CHALLENGE, tokens only if it was answered correctly
+ * - CreateAuthChallenge - no secret is sent to the caller
+ * - VerifyAuthChallengeResponse - the answer must be a valid assertion for this user
+ * - PreTokenGeneration (V2) - device access tokens carry the scope the user
+ *   granted instead of aws.cognito.signin.user.admin; all other tokens are
+ *   left as they are
+ */
+export async function handler(event: AuthChallengeTriggerEvent): Promise<AuthChallengeTriggerEvent> {
+  const triggerSource: string = event.triggerSource;
+  switch (triggerSource) {
+    case 'DefineAuthChallenge_Authentication':
+      return defineAuthChallenge(event as DefineAuthChallengeTriggerEvent);
+    case 'CreateAuthChallenge_Authentication':
+      return createAuthChallenge(event as CreateAuthChallengeTriggerEvent);
+    case 'VerifyAuthChallengeResponse_Authentication':
+      return verifyAuthChallengeResponse(event as VerifyAuthChallengeResponseTriggerEvent);
+    case 'TokenGeneration_Authentication':
+      return scopeMintedTokens(event as PreTokenGenerationV2TriggerEvent);
+    case 'TokenGeneration_RefreshTokens':
+      return scopeRefreshedTokens(event as PreTokenGenerationV2TriggerEvent);
+    case 'TokenGeneration_HostedAuth':
+    case 'TokenGeneration_NewPasswordChallenge':
+    case 'TokenGeneration_AuthenticateDevice':
+      return event;
+    default:
+      throw new Error(`Unsupported trigger: ${triggerSource}`);
+  }
+}
+
+/**
+ * Issues a single CUSTOM_CHALLENGE and tokens only after it was answered correctly
+ */
+function defineAuthChallenge(event: DefineAuthChallengeTriggerEvent): DefineAuthChallengeTriggerEvent {
+  const session = event.request.session;
+
+  if (session.length === 0) {
+    event.response.challengeName = 'CUSTOM_CHALLENGE';
+    event.response.issueTokens = false;
+    event.response.failAuthentication = false;
+    return event;
+  }
+
+  const last = session[session.length - 1];
+  const succeeded = session.length === 1 &&
+    last.challengeName === 'CUSTOM_CHALLENGE' &&
+    last.challengeResult === true;
+
+  event.response.issueTokens = succeeded;
+  event.response.failAuthentication = !succeeded;
+  return event;
+}
+
+/**
+ * The answer is produced by the Device Code Lambda, so nothing is disclosed here
+ */
+function createAuthChallenge(event: CreateAuthChallengeTriggerEvent): CreateAuthChallengeTriggerEvent {
+  event.response.publicChallengeParameters = { type: 'DEVICE_ASSERTION' };
+  event.response.privateChallengeParameters = {};
+  event.response.challengeMetadata = 'DEVICE_ASSERTION';
+  return event;
+}
+
+/**
+ * Accepts only a fresh, validly signed assertion for the user being authenticated
+ */
+async function verifyAuthChallengeResponse(
+  event: VerifyAuthChallengeResponseTriggerEvent
+): Promise<VerifyAuthChallengeResponseTriggerEvent> {
+  try {
+    const claims = await verifyDeviceAssertion(event.request.challengeAnswer, event.userName);
+    event.response.answerCorrect = claims !== null;
+    if (claims) {
+      console.log(`Device assertion accepted for device code ${claims.deviceCode.slice(0, 8)}...`);
+    }
+  } catch (error) {
+    console.error('Device assertion verification failed:', error);
+    event.response.answerCorrect = false;
+  }
+  return event;
+}
+
+/**
+ * Scopes the access token of a device client to the scope in its assertion
+ * The Device Code Lambda passes the assertion as client metadata when it
+ * answers the challenge; sign-ins without one keep their tokens as issued.
+ */
+async function scopeMintedTokens(event: PreTokenGenerationV2TriggerEvent): Promise<PreTokenGenerationV2TriggerEvent> {
+  const assertion = event.request.clientMetadata?.deviceAssertion;
+  if (!assertion) return event;
+
+  const claims = await verifyDeviceAssertion(assertion, event.userName);
+  if (!claims) {
+    throw new Error('Invalid device assertion in client metadata');
+  }
+
+  return setAccessTokenScope(event, claims.scope);
+}
+
+/**
+ * Keeps the granted scope on access tokens a device refreshes
+ * Cognito does not carry scopes added at sign-in over to refreshed tokens, so
+ * they are looked up from the user's devices signed in to the same client.
+ */
+async function scopeRefreshedTokens(
+  event: PreTokenGenerationV2TriggerEvent,
+  registry: UserDeviceRegistry = getUserDeviceRegistry()
+): Promise<PreTokenGenerationV2TriggerEvent> {
+  const userId = event.request.userAttributes.sub;
+  if (!userId) return event;
+
+  const clientDevices = (await registry.list(userId))
+    .filter((device) => device.clientId === event.callerContext.clientId);
+
+  // Only a user's sole device of the client is known to be the one refreshing;
+  // with several, none is marked as seen
+  if (clientDevices.length === 1) {
+    await registry.touch(userId, clientDevices[0].deviceId, Math.floor(Date.now() / 1000))
+      .catch((error) => console.error('Failed to record device as seen:', error));
+  }
+
+  const devices = clientDevices.filter((device) => device.scope !== undefined);
+  if (devices.length === 0) return event;
+
+  // A refresh token does not tell which device it belongs to, so a device
+  // gets the scopes the user granted the client on any of their devices
+  const scopes = new Set(devices.flatMap((device) => device.scope!.split(' ').filter(Boolean)));
+  return setAccessTokenScope(event, Array.from(scopes).join(' '));
+}
+
+/**
+ * Replaces the admin scope of the access token with `scope`
+ */
+function setAccessTokenScope(event: PreTokenGenerationV2TriggerEvent, scope: string): PreTokenGenerationV2TriggerEvent {
+  event.response.claimsAndScopeOverrideDetails = {
+    ...event.response.claimsAndScopeOverrideDetails,
+    accessTokenGeneration: {
+      scopesToAdd: scope.split(' ').filter(Boolean),
+      scopesToSuppress: [ADMIN_SCOPE],
+    },
+  };
+  return event;
+}
@@ -0,0 +1,349 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import {
+  DynamoDBClient,
+  GetItemCommand,
+  PutItemCommand,
+  ConditionalCheckFailedException,
+} from '@aws-sdk/client-dynamodb';
+import { OAuthErrorCode } from '@thesafezone/idp-common';
+import type { DeviceCodeStore } from './device-code-store';
+import { DeviceCodeRecord } from './types';
+import { getVerifier } from './jwt-verifier';
+import { describeSettledCode } from './device-code-state';
+
+/**
+ * User Code Attempt Limiting
+ *
+ * User codes are only 8 characters, so the user-facing endpoints limit how
+ * many unknown codes a caller may try. Failed lookups are tracked per caller
+ * (the user's sub and the source IP) in a sliding window; a caller with too
+ * many failures in the window is rejected with 429 and Retry-After until the
+ * oldest failure leaves the window. Requests with an invalid access token count
+ * against the source IP, which is checked before the token is verified.
+ *
+ * Codes are also protected individually: every request rejected for the
+ * limit - of the source IP or of the user - that names an existing code with a
+ * verified token counts against that code, so guessers spread over many
+ * accounts behind one IP wear the code down too. The code is invalidated after
+ * MAX_FAILED_ATTEMPTS_PER_CODE (see DeviceCodeStore.recordFailedAttempt).
+ * Unverified requests never count against a code, so anyone who sees a code
+ * cannot invalidate it with forged tokens.
+ *
+ * authenticateCaller runs these checks for the user-facing endpoints.
+ */
+
+export const ATTEMPT_WINDOW_SECONDS = 15 * 60;
+export const MAX_FAILED_ATTEMPTS_PER_CALLER = 10;
+export const MAX_FAILED_ATTEMPTS_PER_CODE = 5;
+
+// Concurrent failures of one caller retry their conditional write this often
+const MAX_RECORD_FAILURE_WRITES = 5;
+
+/**
+ * Result of checking a caller against the attempt limit
+ */
+export type AttemptLimitResult =
+  | { limited: false }
+  | { limited: true; retryAfter: number };   // Seconds until the caller may try again
+
+/**
+ * Persistence for failed attempts, keyed by caller
+ */
+export interface AttemptStore {
+  /** Returns the timestamps of failures for `key` at or after `since` */
+  getFailures(key: string, since: number): Promise<number[]>;
+
+  /** Records a failure for `key`; the key's failures may be dropped after `ttl` */
+  recordFailure(key: string, now: number, ttl: number): Promise<void>;
+}
+
+/**
+ * Creates a store backed by the device attempts DynamoDB table
+ *
+ * Each caller key holds a list of failure timestamps. Recording a failure
+ * drops the timestamps that have left the window, so the list never holds more
+ * than a window's failures; the write is conditional on the item's version, so
+ * concurrent failures are not lost. The item's TTL is pushed forward with
+ * every failure, so the list is dropped once the caller has been quiet for a
+ * whole window.
+ */
+export function createDynamoDbAttemptStore(
+  tableName: string,
+  client = new DynamoDBClient({})
+): AttemptStore {
+  return {
+    async getFailures(key, since) {
+      const { failures } = await read(key);
+      return failures.filter((timestamp) => timestamp >= since);
+    },
+
+    async recordFailure(key, now, ttl) {
+      for (let write = 0; write < MAX_RECORD_FAILURE_WRITES; write++) {
+        const { failures, version } = await read(key);
+        const kept = failures.filter((timestamp) => timestamp > now - ATTEMPT_WINDOW_SECONDS);
+
+        try {
+          await client.send(new PutItemCommand({
+            TableName: tableName,
+            Item: {
+              callerKey: { S: key },
+              failures: { L: [...kept, now].map((timestamp) => ({ N: timestamp.toString() })) },
+              version: { N: (version + 1).toString() },
+              ttl: { N: ttl.toString() },
+            },
+            ConditionExpression: 'attribute_not_exists(version) OR version = :version',
+            ExpressionAttributeValues: { ':version': { N: version.toString() } },
+          }));
+          return;
+        } catch (error) {
+          if (!(error instanceof ConditionalCheckFailedException)) throw error;
+        }
+      }
+      throw new Error(`Failed attempt for ${key} not recorded after ${MAX_RECORD_FAILURE_WRITES} writes`);
+    },
+  };
+
+  // Returns the caller's failure timestamps and the version of their item (0 if none)
+  async function read(key: string): Promise<{ failures: number[]; version: number }> {
+    const result = await client.send(new GetItemCommand({
+      TableName: tableName,
+      Key: {
+        callerKey: { S: key },
+      },
+      ConsistentRead: true,
+    }));
+
+    return {
+      failures: (result.Item?.failures?.L ?? []).map((value) => parseInt(value.N ?? '0', 10)),
+      version: parseInt(result.Item?.version?.N ?? '0', 10),
+    };
+  }
+}
+
+/**
+ * Creates a store that keeps failed attempts in memory
+ * For tests and local development only - state is lost with the process.
+ */
+export function createInMemoryAttemptStore(): AttemptStore {
+  const failures = new Map<string, { timestamps: number[]; ttl: number }>();
+
+  return {
+    async getFailures(key, since) {
+      const entry = failures.get(key);
+      if (!entry) return [];
+      return entry.timestamps.filter((timestamp) => timestamp >= since);
+    },
+
+    async recordFailure(key, now, ttl) {
+      const entry = failures.get(key);
+      // Like DynamoDB TTL, an entry past its ttl starts over; like the DynamoDB
+      // store, failures that have left the window are dropped
+      const timestamps = entry && entry.ttl > now ? entry.timestamps : [];
+      const kept = timestamps.filter((timestamp) => timestamp > now - ATTEMPT_WINDOW_SECONDS);
+      failures.set(key, { timestamps: [...kept, now], ttl });
+    },
+  };
+}
+
+let store: AttemptStore | null = null;
+
+/**
+ * Returns the configured attempt store (DynamoDB table from DEVICE_ATTEMPTS_TABLE_NAME)
+ */
+export function getAttemptStore(): AttemptStore {
+  if (!store) {
+    store = createDynamoDbAttemptStore(process.env.DEVICE_ATTEMPTS_TABLE_NAME || 'thesafezone-device-attempts');
+  }
+  return store;
+}
+
+/**
+ * Overrides the attempt store (e.g. the in-memory store in tests)
+ */
+export function setAttemptStore(override: AttemptStore | null): void {
+  store = override;
+}
+
+/**
+ * Returns the keys failed attempts are tracked under for a caller
+ * Without a verified user only the source IP is tracked.
+ */
+export function getCallerKeys(event: APIGatewayProxyEvent, userId?: string): string[] {
+  const keys = userId ? [`sub#${userId}`] : [];
+  const sourceIp = event.requestContext?.identity?.sourceIp;
+  if (sourceIp) {
+    keys.push(`ip#${sourceIp}`);
+  }
+  return keys;
+}
+
+/**
+ * Checks whether any of the caller's keys is over the failed attempt limit
+ */
+export async function checkAttemptLimit(
+  callerKeys: string[],
+  now: number,
+  attemptStore: AttemptStore = getAttemptStore()
+): Promise<AttemptLimitResult> {
+  let retryAfter = 0;
+
+  for (const key of callerKeys) {
+    const failures = await attemptStore.getFailures(key, now - ATTEMPT_WINDOW_SECONDS + 1);
+    if (failures.length >= MAX_FAILED_ATTEMPTS_PER_CALLER) {
+      // The caller may try again once enough failures have left the window
+      const sorted = [...failures].sort((a, b) => a - b);
+      const unblockedAt = sorted[failures.length - MAX_FAILED_ATTEMPTS_PER_CALLER] + ATTEMPT_WINDOW_SECONDS;
+      retryAfter = Math.max(retryAfter, unblockedAt - now);
+    }
+  }
+
+  return retryAfter > 0 ? { limited: true, retryAfter } : { limited: false };
+}
+
+/**
+ * Records a failed attempt for each of the caller's keys
+ */
+export async function recordFailedAttempt(
+  callerKeys: string[],
+  now: number,
+  attemptStore: AttemptStore = getAttemptStore()
+): Promise<void> {
+  await Promise.all(callerKeys.map((key) =>
+    attemptStore.recordFailure(key, now, now + ATTEMPT_WINDOW_SECONDS)));
+}
+
+/**
+ * Counts a rejected request from a verified user against the pending code it
+ * names, if any
+ */
+async function recordCodeFailure(userCode: string, deviceCodeStore: DeviceCodeStore): Promise<void> {
+  const record = await deviceCodeStore.getByUserCode(userCode);
+  if (record?.status === 'pending') {
+    const failures = await deviceCodeStore.recordFailedAttempt(record.deviceCode, MAX_FAILED_ATTEMPTS_PER_CODE);
+    if (failures !== null && failures >= MAX_FAILED_ATTEMPTS_PER_CODE) {
+      console.warn(`User code for device code ${record.deviceCode.slice(0, 8)}... invalidated after ${failures} failed attempts`);
+    }
+  }
+}
+
+/**
+ * A verified caller naming a pending, unexpired code - or the response
+ * rejecting the request
+ */
+export type CallerAuthentication =
+  | { ok: true; userId: string; username?: string; record: DeviceCodeRecord; now: number }
+  | { ok: false; response: APIGatewayProxyResult };
+
+/**
+ * Authenticates a user-facing request naming a user code
+ *
+ * Checks the source IP limit, verifies the access token, checks the user's
+ * limit and looks up the code, recording failures as described above. Only
+ * pending codes that have not expired are returned.
+ *
+ * @param userCode - Normalized user code
+ * @param options.bearer - Answer invalid tokens with WWW-Authenticate (RFC 6750)
+ */
+export async function authenticateCaller(
+  event: APIGatewayProxyEvent,
+  userCode: string,
+  accessToken: string,
+  store: DeviceCodeStore,
+  attempts: AttemptStore = getAttemptStore(),
+  options: { bearer?: boolean } = {}
+): Promise<CallerAuthentication> {
+  const jwtVerifier = getVerifier();
+  if (!jwtVerifier) {
+    console.error('JWT verifier not configured - missing USER_POOL_ID or USER_POOL_CLIENT_ID');
+    return reject(500, 'server_error', 'Server configuration error');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const sourceKeys = getCallerKeys(event);
+  const sourceLimit = await checkAttemptLimit(sourceKeys, now, attempts);
+
+  let userId: string | undefined;
+  let username: string | undefined;
+  try {
+    const payload = await jwtVerifier.verify(accessToken);
+    userId = payload.sub;
+    username = typeof payload.username === 'string' ? payload.username : undefined;
+  } catch (error) {
+    console.error('Token verification failed:', error);
+  }
+
+  // Sources that have sent too many failed attempts are rejected whatever
+  // their token, so sprayed forged tokens are limited too
+  if (sourceLimit.limited) {
+    if (userId) {
+      await recordCodeFailure(userCode, store);
+    }
+    return tooManyAttempts(sourceLimit.retryAfter);
+  }
+
+  if (!userId) {
+    await recordFailedAttempt(sourceKeys, now, attempts);
+    return reject(401, 'invalid_token', 'Access token is invalid or expired',
+      options.bearer ? { 'WWW-Authenticate': 'Bearer error="invalid_token"' } : {});
+  }
+
+  // A code named by a user over the limit was likely guessed
+  const callerKeys = getCallerKeys(event, userId);
+  const limit = await checkAttemptLimit(callerKeys, now, attempts);
+  if (limit.limited) {
+    await recordCodeFailure(userCode, store);
+    return tooManyAttempts(limit.retryAfter);
+  }
+
+  const record = await store.getByUserCode(userCode);
+  if (!record) {
+    await recordFailedAttempt(callerKeys, now, attempts);
+    return reject(400, 'invalid_grant', 'User code not found');
+  }
+
+  if (now > record.expiresAt) {
+    return reject(400, 'expired_token', 'User code has expired');
+  }
+
+  // Only pending requests can still be approved or denied
+  if (record.status !== 'pending') {
+    const settled = describeSettledCode(record.status);
+    return reject(400, settled.error, settled.errorDescription);
+  }
+
+  return { ok: true, userId, username, record, now };
+}
+
+/**
+ * Rejects a caller over the failed attempt limit
+ */
+function tooManyAttempts(retryAfter: number): CallerAuthentication {
+  return reject(429, 'too_many_attempts', 'Too many failed attempts. Try again later.',
+    { 'Retry-After': retryAfter.toString() });
+}
+
+/**
+ * Rejects a request with an error response per RFC 8628
+ */
+function reject(
+  statusCode: number,
+  error: OAuthErrorCode,
+  errorDescription: string,
+  headers: Record<string, string> = {}
+): CallerAuthentication {
+  return {
+    ok: false,
+    response: {
+      statusCode,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store',
+        ...headers,
+      },
+      body: JSON.stringify({
+        error,
+        error_description: errorDescription,
+      }),
+    },
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * Device Client Registry
+ *
+ * Describes the user pool clients that may use the device grant and which
+ * scopes each may request. Populated by TheSafeZoneIdpStack via the
+ * DEVICE_CLIENTS environment variable as a JSON map of client_id to client
+ * metadata. Clients that are not listed cannot start a device flow.
+ */
+
+import type { DeviceFlowSettings } from './device-flow-config';
+
+/**
+ * Registered device client metadata
+ */
+export interface DeviceClient {
+  displayName: string;          // Name shown to users on the consent screen
+  allowedScopes: string[];      // Scopes the client may request
+  deviceFlow?: DeviceFlowSettings; // Overrides of the stack-level device flow defaults
+  refreshTokenValidity?: number; // Seconds - signed-in devices are forgotten after this
+}
+
+/**
+ * Result of resolving the scope of a device code request
+ */
+export type ScopeResult =
+  | { ok: true; scope: string }
+  | { ok: false; errorDescription: string };
+
+let registry: Record<string, DeviceClient> | null = null;
+
+/**
+ * Loads the registry from the environment (parsed once per container)
+ */
+function getRegistry(): Record<string, DeviceClient> {
+  if (!registry) {
+    try {
+      registry = JSON.parse(process.env.DEVICE_CLIENTS || '{}');
+    } catch (error) {
+      console.error('Invalid DEVICE_CLIENTS configuration:', error);
+      registry = {};
+    }
+  }
+  return registry as Record<string, DeviceClient>;
+}
+
+/**
+ * Looks up a registered device client
+ * @returns client metadata, or null if the client is not registered
+ */
+export function getDeviceClient(clientId: string): DeviceClient | null {
+  const clients = getRegistry();
+  return Object.prototype.hasOwnProperty.call(clients, clientId) ? clients[clientId] : null;
+}
+
+/**
+ * Lists the client_ids of all registered device clients
+ */
+export function listDeviceClients(): string[] {
+  return Object.keys(getRegistry());
+}
+
+/**
+ * Returns the name to show users for a client, falling back to the client_id
+ */
+export function getClientDisplayName(clientId: string): string {
+  return getDeviceClient(clientId)?.displayName || clientId;
+}
+
+/**
+ * Resolves the requested scope against the scopes a client may request
+ *
+ * An omitted scope defaults to all allowed scopes. Duplicates are removed
+ * and the order of the request is preserved.
+ */
+export function resolveScope(client: DeviceClient, requestedScope?: string): ScopeResult {
+  if (requestedScope === undefined) {
+    return { ok: true, scope: client.allowedScopes.join(' ') };
+  }
+
+  const scopes = Array.from(new Set(requestedScope.split(' ').filter(Boolean)));
+  if (scopes.length === 0) {
+    return { ok: false, errorDescription: 'scope must not be empty' };
+  }
+
+  const disallowed = scopes.filter((scope) => !client.allowedScopes.includes(scope));
+  if (disallowed.length > 0) {
+    return { ok: false, errorDescription: `Scope not allowed for this client: ${disallowed.join(' ')}` };
+  }
+
+  return { ok: true, scope: scopes.join(' ') };
+}
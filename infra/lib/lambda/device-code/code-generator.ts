@@ -1,16 +1,18 @@
 import * as crypto from 'crypto';
+import { DEFAULT_USER_CODE_FORMAT, UserCodeFormat, formatUserCode } from '@thesafezone/idp-common';
 
 /**
  * Device Code Generator
  * 
  * Generates unique device codes and user codes per RFC 8628.
  * - device_code: Cryptographically secure random string (32 hex chars)
- * - user_code: User-friendly alphanumeric code (8 chars, no ambiguous chars)
+ * - user_code: User-friendly code in the client's format (by default 8
+ *   alphanumeric chars, no ambiguous chars - see device-flow-config.ts)
+ *
+ * User code formatting, normalization and validation are shared with the
+ * Login UI in @thesafezone/idp-common.
  */
 
-// Characters for user code - excludes ambiguous chars (0, O, 1, I, L)
-const USER_CODE_CHARS = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
-const USER_CODE_LENGTH = 8;
 const DEVICE_CODE_LENGTH = 32; // 32 hex chars = 128 bits
 
 /**
@@ -23,20 +25,18 @@ export function generateDeviceCode(): string {
 
 /**
  * Generates a user-friendly code for display
- * Format: XXX-XXXX (8 chars with hyphen for readability)
- * @returns 8-character alphanumeric string (formatted as XXX-XXXX)
+ * Format: XXX-XXXXX (hyphen after the first 3 chars for readability)
+ * @returns user code in the given format, e.g. ABC-DEFGH or 123-456
  */
-export function generateUserCode(): string {
-  const bytes = crypto.randomBytes(USER_CODE_LENGTH);
+export function generateUserCode(format: UserCodeFormat = DEFAULT_USER_CODE_FORMAT): string {
   let code = '';
   
-  for (let i = 0; i < USER_CODE_LENGTH; i++) {
-    const index = bytes[i] % USER_CODE_CHARS.length;
-    code += USER_CODE_CHARS[index];
+  for (let i = 0; i < format.length; i++) {
+    // randomInt is unbiased for any alphabet size
+    code += format.chars[crypto.randomInt(format.chars.length)];
   }
   
-  // Format as XXX-XXXX for readability
-  return `${code.slice(0, 3)}-${code.slice(3)}`;
+  return formatUserCode(code);
 }
 
 /**
@@ -47,30 +47,3 @@ export function generateUserCode(): string {
 export function isValidDeviceCode(code: string): boolean {
   return typeof code === 'string' && /^[a-f0-9]{32}$/i.test(code);
 }
-
-/**
- * Validates a user code format
- * @param code The user code to validate (with or without hyphen)
- * @returns true if valid format
- */
-export function isValidUserCode(code: string): boolean {
-  if (typeof code !== 'string') return false;
-  // Remove hyphen for validation
-  const normalized = code.replace(/-/g, '').toUpperCase();
-  if (normalized.length !== USER_CODE_LENGTH) return false;
-  
-  // Check all characters are in allowed set
-  for (const char of normalized) {
-    if (!USER_CODE_CHARS.includes(char)) return false;
-  }
-  return true;
-}
-
-/**
- * Normalizes a user code (removes hyphens, converts to uppercase)
- * @param code The user code to normalize
- * @returns Normalized user code
- */
-export function normalizeUserCode(code: string): string {
-  return code.replace(/-/g, '').toUpperCase();
-}
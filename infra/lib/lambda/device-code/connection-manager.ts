@@ -0,0 +1,177 @@
+import {
+  DynamoDBClient,
+  PutItemCommand,
+  DeleteItemCommand,
+  QueryCommand,
+} from '@aws-sdk/client-dynamodb';
+import {
+  ApiGatewayManagementApiClient,
+  PostToConnectionCommand,
+  GoneException,
+} from '@aws-sdk/client-apigatewaymanagementapi';
+import { DevicePushMessage } from '@thesafezone/idp-common';
+
+/**
+ * Device Push Connections
+ *
+ * Devices may open a WebSocket (push_uri in the /device/code response) to be
+ * told as soon as the user approves or denies them, instead of waiting for
+ * their next poll. Connections are keyed by device code; the status stream
+ * handler (handlers/device-status-stream.ts) notifies them.
+ *
+ * Pushes are best effort - polling /device/token keeps working and remains
+ * the only way to collect tokens.
+ */
+
+const DEVICE_CODE_INDEX = 'deviceCode-index';
+
+/**
+ * An open WebSocket connection waiting on a device code
+ */
+export interface DeviceConnection {
+  connectionId: string;         // API Gateway WebSocket connection ID
+  deviceCode: string;
+  ttl: number;                  // Dropped with the device code record
+}
+
+export interface ConnectionManager {
+  /** Registers an open connection */
+  add(connection: DeviceConnection): Promise<void>;
+
+  /** Forgets a closed connection */
+  remove(connectionId: string): Promise<void>;
+
+  /**
+   * Sends a message to every connection waiting on a device code
+   * Connections that turn out to be closed are removed.
+   * @returns the number of connections reached
+   */
+  notify(deviceCode: string, message: DevicePushMessage): Promise<number>;
+}
+
+/**
+ * Creates a manager backed by the device connections DynamoDB table and the
+ * API Gateway management API of the WebSocket stage
+ *
+ * @param endpoint - https:// callback URL of the WebSocket stage
+ */
+export function createApiGatewayConnectionManager(
+  tableName: string,
+  endpoint: string,
+  client = new DynamoDBClient({}),
+  api = new ApiGatewayManagementApiClient({ endpoint })
+): ConnectionManager {
+  const manager: ConnectionManager = {
+    async add(connection) {
+      await client.send(new PutItemCommand({
+        TableName: tableName,
+        Item: {
+          connectionId: { S: connection.connectionId },
+          deviceCode: { S: connection.deviceCode },
+          ttl: { N: connection.ttl.toString() },
+        },
+      }));
+    },
+
+    async remove(connectionId) {
+      await client.send(new DeleteItemCommand({
+        TableName: tableName,
+        Key: {
+          connectionId: { S: connectionId },
+        },
+      }));
+    },
+
+    async notify(deviceCode, message) {
+      const result = await client.send(new QueryCommand({
+        TableName: tableName,
+        IndexName: DEVICE_CODE_INDEX,
+        KeyConditionExpression: 'deviceCode = :deviceCode',
+        ExpressionAttributeValues: {
+          ':deviceCode': { S: deviceCode },
+        },
+      }));
+
+      const connectionIds = (result.Items ?? []).map((item) => item.connectionId.S as string);
+      const data = Buffer.from(JSON.stringify(message));
+      let reached = 0;
+
+      for (const connectionId of connectionIds) {
+        try {
+          await api.send(new PostToConnectionCommand({ ConnectionId: connectionId, Data: data }));
+          reached++;
+        } catch (error) {
+          // The device hung up without a clean $disconnect
+          if (!(error instanceof GoneException)) throw error;
+          await manager.remove(connectionId);
+        }
+      }
+      return reached;
+    },
+  };
+
+  return manager;
+}
+
+/**
+ * Creates a manager that keeps connections in memory and hands messages to
+ * `send` - a stand-in for API Gateway in tests and local development
+ *
+ * @param send - Delivers a message; returns false if the connection is closed
+ */
+export function createInMemoryConnectionManager(
+  send: (connectionId: string, message: DevicePushMessage) => boolean | Promise<boolean> = (connectionId, message) => {
+    console.log(`Push to ${connectionId}: ${JSON.stringify(message)}`);
+    return true;
+  }
+): ConnectionManager {
+  const connections = new Map<string, DeviceConnection>();
+
+  const manager: ConnectionManager = {
+    async add(connection) {
+      connections.set(connection.connectionId, { ...connection });
+    },
+
+    async remove(connectionId) {
+      connections.delete(connectionId);
+    },
+
+    async notify(deviceCode, message) {
+      let reached = 0;
+      for (const connection of Array.from(connections.values())) {
+        if (connection.deviceCode !== deviceCode) continue;
+        if (await send(connection.connectionId, message)) {
+          reached++;
+        } else {
+          await manager.remove(connection.connectionId);
+        }
+      }
+      return reached;
+    },
+  };
+
+  return manager;
+}
+
+let manager: ConnectionManager | null = null;
+
+/**
+ * Returns the configured connection manager (DynamoDB table from
+ * DEVICE_CONNECTIONS_TABLE_NAME, WebSocket stage from DEVICE_PUSH_ENDPOINT)
+ */
+export function getConnectionManager(): ConnectionManager {
+  if (!manager) {
+    manager = createApiGatewayConnectionManager(
+      process.env.DEVICE_CONNECTIONS_TABLE_NAME || 'thesafezone-device-connections',
+      process.env.DEVICE_PUSH_ENDPOINT || ''
+    );
+  }
+  return manager;
+}
+
+/**
+ * Overrides the connection manager (e.g. the in-memory manager in tests)
+ */
+export function setConnectionManager(override: ConnectionManager | null): void {
+  manager = override;
+}
@@ -0,0 +1,69 @@
+import { APIGatewayProxyResult } from 'aws-lambda';
+import { getHeader } from './request-parser';
+import type { HttpEvent } from './router';
+
+/**
+ * CORS
+ *
+ * Browser callers (the Login UI) may only read responses if their origin is
+ * on the allowlist in CORS_ALLOWED_ORIGINS (comma-separated). The stack
+ * derives the list from the Login UI distribution and the trustedOrigins
+ * context, and configures the API Gateway preflight with the same list.
+ *
+ * Responses to other origins carry no Access-Control-Allow-Origin, so
+ * browsers block them; non-browser clients (headsets) are unaffected.
+ */
+
+type HttpHandler = (event: HttpEvent) => Promise<APIGatewayProxyResult>;
+
+/**
+ * Adds CORS headers for the request's origin to every response of a handler
+ *
+ * @param allowedOrigins - Origins browsers may call the API from, e.g. https://login.example.com
+ */
+export function withCors(handler: HttpHandler, allowedOrigins: string[] = getAllowedOrigins()): HttpHandler {
+  return async (event) => {
+    const result = await handler(event);
+    return {
+      ...result,
+      headers: {
+        ...result.headers,
+        ...corsHeaders(getHeader(event, 'Origin'), allowedOrigins),
+      },
+    };
+  };
+}
+
+/**
+ * Returns the CORS response headers for a request origin
+ * Vary is always set, so caches keep responses for different origins apart.
+ */
+export function corsHeaders(origin: string | undefined, allowedOrigins: string[]): Record<string, string> {
+  if (!origin || !allowedOrigins.map(normalizeOrigin).includes(normalizeOrigin(origin))) {
+    return { Vary: 'Origin' };
+  }
+
+  return {
+    'Access-Control-Allow-Origin': origin,
+    // Rate-limited lookups tell the Login UI when to try again
+    'Access-Control-Expose-Headers': 'Retry-After',
+    Vary: 'Origin',
+  };
+}
+
+/**
+ * Returns the allowed origins from CORS_ALLOWED_ORIGINS (comma-separated)
+ */
+export function getAllowedOrigins(): string[] {
+  return (process.env.CORS_ALLOWED_ORIGINS || '')
+    .split(',')
+    .map(normalizeOrigin)
+    .filter((origin) => origin !== '');
+}
+
+/**
+ * Origins are compared without a trailing slash and case-insensitively
+ */
+function normalizeOrigin(origin: string): string {
+  return origin.trim().replace(/\/+$/, '').toLowerCase();
+}
@@ -0,0 +1,164 @@
+import * as crypto from 'crypto';
+import { KMSClient, GenerateMacCommand, VerifyMacCommand } from '@aws-sdk/client-kms';
+
+/**
+ * Device Authorization Assertions
+ *
+ * The answer to the Cognito custom-auth challenge used to mint tokens for a
+ * device client. The Device Code Lambda signs a short-lived assertion for the
+ * authorized user with a KMS HMAC key; the VerifyAuthChallengeResponse trigger
+ * checks it. Only the Device Code Lambda may generate MACs with the key, so
+ * nobody else can complete the custom-auth flow, even though the device client
+ * is public. The assertion also carries the scope the user granted, which the
+ * pre token generation trigger puts on the minted access token.
+ *
+ * Format: base64url(JSON claims) + '.' + base64url(HMAC-SHA-256)
+ */
+
+const MAC_ALGORITHM = 'HMAC_SHA_256';
+const ASSERTION_LIFETIME_SECONDS = 60;
+
+/**
+ * Claims carried by an assertion
+ */
+export interface DeviceAssertionClaims {
+  username: string;             // Cognito username of the authorizing user
+  deviceCode: string;           // Device code the tokens are minted for
+  scope: string;                // Space-separated scopes granted to the device
+  iat: number;                  // Unix timestamp when the assertion was signed
+}
+
+/**
+ * Source of MACs for assertions
+ */
+export interface AssertionMacProvider {
+  generateMac(message: Buffer): Promise<Buffer>;
+  verifyMac(message: Buffer, mac: Buffer): Promise<boolean>;
+}
+
+/**
+ * Creates a provider backed by a KMS HMAC key
+ */
+export function createKmsMacProvider(keyId: string, kms = new KMSClient({})): AssertionMacProvider {
+  return {
+    async generateMac(message) {
+      const result = await kms.send(new GenerateMacCommand({
+        KeyId: keyId,
+        MacAlgorithm: MAC_ALGORITHM,
+        Message: message,
+      }));
+      if (!result.Mac) {
+        throw new Error('KMS GenerateMac returned no MAC');
+      }
+      return Buffer.from(result.Mac);
+    },
+
+    async verifyMac(message, mac) {
+      try {
+        const result = await kms.send(new VerifyMacCommand({
+          KeyId: keyId,
+          MacAlgorithm: MAC_ALGORITHM,
+          Message: message,
+          Mac: mac,
+        }));
+        return result.MacValid === true;
+      } catch (error) {
+        // KMS reports a mismatching MAC as KMSInvalidMacException
+        if ((error as Error).name === 'KMSInvalidMacException') return false;
+        throw error;
+      }
+    },
+  };
+}
+
+/**
+ * Creates a provider that uses a local HMAC key
+ * For tests and local development only - never use in a deployed Lambda.
+ */
+export function createLocalMacProvider(key: Buffer): AssertionMacProvider {
+  const mac = (message: Buffer) => crypto.createHmac('sha256', key).update(message).digest();
+  return {
+    async generateMac(message) {
+      return mac(message);
+    },
+    async verifyMac(message, candidate) {
+      const expected = mac(message);
+      return expected.length === candidate.length && crypto.timingSafeEqual(expected, candidate);
+    },
+  };
+}
+
+let provider: AssertionMacProvider | null = null;
+
+/**
+ * Returns the configured MAC provider (KMS key from DEVICE_AUTH_KEY_ID)
+ */
+export function getAssertionMacProvider(): AssertionMacProvider {
+  if (!provider) {
+    const keyId = process.env.DEVICE_AUTH_KEY_ID;
+    if (!keyId) {
+      throw new Error('Device assertions not configured - missing DEVICE_AUTH_KEY_ID');
+    }
+    provider = createKmsMacProvider(keyId);
+  }
+  return provider;
+}
+
+/**
+ * Overrides the MAC provider (e.g. a local key in tests)
+ */
+export function setAssertionMacProvider(override: AssertionMacProvider | null): void {
+  provider = override;
+}
+
+/**
+ * Signs an assertion that `username` authorized `deviceCode` with `scope`
+ */
+export async function createDeviceAssertion(
+  username: string,
+  deviceCode: string,
+  scope: string,
+  now: number = Math.floor(Date.now() / 1000),
+  macProvider: AssertionMacProvider = getAssertionMacProvider()
+): Promise<string> {
+  const claims: DeviceAssertionClaims = { username, deviceCode, scope, iat: now };
+  const payload = Buffer.from(JSON.stringify(claims), 'utf-8');
+  const mac = await macProvider.generateMac(payload);
+  return `${payload.toString('base64url')}.${mac.toString('base64url')}`;
+}
+
+/**
+ * Verifies an assertion for `username`
+ * @returns the claims if the MAC is valid, the username matches and the
+ *          assertion is fresh, otherwise null
+ */
+export async function verifyDeviceAssertion(
+  assertion: string,
+  username: string,
+  now: number = Math.floor(Date.now() / 1000),
+  macProvider: AssertionMacProvider = getAssertionMacProvider()
+): Promise<DeviceAssertionClaims | null> {
+  const parts = assertion.split('.');
+  if (parts.length !== 2) return null;
+
+  const payload = Buffer.from(parts[0], 'base64url');
+  const mac = Buffer.from(parts[1], 'base64url');
+  if (payload.length === 0 || mac.length === 0) return null;
+
+  if (!(await macProvider.verifyMac(payload, mac))) return null;
+
+  let claims: DeviceAssertionClaims;
+  try {
+    claims = JSON.parse(payload.toString('utf-8'));
+  } catch {
+    return null;
+  }
+
+  if (claims.username !== username) return null;
+  if (typeof claims.scope !== 'string') return null;
+  if (typeof claims.iat !== 'number' || now - claims.iat > ASSERTION_LIFETIME_SECONDS || claims.iat > now + 5) {
+    return null;
+  }
+
+  return claims;
+}
@@ -0,0 +1,55 @@
+import { OAuthErrorCode } from '@thesafezone/idp-common';
+import { DeviceCodeRecord, DeviceCodeStatus } from './types';
+
+/**
+ * Device Code Lifecycle
+ *
+ *   pending ──> authorized ──> consumed
+ *      │  └───> denied ──────> consumed
+ *      └──────> expired ─────> consumed
+ *   (authorized codes whose tokens were never collected also expire)
+ *
+ * Every transition is a conditional write on the current status (see
+ * DeviceCodeStore.transition), so of two concurrent requests only one can
+ * move a record out of a state - e.g. only one /device/authorize call can
+ * store tokens, and only one token poll can collect them.
+ */
+
+const TRANSITIONS: Record<DeviceCodeStatus, readonly DeviceCodeStatus[]> = {
+  pending: ['authorized', 'denied', 'expired'],
+  authorized: ['consumed', 'expired'],
+  denied: ['consumed'],
+  expired: ['consumed'],
+  consumed: [],
+};
+
+/**
+ * Result of a conditional status transition
+ * A conflict carries the record as it was when the transition lost the race.
+ */
+export type TransitionResult =
+  | { ok: true; record: DeviceCodeRecord }
+  | { ok: false; reason: 'not_found' }
+  | { ok: false; reason: 'conflict'; record: DeviceCodeRecord };
+
+/**
+ * Whether the lifecycle allows moving from one status to another
+ */
+export function canTransition(from: DeviceCodeStatus, to: DeviceCodeStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+/**
+ * OAuth error for a user-facing request against a code that is no longer
+ * pending (already approved, denied, expired or collected)
+ */
+export function describeSettledCode(status: DeviceCodeStatus): { error: OAuthErrorCode; errorDescription: string } {
+  switch (status) {
+    case 'expired':
+      return { error: 'expired_token', errorDescription: 'User code has expired' };
+    case 'consumed':
+      return { error: 'invalid_grant', errorDescription: 'Device code has already been used' };
+    default:
+      return { error: 'invalid_grant', errorDescription: `Device code is already ${status}` };
+  }
+}
@@ -0,0 +1,76 @@
+import { DeviceCodeRecord, DeviceCodeStatus, EncryptedTokens } from './types';
+import { PollOutcome } from './polling';
+import { TransitionResult } from './device-code-state';
+import { createDynamoDbDeviceCodeStore } from './dynamodb-client';
+
+/**
+ * Device Code Store
+ *
+ * Persistence for device code records. Handlers take a store as a parameter
+ * and default to the configured one, so the whole flow can run against the
+ * in-memory store (in-memory-store.ts) in tests and local development and
+ * against DynamoDB (dynamodb-client.ts) in Lambda.
+ *
+ * Implementations must treat records past their `ttl` as absent and apply
+ * the conditional writes below atomically.
+ */
+
+/**
+ * Fields written when a device code changes status
+ * Moving to 'consumed' also drops the stored tokens.
+ */
+export interface DeviceCodeStatusUpdate {
+  status: DeviceCodeStatus;
+  userId?: string;                   // Cognito user sub of the approving/denying user
+  encryptedTokens?: EncryptedTokens; // Tokens for the device, already encrypted
+}
+
+export interface DeviceCodeStore {
+  /** Stores a new record; rejects if the device code already exists */
+  put(record: DeviceCodeRecord): Promise<void>;
+
+  /** Retrieves a record by device code */
+  get(deviceCode: string): Promise<DeviceCodeRecord | null>;
+
+  /** Retrieves a record by normalized user code */
+  getByUserCode(userCode: string): Promise<DeviceCodeRecord | null>;
+
+  /**
+   * Moves a record from status `from` to `update.status`, only if it is
+   * still in `from` (see device-code-state.ts)
+   * Throws if the lifecycle does not allow the transition.
+   */
+  transition(deviceCode: string, from: DeviceCodeStatus, update: DeviceCodeStatusUpdate): Promise<TransitionResult>;
+
+  /**
+   * Records a token poll, enforcing the polling interval (see polling.ts)
+   * @returns the poll outcome, or null if the record no longer exists
+   */
+  recordPoll(deviceCode: string, interval: number, now: number): Promise<PollOutcome | null>;
+
+  /**
+   * Counts a rejected request against a record, expiring it once
+   * `maxFailures` is reached if it is still pending (see attempt-limiter.ts)
+   * @returns the new failure count, or null if the record no longer exists
+   */
+  recordFailedAttempt(deviceCode: string, maxFailures: number): Promise<number | null>;
+}
+
+let store: DeviceCodeStore | null = null;
+
+/**
+ * Returns the configured store (DynamoDB table from DEVICE_CODE_TABLE_NAME)
+ */
+export function getDeviceCodeStore(): DeviceCodeStore {
+  if (!store) {
+    store = createDynamoDbDeviceCodeStore(process.env.DEVICE_CODE_TABLE_NAME || 'thesafezone-device-codes');
+  }
+  return store;
+}
+
+/**
+ * Overrides the store (e.g. the in-memory store for local development)
+ */
+export function setDeviceCodeStore(override: DeviceCodeStore | null): void {
+  store = override;
+}
@@ -0,0 +1,171 @@
+import { DEFAULT_USER_CODE_FORMAT, UserCodeFormat } from '@thesafezone/idp-common';
+import { getDeviceClient, listDeviceClients } from './client-registry';
+
+/**
+ * Device Flow Configuration
+ *
+ * Code lifetime, polling interval and user code format are resolved per
+ * client: a client's `deviceFlow` settings in DEVICE_CLIENTS override the
+ * stack-level defaults in DEVICE_FLOW_DEFAULTS, which override the built-in
+ * defaults below. E.g. a kiosk with a gamepad keypad can use numeric codes
+ * while headsets keep alphanumeric ones.
+ */
+
+/**
+ * Resolved device flow settings for a client
+ */
+export interface DeviceFlowConfig {
+  expiresIn: number;            // Lifetime of device and user codes in seconds
+  interval: number;             // Initial polling interval in seconds
+  userCode: UserCodeFormat;     // Format of generated user codes
+}
+
+/**
+ * Overrides for some of the settings, as configured for the stack or a client
+ * A user code format is always given as a whole.
+ */
+export type DeviceFlowSettings = Partial<DeviceFlowConfig>;
+
+export const DEFAULT_DEVICE_FLOW_CONFIG: DeviceFlowConfig = {
+  expiresIn: 600,               // 10 minutes per RFC 8628
+  interval: 5,
+  userCode: DEFAULT_USER_CODE_FORMAT,
+};
+
+// Bounds keep codes usable and hard to guess (RFC 8628 Section 5.1 and 6.1)
+const EXPIRES_IN_RANGE = { min: 60, max: 1800 };
+const INTERVAL_RANGE = { min: 1, max: 60 };
+const USER_CODE_LENGTH_RANGE = { min: 6, max: 12 };
+const MIN_USER_CODE_CHARS = 10;
+
+/**
+ * Resolved device flow settings of the stack and every registered client
+ */
+export interface LoadedDeviceFlowConfig {
+  defaults: DeviceFlowConfig;
+  clients: Map<string, DeviceFlowConfig>;
+  userCodeFormats: UserCodeFormat[];
+}
+
+let loaded: LoadedDeviceFlowConfig | null = null;
+
+/**
+ * Checks settings against the allowed bounds
+ * @returns a description of each problem, empty if the settings are valid
+ */
+export function validateDeviceFlowSettings(settings: DeviceFlowSettings): string[] {
+  const errors: string[] = [];
+
+  if (settings.expiresIn !== undefined && !isIntegerInRange(settings.expiresIn, EXPIRES_IN_RANGE)) {
+    errors.push(`expiresIn must be an integer from ${EXPIRES_IN_RANGE.min} to ${EXPIRES_IN_RANGE.max}`);
+  }
+
+  if (settings.interval !== undefined && !isIntegerInRange(settings.interval, INTERVAL_RANGE)) {
+    errors.push(`interval must be an integer from ${INTERVAL_RANGE.min} to ${INTERVAL_RANGE.max}`);
+  }
+
+  if (settings.userCode !== undefined) {
+    const { length, chars } = settings.userCode;
+    if (!isIntegerInRange(length, USER_CODE_LENGTH_RANGE)) {
+      errors.push(`userCode.length must be an integer from ${USER_CODE_LENGTH_RANGE.min} to ${USER_CODE_LENGTH_RANGE.max}`);
+    }
+    // Codes are normalized to uppercase without hyphens before they are compared
+    if (typeof chars !== 'string' || !/^[A-Z0-9]+$/.test(chars) || new Set(chars).size !== chars.length) {
+      errors.push('userCode.chars must be distinct uppercase letters and digits');
+    } else if (chars.length < MIN_USER_CODE_CHARS) {
+      errors.push(`userCode.chars must contain at least ${MIN_USER_CODE_CHARS} characters`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parses and validates the settings of the stack and all registered clients
+ * Done once per container, at cold start (see index.ts). The stack validates
+ * the same settings at synth, so invalid settings fail fast here rather than
+ * being logged on every request.
+ * @throws if DEVICE_FLOW_DEFAULTS or a client's deviceFlow settings are invalid
+ */
+export function loadDeviceFlowConfig(): LoadedDeviceFlowConfig {
+  if (loaded) return loaded;
+
+  const defaults = { ...DEFAULT_DEVICE_FLOW_CONFIG, ...parseSettings('DEVICE_FLOW_DEFAULTS', process.env.DEVICE_FLOW_DEFAULTS) };
+
+  const clients = new Map<string, DeviceFlowConfig>();
+  for (const clientId of listDeviceClients()) {
+    const settings = getDeviceClient(clientId)?.deviceFlow ?? {};
+    const errors = validateDeviceFlowSettings(settings);
+    if (errors.length > 0) {
+      throw new Error(`Invalid deviceFlow settings for client ${clientId}: ${errors.join('; ')}`);
+    }
+    clients.set(clientId, { ...defaults, ...settings });
+  }
+
+  loaded = { defaults, clients, userCodeFormats: distinctFormats([defaults, ...clients.values()]) };
+  return loaded;
+}
+
+/**
+ * Returns the stack-level defaults
+ */
+export function getDefaultDeviceFlowConfig(): DeviceFlowConfig {
+  return loadDeviceFlowConfig().defaults;
+}
+
+/**
+ * Resolves the device flow settings of a registered client
+ */
+export function resolveDeviceFlowConfig(clientId: string): DeviceFlowConfig {
+  const { defaults, clients } = loadDeviceFlowConfig();
+  return clients.get(clientId) ?? defaults;
+}
+
+/**
+ * Returns the distinct user code formats of all registered clients
+ * User-facing endpoints don't know the client until the code is looked up,
+ * so a code is well-formed if it matches any of these.
+ */
+export function getUserCodeFormats(): UserCodeFormat[] {
+  return loadDeviceFlowConfig().userCodeFormats;
+}
+
+/**
+ * Lists each user code format of the given configs once
+ */
+function distinctFormats(configs: DeviceFlowConfig[]): UserCodeFormat[] {
+  const seen = new Set<string>();
+  return configs.map((config) => config.userCode).filter((format) => {
+    const key = `${format.length}:${format.chars}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Parses and validates settings from a JSON environment variable
+ */
+function parseSettings(name: string, value: string | undefined): DeviceFlowSettings {
+  if (!value) return {};
+
+  let settings: DeviceFlowSettings;
+  try {
+    settings = JSON.parse(value);
+  } catch (error) {
+    throw new Error(`Invalid ${name} configuration: ${(error as Error).message}`);
+  }
+
+  const errors = validateDeviceFlowSettings(settings);
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${name} configuration: ${errors.join('; ')}`);
+  }
+  return settings;
+}
+
+/**
+ * Whether a value is an integer within the inclusive range
+ */
+function isIntegerInRange(value: unknown, range: { min: number; max: number }): boolean {
+  return Number.isInteger(value) && (value as number) >= range.min && (value as number) <= range.max;
+}
@@ -0,0 +1,73 @@
+import { RequestParams } from './request-parser';
+import { DeviceCodeRecord } from './types';
+
+/**
+ * Device Metadata
+ *
+ * Devices may describe themselves when requesting a code (device_name,
+ * device_model, app_version). The values are self-reported and unverified:
+ * they are shown to the user on the consent screen and kept on the record so
+ * support can tell which device was signed in, but never used for decisions.
+ */
+
+/**
+ * Self-reported device details, as stored on a DeviceCodeRecord
+ */
+export type DeviceMetadata = Pick<DeviceCodeRecord, 'deviceName' | 'deviceModel' | 'appVersion'>;
+
+/**
+ * Result of validating the device metadata of a request
+ */
+export type DeviceMetadataResult =
+  | { ok: true; metadata: DeviceMetadata }
+  | { ok: false; errorDescription: string };
+
+const METADATA_FIELDS: ReadonlyArray<{ param: string; field: keyof DeviceMetadata; maxLength: number }> = [
+  { param: 'device_name', field: 'deviceName', maxLength: 64 },
+  { param: 'device_model', field: 'deviceModel', maxLength: 64 },
+  { param: 'app_version', field: 'appVersion', maxLength: 32 },
+];
+
+// Printable characters only - no control, format or separator-line characters
+const PRINTABLE = /^[^\p{Cc}\p{Cf}\p{Zl}\p{Zp}]+$/u;
+
+/**
+ * Validates the optional device metadata parameters of a device code request
+ * Values are trimmed; empty values are treated as absent.
+ */
+export function parseDeviceMetadata(params: RequestParams): DeviceMetadataResult {
+  const metadata: DeviceMetadata = {};
+
+  for (const { param, field, maxLength } of METADATA_FIELDS) {
+    const raw = params[param];
+    if (raw === undefined) continue;
+
+    const value = raw.trim();
+    if (value === '') continue;
+
+    if ([...value].length > maxLength) {
+      return { ok: false, errorDescription: `${param} must be at most ${maxLength} characters` };
+    }
+
+    if (!PRINTABLE.test(value)) {
+      return { ok: false, errorDescription: `${param} contains invalid characters` };
+    }
+
+    metadata[field] = value;
+  }
+
+  return { ok: true, metadata };
+}
+
+/**
+ * Describes a device for logs, e.g. "Living room (Quest 3, app 1.4.0)"
+ */
+export function describeDevice(metadata: DeviceMetadata): string {
+  const details = [
+    metadata.deviceModel,
+    metadata.appVersion && `app ${metadata.appVersion}`,
+  ].filter(Boolean);
+
+  const name = metadata.deviceName || 'unnamed device';
+  return details.length > 0 ? `${name} (${details.join(', ')})` : name;
+}
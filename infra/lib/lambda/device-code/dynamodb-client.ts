@@ -1,22 +1,245 @@
-import { 
-  DynamoDBClient, 
-  PutItemCommand, 
-  GetItemCommand, 
+import {
+  DynamoDBClient,
+  PutItemCommand,
+  GetItemCommand,
   UpdateItemCommand,
-  DeleteItemCommand,
-  QueryCommand
+  QueryCommand,
+  ConditionalCheckFailedException,
+  AttributeValue
 } from '@aws-sdk/client-dynamodb';
-import { DeviceCodeRecord, DeviceCodeStatus } from './types';
+import { DeviceCodeRecord, DeviceCodeStatus, EncryptedTokens } from './types';
+import { POLL_TOLERANCE_SECONDS, PollOutcome, SLOW_DOWN_INCREMENT_SECONDS } from './polling';
+import { canTransition, TransitionResult } from './device-code-state';
+import type { DeviceCodeStore, DeviceCodeStatusUpdate } from './device-code-store';
 
-const client = new DynamoDBClient({});
-const TABLE_NAME = process.env.DEVICE_CODE_TABLE_NAME || 'thesafezone-device-codes';
 const USER_CODE_INDEX = 'userCode-index';
+const DEVICE_METADATA_FIELDS = ['deviceName', 'deviceModel', 'appVersion'] as const;
 
 /**
- * Stores a new device code record in DynamoDB
+ * Creates a store backed by the Device Code DynamoDB table
  */
-export async function storeDeviceCode(record: DeviceCodeRecord): Promise<void> {
-  const item: Record<string, any> = {
+export function createDynamoDbDeviceCodeStore(
+  tableName: string,
+  client = new DynamoDBClient({})
+): DeviceCodeStore {
+  const store: DeviceCodeStore = {
+    /**
+     * Stores a new device code record
+     */
+    async put(record: DeviceCodeRecord): Promise<void> {
+      await client.send(new PutItemCommand({
+        TableName: tableName,
+        Item: mapRecordToItem(record),
+        ConditionExpression: 'attribute_not_exists(deviceCode)',
+      }));
+    },
+
+    /**
+     * Retrieves a device code record by device code
+     * TTL deletion lags behind, so expired items are filtered out here.
+     */
+    async get(deviceCode: string): Promise<DeviceCodeRecord | null> {
+      const result = await client.send(new GetItemCommand({
+        TableName: tableName,
+        Key: {
+          deviceCode: { S: deviceCode },
+        },
+      }));
+
+      if (!result.Item) return null;
+      return liveRecord(mapItemToRecord(result.Item));
+    },
+
+    /**
+     * Retrieves a device code record by user code (using GSI)
+     *
+     * Expired items can stay in the index for up to about 48 hours after
+     * their TTL, and a new code may reuse their user code, so all items are
+     * read and expired ones filtered out. The newest live record wins.
+     */
+    async getByUserCode(userCode: string): Promise<DeviceCodeRecord | null> {
+      const result = await client.send(new QueryCommand({
+        TableName: tableName,
+        IndexName: USER_CODE_INDEX,
+        KeyConditionExpression: 'userCode = :userCode',
+        FilterExpression: '#ttl > :now',
+        ExpressionAttributeNames: { '#ttl': 'ttl' },
+        ExpressionAttributeValues: {
+          ':userCode': { S: userCode },
+          ':now': { N: Math.floor(Date.now() / 1000).toString() },
+        },
+      }));
+
+      const records = (result.Items ?? []).map(mapItemToRecord);
+      return records.reduce<DeviceCodeRecord | null>(
+        (newest, record) => (newest && newest.createdAt >= record.createdAt ? newest : record),
+        null
+      );
+    },
+
+    /**
+     * Moves a device code record to a new status, writing its user and tokens
+     *
+     * The write is conditional on the record still being in `from`; if the
+     * condition fails, DynamoDB returns the current item so callers can
+     * report what the record was moved to instead.
+     */
+    async transition(
+      deviceCode: string,
+      from: DeviceCodeStatus,
+      update: DeviceCodeStatusUpdate
+    ): Promise<TransitionResult> {
+      if (!canTransition(from, update.status)) {
+        throw new Error(`Invalid device code transition: ${from} -> ${update.status}`);
+      }
+
+      const updateExpressions: string[] = ['#status = :status'];
+      const expressionAttributeNames: Record<string, string> = { '#status': 'status' };
+      const expressionAttributeValues: Record<string, any> = {
+        ':status': { S: update.status },
+        ':from': { S: from },
+      };
+
+      if (update.userId) {
+        updateExpressions.push('userId = :userId');
+        expressionAttributeValues[':userId'] = { S: update.userId };
+      }
+
+      if (update.encryptedTokens) {
+        updateExpressions.push('encryptedTokens = :encryptedTokens');
+        expressionAttributeValues[':encryptedTokens'] = mapEncryptedTokensToItem(update.encryptedTokens);
+      }
+
+      // Consumed records no longer need the tokens
+      const removeTokens = update.status === 'consumed' ? ' REMOVE encryptedTokens' : '';
+
+      try {
+        const result = await client.send(new UpdateItemCommand({
+          TableName: tableName,
+          Key: {
+            deviceCode: { S: deviceCode },
+          },
+          UpdateExpression: `SET ${updateExpressions.join(', ')}${removeTokens}`,
+          ConditionExpression: 'attribute_exists(deviceCode) AND #status = :from',
+          ExpressionAttributeNames: expressionAttributeNames,
+          ExpressionAttributeValues: expressionAttributeValues,
+          ReturnValues: 'ALL_NEW',
+          ReturnValuesOnConditionCheckFailure: 'ALL_OLD',
+        }));
+        return { ok: true, record: mapItemToRecord(result.Attributes!) };
+      } catch (error) {
+        if (!(error instanceof ConditionalCheckFailedException)) throw error;
+        return error.Item
+          ? { ok: false, reason: 'conflict', record: mapItemToRecord(error.Item) }
+          : { ok: false, reason: 'not_found' };
+      }
+    },
+
+    /**
+     * Records a token poll, enforcing the polling interval (RFC 8628 Section 3.5)
+     *
+     * The poll is accepted with a conditional write that only succeeds if the
+     * previous poll was at least `interval` seconds ago. If the condition fails
+     * the client polled too fast: the interval is raised by 5 seconds and
+     * slowDown is returned. Mirrors evaluatePoll in polling.ts.
+     */
+    async recordPoll(deviceCode: string, interval: number, now: number): Promise<PollOutcome | null> {
+      try {
+        await client.send(new UpdateItemCommand({
+          TableName: tableName,
+          Key: {
+            deviceCode: { S: deviceCode },
+          },
+          UpdateExpression: 'SET lastPolledAt = :now',
+          ConditionExpression: 'attribute_exists(deviceCode) AND #interval = :interval AND ' +
+            '(attribute_not_exists(lastPolledAt) OR lastPolledAt <= :earliest)',
+          ExpressionAttributeNames: { '#interval': 'interval' },
+          ExpressionAttributeValues: {
+            ':now': { N: now.toString() },
+            ':interval': { N: interval.toString() },
+            ':earliest': { N: (now - interval + POLL_TOLERANCE_SECONDS).toString() },
+          },
+        }));
+        return { slowDown: false, interval, lastPolledAt: now };
+      } catch (error) {
+        if (!(error instanceof ConditionalCheckFailedException)) throw error;
+      }
+
+      // Polled too fast (or the interval was raised concurrently) - slow down
+      try {
+        const result = await client.send(new UpdateItemCommand({
+          TableName: tableName,
+          Key: {
+            deviceCode: { S: deviceCode },
+          },
+          UpdateExpression: 'SET #interval = #interval + :increment, lastPolledAt = :now',
+          ConditionExpression: 'attribute_exists(deviceCode)',
+          ExpressionAttributeNames: { '#interval': 'interval' },
+          ExpressionAttributeValues: {
+            ':increment': { N: SLOW_DOWN_INCREMENT_SECONDS.toString() },
+            ':now': { N: now.toString() },
+          },
+          ReturnValues: 'UPDATED_NEW',
+        }));
+        const newInterval = result.Attributes?.interval?.N;
+        return {
+          slowDown: true,
+          interval: newInterval ? parseInt(newInterval, 10) : interval + SLOW_DOWN_INCREMENT_SECONDS,
+          lastPolledAt: now,
+        };
+      } catch (error) {
+        if (error instanceof ConditionalCheckFailedException) return null;
+        throw error;
+      }
+    },
+
+    /**
+     * Counts a rejected request against a device code record
+     * The code is marked expired once maxFailures is reached, so it can no
+     * longer be approved and the device's next poll gets expired_token.
+     */
+    async recordFailedAttempt(deviceCode: string, maxFailures: number): Promise<number | null> {
+      let failedAttempts: number;
+      try {
+        const result = await client.send(new UpdateItemCommand({
+          TableName: tableName,
+          Key: {
+            deviceCode: { S: deviceCode },
+          },
+          UpdateExpression: 'ADD failedAttempts :one',
+          ConditionExpression: 'attribute_exists(deviceCode)',
+          ExpressionAttributeValues: { ':one': { N: '1' } },
+          ReturnValues: 'UPDATED_NEW',
+        }));
+        failedAttempts = parseInt(result.Attributes?.failedAttempts?.N ?? '1', 10);
+      } catch (error) {
+        if (error instanceof ConditionalCheckFailedException) return null;
+        throw error;
+      }
+
+      if (failedAttempts >= maxFailures) {
+        // Settled codes keep their status - only pending codes can be invalidated
+        await store.transition(deviceCode, 'pending', { status: 'expired' });
+      }
+      return failedAttempts;
+    },
+  };
+
+  return store;
+}
+
+/**
+ * Hides records that are past their TTL but not yet deleted by DynamoDB
+ */
+function liveRecord(record: DeviceCodeRecord): DeviceCodeRecord | null {
+  return record.ttl <= Math.floor(Date.now() / 1000) ? null : record;
+}
+
+/**
+ * Maps a DeviceCodeRecord to a DynamoDB item
+ */
+function mapRecordToItem(record: DeviceCodeRecord): Record<string, AttributeValue> {
+  const item: Record<string, AttributeValue> = {
     deviceCode: { S: record.deviceCode },
     userCode: { S: record.userCode },
     clientId: { S: record.clientId },
@@ -32,107 +255,26 @@ export async function storeDeviceCode(record: DeviceCodeRecord): Promise<void> {
     item.userId = { S: record.userId };
   }
 
-  if (record.tokens) {
-    item.tokens = {
-      M: {
-        accessToken: { S: record.tokens.accessToken },
-        idToken: { S: record.tokens.idToken },
-        refreshToken: { S: record.tokens.refreshToken },
-      },
-    };
+  if (record.lastPolledAt !== undefined) {
+    item.lastPolledAt = { N: record.lastPolledAt.toString() };
   }
 
-  await client.send(new PutItemCommand({
-    TableName: TABLE_NAME,
-    Item: item,
-    ConditionExpression: 'attribute_not_exists(deviceCode)',
-  }));
-}
-
-/**
- * Retrieves a device code record by device code
- */
-export async function getDeviceCodeByDeviceCode(deviceCode: string): Promise<DeviceCodeRecord | null> {
-  const result = await client.send(new GetItemCommand({
-    TableName: TABLE_NAME,
-    Key: {
-      deviceCode: { S: deviceCode },
-    },
-  }));
-
-  if (!result.Item) return null;
-  return mapItemToRecord(result.Item);
-}
-
-
-/**
- * Retrieves a device code record by user code (using GSI)
- */
-export async function getDeviceCodeByUserCode(userCode: string): Promise<DeviceCodeRecord | null> {
-  const result = await client.send(new QueryCommand({
-    TableName: TABLE_NAME,
-    IndexName: USER_CODE_INDEX,
-    KeyConditionExpression: 'userCode = :userCode',
-    ExpressionAttributeValues: {
-      ':userCode': { S: userCode },
-    },
-    Limit: 1,
-  }));
-
-  if (!result.Items || result.Items.length === 0) return null;
-  return mapItemToRecord(result.Items[0]);
-}
-
-/**
- * Updates the status and tokens of a device code record
- */
-export async function updateDeviceCodeStatus(
-  deviceCode: string,
-  status: DeviceCodeStatus,
-  userId?: string,
-  tokens?: { accessToken: string; idToken: string; refreshToken: string }
-): Promise<void> {
-  const updateExpressions: string[] = ['#status = :status'];
-  const expressionAttributeNames: Record<string, string> = { '#status': 'status' };
-  const expressionAttributeValues: Record<string, any> = { ':status': { S: status } };
-
-  if (userId) {
-    updateExpressions.push('userId = :userId');
-    expressionAttributeValues[':userId'] = { S: userId };
+  if (record.failedAttempts !== undefined) {
+    item.failedAttempts = { N: record.failedAttempts.toString() };
   }
 
-  if (tokens) {
-    updateExpressions.push('tokens = :tokens');
-    expressionAttributeValues[':tokens'] = {
-      M: {
-        accessToken: { S: tokens.accessToken },
-        idToken: { S: tokens.idToken },
-        refreshToken: { S: tokens.refreshToken },
-      },
-    };
+  for (const field of DEVICE_METADATA_FIELDS) {
+    const value = record[field];
+    if (value) {
+      item[field] = { S: value };
+    }
   }
 
-  await client.send(new UpdateItemCommand({
-    TableName: TABLE_NAME,
-    Key: {
-      deviceCode: { S: deviceCode },
-    },
-    UpdateExpression: `SET ${updateExpressions.join(', ')}`,
-    ExpressionAttributeNames: expressionAttributeNames,
-    ExpressionAttributeValues: expressionAttributeValues,
-  }));
-}
+  if (record.encryptedTokens) {
+    item.encryptedTokens = mapEncryptedTokensToItem(record.encryptedTokens);
+  }
 
-/**
- * Deletes a device code record
- */
-export async function deleteDeviceCode(deviceCode: string): Promise<void> {
-  await client.send(new DeleteItemCommand({
-    TableName: TABLE_NAME,
-    Key: {
-      deviceCode: { S: deviceCode },
-    },
-  }));
+  return item;
 }
 
 /**
@@ -155,13 +297,50 @@ function mapItemToRecord(item: Record<string, any>): DeviceCodeRecord {
     record.userId = item.userId.S;
   }
 
-  if (item.tokens) {
-    record.tokens = {
-      accessToken: item.tokens.M.accessToken.S,
-      idToken: item.tokens.M.idToken.S,
-      refreshToken: item.tokens.M.refreshToken.S,
-    };
+  if (item.lastPolledAt) {
+    record.lastPolledAt = parseInt(item.lastPolledAt.N, 10);
+  }
+
+  if (item.failedAttempts) {
+    record.failedAttempts = parseInt(item.failedAttempts.N, 10);
+  }
+
+  for (const field of DEVICE_METADATA_FIELDS) {
+    if (item[field]) {
+      record[field] = item[field].S;
+    }
+  }
+
+  if (item.encryptedTokens) {
+    record.encryptedTokens = mapItemToEncryptedTokens(item.encryptedTokens);
   }
 
   return record;
 }
+
+/**
+ * Maps encrypted tokens to a DynamoDB map attribute
+ */
+export function mapEncryptedTokensToItem(tokens: EncryptedTokens): AttributeValue {
+  return {
+    M: {
+      encryptedKey: { B: tokens.encryptedKey },
+      iv: { B: tokens.iv },
+      ciphertext: { B: tokens.ciphertext },
+      authTag: { B: tokens.authTag },
+    },
+  };
+}
+
+/**
+ * Maps a DynamoDB map attribute to encrypted tokens
+ */
+export function mapItemToEncryptedTokens(attribute: AttributeValue): EncryptedTokens {
+  const tokens = attribute.M!;
+  return {
+    encryptedKey: Buffer.from(tokens.encryptedKey.B!),
+    iv: Buffer.from(tokens.iv.B!),
+    ciphertext: Buffer.from(tokens.ciphertext.B!),
+    authTag: Buffer.from(tokens.authTag.B!),
+  };
+}
@@ -1,128 +1,88 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
-import { CognitoJwtVerifier } from 'aws-jwt-verify';
-import { getDeviceCodeByUserCode, updateDeviceCodeStatus } from '../dynamodb-client';
-import { isValidUserCode, normalizeUserCode } from '../code-generator';
-
-/**
- * Request body for POST /device/authorize
- */
-interface DeviceAuthorizeRequest {
-  user_code: string;
-  access_token: string;
-  id_token: string;
-  refresh_token: string;
-}
-
-// Cognito configuration from environment
-const USER_POOL_ID = process.env.USER_POOL_ID || '';
-const USER_POOL_CLIENT_ID = process.env.USER_POOL_CLIENT_ID || '';
-
-// Create JWT verifier for access tokens (lazy initialization)
-let verifier: ReturnType<typeof CognitoJwtVerifier.create> | null = null;
-
-function getVerifier() {
-  if (!verifier && USER_POOL_ID && USER_POOL_CLIENT_ID) {
-    verifier = CognitoJwtVerifier.create({
-      userPoolId: USER_POOL_ID,
-      tokenUse: 'access',
-      clientId: USER_POOL_CLIENT_ID,
-    });
-  }
-  return verifier;
-}
+import { DeviceCodeStore, getDeviceCodeStore } from '../device-code-store';
+import { DeviceDecisionRequest, DeviceDecisionResponse, isValidUserCode, normalizeUserCode, OAuthErrorCode } from '@thesafezone/idp-common';
+import { getUserCodeFormats } from '../device-flow-config';
+import { parseRequestBody } from '../request-parser';
+import { AttemptStore, getAttemptStore, authenticateCaller } from '../attempt-limiter';
+import { describeSettledCode } from '../device-code-state';
+import { describeDevice } from '../device-metadata';
+import { getTokenMinter } from '../token-minting';
+import { encryptTokens } from '../token-encryption';
 
 /**
  * POST /device/authorize handler
  * 
  * Called by the Login UI after user authenticates on secondary device.
- * Associates the user's tokens with the device code.
+ * Mints tokens for the device's own client on behalf of the user; the Login
+ * UI's tokens never leave the browser.
  * 
  * Requirements: 9.3, 9.4
  * - Validate user authentication via access token
- * - Store tokens in DynamoDB record
+ * - Limit failed user code attempts per caller (429 with Retry-After)
+ * - Mint device client tokens via Cognito custom auth
+ * - Store tokens, envelope-encrypted, in the device code record
  * - Update status to authorized
  */
 export async function handleDeviceAuthorizeRequest(
-  event: APIGatewayProxyEvent
+  event: APIGatewayProxyEvent,
+  store: DeviceCodeStore = getDeviceCodeStore(),
+  attempts: AttemptStore = getAttemptStore()
 ): Promise<APIGatewayProxyResult> {
   try {
-    // Parse and validate request body
-    if (!event.body) {
-      return errorResponse(400, 'invalid_request', 'Request body is required');
+    // Parse and validate request body (JSON or form-urlencoded)
+    const parsed = parseRequestBody(event);
+    if (!parsed.ok) {
+      return errorResponse(400, 'invalid_request', parsed.errorDescription);
     }
 
-    let request: DeviceAuthorizeRequest;
-    try {
-      request = JSON.parse(event.body);
-    } catch {
-      return errorResponse(400, 'invalid_request', 'Invalid JSON in request body');
-    }
+    const request: Partial<DeviceDecisionRequest> = parsed.params;
 
     // Validate user_code
-    if (!request.user_code || !isValidUserCode(request.user_code)) {
+    if (!request.user_code || !isValidUserCode(request.user_code, getUserCodeFormats())) {
       return errorResponse(400, 'invalid_request', 'Invalid user_code');
     }
 
-    // Validate tokens are provided
+    // Validate access token is provided
     if (!request.access_token) {
       return errorResponse(400, 'invalid_request', 'access_token is required');
     }
-    if (!request.id_token) {
-      return errorResponse(400, 'invalid_request', 'id_token is required');
-    }
-    if (!request.refresh_token) {
-      return errorResponse(400, 'invalid_request', 'refresh_token is required');
-    }
 
-    // Verify the access token with Cognito
-    const jwtVerifier = getVerifier();
-    if (!jwtVerifier) {
-      console.error('JWT verifier not configured - missing USER_POOL_ID or USER_POOL_CLIENT_ID');
-      return errorResponse(500, 'server_error', 'Server configuration error');
+    // Verify the access token and look up the code, limiting failed attempts
+    const caller = await authenticateCaller(
+      event, normalizeUserCode(request.user_code), request.access_token, store, attempts);
+    if (!caller.ok) {
+      return caller.response;
     }
-
-    let userId: string;
-    try {
-      const payload = await jwtVerifier.verify(request.access_token);
-      userId = payload.sub;
-    } catch (error) {
-      console.error('Token verification failed:', error);
-      return errorResponse(401, 'invalid_token', 'Access token is invalid or expired');
+    const { userId, username, record } = caller;
+    if (!username) {
+      return errorResponse(401, 'invalid_token', 'Access token has no username claim');
     }
 
-    // Normalize user code (remove hyphens, uppercase)
-    const normalizedUserCode = normalizeUserCode(request.user_code);
-
-    // Look up device code record by user code
-    const record = await getDeviceCodeByUserCode(normalizedUserCode);
+    // Mint tokens for the device client (correct client_id/aud, lifetimes and scope)
+    const tokens = await getTokenMinter().mint(record.clientId, username, record.deviceCode, record.scope);
 
-    if (!record) {
-      return errorResponse(400, 'invalid_grant', 'User code not found');
-    }
-
-    // Check if expired
-    const now = Math.floor(Date.now() / 1000);
-    if (now > record.expiresAt) {
-      return errorResponse(400, 'expired_token', 'User code has expired');
+    // Store the encrypted tokens - only if the code is still pending
+    const result = await store.transition(record.deviceCode, 'pending', {
+      status: 'authorized',
+      userId,
+      encryptedTokens: await encryptTokens(tokens, record.deviceCode),
+    });
+    if (!result.ok) {
+      // Lost the race to a concurrent approval, denial or expiry
+      if (result.reason === 'not_found') {
+        return errorResponse(400, 'invalid_grant', 'User code not found');
+      }
+      const settled = describeSettledCode(result.record.status);
+      return errorResponse(400, settled.error, settled.errorDescription);
     }
 
-    // Check if already authorized or denied
-    if (record.status !== 'pending') {
-      return errorResponse(400, 'invalid_grant', 
-        `Device code is already ${record.status}`);
-    }
+    // Lets support answer "why is this device signed in?"
+    console.log(`Device authorized for user ${userId}: ${describeDevice(result.record)} via ${record.clientId}`);
 
-    // Update the record with tokens and authorized status
-    await updateDeviceCodeStatus(
-      record.deviceCode,
-      'authorized',
-      userId,
-      {
-        accessToken: request.access_token,
-        idToken: request.id_token,
-        refreshToken: request.refresh_token,
-      }
-    );
+    const response: DeviceDecisionResponse = {
+      success: true,
+      message: 'Device authorized successfully',
+    };
 
     return {
       statusCode: 200,
@@ -130,10 +90,7 @@ export async function handleDeviceAuthorizeRequest(
         'Content-Type': 'application/json',
         'Cache-Control': 'no-store',
       },
-      body: JSON.stringify({
-        success: true,
-        message: 'Device authorized successfully',
-      }),
+      body: JSON.stringify(response),
     };
   } catch (error) {
     console.error('Error in device authorize request:', error);
@@ -146,14 +103,16 @@ export async function handleDeviceAuthorizeRequest(
  */
 function errorResponse(
   statusCode: number,
-  error: string,
-  errorDescription: string
+  error: OAuthErrorCode,
+  errorDescription: string,
+  headers: Record<string, string> = {}
 ): APIGatewayProxyResult {
   return {
     statusCode,
     headers: {
       'Content-Type': 'application/json',
       'Cache-Control': 'no-store',
+      ...headers,
     },
     body: JSON.stringify({
       error,
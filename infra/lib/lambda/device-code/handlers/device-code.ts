@@ -1,11 +1,16 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
-import { generateDeviceCode, generateUserCode, normalizeUserCode } from '../code-generator';
-import { storeDeviceCode } from '../dynamodb-client';
-import { DeviceCodeRequest, DeviceCodeResponse, DeviceCodeRecord } from '../types';
+import { DeviceCodeRequest, DeviceCodeResponse, normalizeUserCode, OAuthErrorCode, UserCodeFormat } from '@thesafezone/idp-common';
+import { generateDeviceCode, generateUserCode } from '../code-generator';
+import { DeviceCodeStore, getDeviceCodeStore } from '../device-code-store';
+import { parseRequestBody, resolveClientId, parseBasicAuth } from '../request-parser';
+import { getDeviceClient, resolveScope } from '../client-registry';
+import { resolveDeviceFlowConfig } from '../device-flow-config';
+import { parseDeviceMetadata } from '../device-metadata';
+import { parseQrCodeParam, renderVerificationQrCode } from '../qr-code';
+import { DeviceCodeRecord } from '../types';
 
-// Configuration
-const DEVICE_CODE_EXPIRATION_SECONDS = 600; // 10 minutes per RFC 8628
-const POLLING_INTERVAL_SECONDS = 5;
+// Configuration - code lifetime, interval and user code format are per client (device-flow-config.ts)
+const MAX_USER_CODE_ATTEMPTS = 5;
 const VERIFICATION_URI = process.env.VERIFICATION_URI || 'https://thesafezone.eu/activate';
 
 /**
@@ -14,40 +19,77 @@ const VERIFICATION_URI = process.env.VERIFICATION_URI || 'https://thesafezone.eu
  * Implements RFC 8628 Section 3.1 - Device Authorization Request
  * 
  * Requirements: 9.1, 9.2
- * - Generate unique device_code and user_code
- * - Store in DynamoDB with 10-minute expiration
+ * - Validate client_id and scope against the device client registry
+ * - Validate optional device_name, device_model and app_version
+ * - Render verification_uri_complete as a QR code if qr_code=true
+ * - Return push_uri for completion pushes if the WebSocket API is deployed
+ * - Generate unique device_code and user_code in the client's user code format
+ * - Store in DynamoDB with the client's expiration (10 minutes by default)
  * - Return verification_uri and polling interval
  */
 export async function handleDeviceCodeRequest(
-  event: APIGatewayProxyEvent
+  event: APIGatewayProxyEvent,
+  store: DeviceCodeStore = getDeviceCodeStore()
 ): Promise<APIGatewayProxyResult> {
   try {
-    // Parse and validate request body
-    if (!event.body) {
-      return errorResponse(400, 'invalid_request', 'Request body is required');
+    // Parse and validate request body (form-urlencoded or JSON)
+    const parsed = parseRequestBody(event);
+    if (!parsed.ok) {
+      return errorResponse(400, 'invalid_request', parsed.errorDescription);
     }
 
-    let request: DeviceCodeRequest;
-    try {
-      request = JSON.parse(event.body);
-    } catch {
-      return errorResponse(400, 'invalid_request', 'Invalid JSON in request body');
+    // Resolve client_id from HTTP Basic auth or the body
+    const client = resolveClientId(event, parsed.params);
+    if (!client.ok) {
+      return client.error === 'invalid_client'
+        ? errorResponse(401, 'invalid_client', client.errorDescription, { 'WWW-Authenticate': 'Basic' })
+        : errorResponse(400, client.error, client.errorDescription);
     }
 
+    const request: Partial<DeviceCodeRequest> = { ...parsed.params, client_id: client.clientId };
+
     // Validate client_id
     if (!request.client_id) {
       return errorResponse(400, 'invalid_request', 'client_id is required');
     }
 
+    // Only registered clients may use the device grant
+    const deviceClient = getDeviceClient(request.client_id);
+    if (!deviceClient) {
+      // RFC 6749 Section 5.2 - 401 if the client authenticated via the Authorization header
+      return parseBasicAuth(event)
+        ? errorResponse(401, 'invalid_client', 'Unknown client', { 'WWW-Authenticate': 'Basic' })
+        : errorResponse(400, 'invalid_client', 'Unknown client');
+    }
+
+    // Validate requested scopes against the client's allowed scopes
+    const scopeResult = resolveScope(deviceClient, request.scope);
+    if (!scopeResult.ok) {
+      return errorResponse(400, 'invalid_scope', scopeResult.errorDescription);
+    }
+
+    // Optional self-reported device details, shown on the consent screen
+    const metadataResult = parseDeviceMetadata(parsed.params);
+    if (!metadataResult.ok) {
+      return errorResponse(400, 'invalid_request', metadataResult.errorDescription);
+    }
+
+    const includeQrCode = parseQrCodeParam(parsed.params.qr_code);
+    if (includeQrCode === null) {
+      return errorResponse(400, 'invalid_request', 'qr_code must be true or false');
+    }
+
+    const config = resolveDeviceFlowConfig(request.client_id);
+
     // Generate codes
     const deviceCode = generateDeviceCode();
-    const userCodeFormatted = generateUserCode(); // e.g., "ABC-DEFGH"
+    const userCodeFormatted = await generateUnusedUserCode(store, config.userCode); // e.g., "ABC-DEFGH"
     const userCodeNormalized = normalizeUserCode(userCodeFormatted); // e.g., "ABCDEFGH"
-    const scope = request.scope || 'openid email profile';
+    const scope = scopeResult.scope;
 
     // Calculate timestamps
     const now = Math.floor(Date.now() / 1000);
-    const expiresAt = now + DEVICE_CODE_EXPIRATION_SECONDS;
+    const expiresAt = now + config.expiresIn;
     // TTL should be slightly longer than expiration to allow for clock skew
     const ttl = expiresAt + 60;
 
@@ -58,26 +100,37 @@ export async function handleDeviceCodeRequest(
       clientId: request.client_id,
       scope,
       expiresAt,
-      interval: POLLING_INTERVAL_SECONDS,
+      interval: config.interval,
       status: 'pending',
       ttl,
       createdAt: now,
+      ...metadataResult.metadata,
     };
 
-    // Store in DynamoDB
-    await storeDeviceCode(record);
+    await store.put(record);
 
     // Build response per RFC 8628 Section 3.2
     // Return formatted user code for display (with hyphen for readability)
+    const verificationUriComplete = `${VERIFICATION_URI}?user_code=${encodeURIComponent(userCodeFormatted)}`;
     const response: DeviceCodeResponse = {
       device_code: deviceCode,
       user_code: userCodeFormatted,
       verification_uri: VERIFICATION_URI,
-      verification_uri_complete: `${VERIFICATION_URI}?user_code=${encodeURIComponent(userCodeFormatted)}`,
-      expires_in: DEVICE_CODE_EXPIRATION_SECONDS,
-      interval: POLLING_INTERVAL_SECONDS,
+      verification_uri_complete: verificationUriComplete,
+      expires_in: config.expiresIn,
+      interval: config.interval,
     };
 
+    if (includeQrCode) {
+      response.verification_uri_complete_qr = await renderVerificationQrCode(verificationUriComplete);
+    }
+
+    // WebSocket for completion pushes, if deployed - polling still works without it
+    const pushUri = process.env.DEVICE_PUSH_URI;
+    if (pushUri) {
+      response.push_uri = pushUri;
+    }
+
     return {
       statusCode: 200,
       headers: {
@@ -92,19 +145,35 @@ export async function handleDeviceCodeRequest(
   }
 }
 
+/**
+ * Generates a user code that no live device code is using
+ * Short formats (e.g. 6 digits) make collisions likely enough to check for.
+ */
+async function generateUnusedUserCode(store: DeviceCodeStore, format: UserCodeFormat): Promise<string> {
+  for (let attempt = 0; attempt < MAX_USER_CODE_ATTEMPTS; attempt++) {
+    const userCode = generateUserCode(format);
+    if (!(await store.getByUserCode(normalizeUserCode(userCode)))) {
+      return userCode;
+    }
+  }
+  throw new Error(`No unused user code after ${MAX_USER_CODE_ATTEMPTS} attempts`);
+}
+
 /**
  * Creates an error response per RFC 8628
  */
 function errorResponse(
   statusCode: number,
-  error: string,
-  errorDescription: string
+  error: OAuthErrorCode,
+  errorDescription: string,
+  headers: Record<string, string> = {}
 ): APIGatewayProxyResult {
   return {
     statusCode,
     headers: {
       'Content-Type': 'application/json',
       'Cache-Control': 'no-store',
+      ...headers,
     },
     body: JSON.stringify({
       error,
@@ -0,0 +1,77 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { OAuthErrorCode } from '@thesafezone/idp-common';
+import { DeviceCodeStore, getDeviceCodeStore } from '../device-code-store';
+import { ConnectionManager, getConnectionManager } from '../connection-manager';
+import { isValidDeviceCode } from '../code-generator';
+import { describeSettledCode } from '../device-code-state';
+
+/**
+ * WebSocket $connect handler (push_uri?device_code=)
+ *
+ * Registers the connection for completion pushes while the device code is
+ * pending. Any other response fails the handshake; the device then falls
+ * back to polling /device/token, which reports the outcome.
+ */
+export async function handleDeviceConnect(
+  event: APIGatewayProxyEvent,
+  store: DeviceCodeStore = getDeviceCodeStore(),
+  connections: ConnectionManager = getConnectionManager()
+): Promise<APIGatewayProxyResult> {
+  try {
+    const connectionId = event.requestContext?.connectionId;
+    if (!connectionId) {
+      return errorResponse(400, 'invalid_request', 'Not a WebSocket connection');
+    }
+
+    const deviceCode = event.queryStringParameters?.device_code;
+    if (!deviceCode || !isValidDeviceCode(deviceCode)) {
+      return errorResponse(400, 'invalid_request', 'Invalid device_code');
+    }
+
+    const record = await store.get(deviceCode);
+    if (!record) {
+      return errorResponse(400, 'invalid_grant', 'Device code not found');
+    }
+
+    if (record.status !== 'pending') {
+      const settled = describeSettledCode(record.status);
+      return errorResponse(400, settled.error, settled.errorDescription);
+    }
+
+    await connections.add({ connectionId, deviceCode, ttl: record.ttl });
+
+    // The user may have decided while we registered - that push went nowhere
+    const current = await store.get(deviceCode);
+    if (current?.status !== 'pending') {
+      await connections.remove(connectionId);
+      const settled = describeSettledCode(current?.status ?? 'expired');
+      return errorResponse(400, settled.error, settled.errorDescription);
+    }
+
+    return { statusCode: 200, body: '' };
+  } catch (error) {
+    console.error('Error in device connect:', error);
+    return errorResponse(500, 'server_error', 'Internal server error');
+  }
+}
+
+/**
+ * Creates an error response per RFC 8628
+ * Rejects the WebSocket handshake; the body only shows up in logs.
+ */
+function errorResponse(
+  statusCode: number,
+  error: OAuthErrorCode,
+  errorDescription: string
+): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      error,
+      error_description: errorDescription,
+    }),
+  };
+}
@@ -0,0 +1,101 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DeviceCodeStore, getDeviceCodeStore } from '../device-code-store';
+import { DeviceDecisionRequest, DeviceDecisionResponse, isValidUserCode, normalizeUserCode, OAuthErrorCode } from '@thesafezone/idp-common';
+import { getUserCodeFormats } from '../device-flow-config';
+import { parseRequestBody } from '../request-parser';
+import { AttemptStore, getAttemptStore, authenticateCaller } from '../attempt-limiter';
+import { describeSettledCode } from '../device-code-state';
+
+/**
+ * POST /device/deny handler
+ *
+ * Called by the Login UI when the user rejects a device request
+ * ("This wasn't me"). The polling device then receives access_denied
+ * instead of waiting for the code to expire.
+ *
+ * - Validate user authentication via access token
+ * - Limit failed user code attempts per caller (429 with Retry-After)
+ * - Update status to denied
+ */
+export async function handleDeviceDenyRequest(
+  event: APIGatewayProxyEvent,
+  store: DeviceCodeStore = getDeviceCodeStore(),
+  attempts: AttemptStore = getAttemptStore()
+): Promise<APIGatewayProxyResult> {
+  try {
+    // Parse and validate request body (JSON or form-urlencoded)
+    const parsed = parseRequestBody(event);
+    if (!parsed.ok) {
+      return errorResponse(400, 'invalid_request', parsed.errorDescription);
+    }
+
+    const request: Partial<DeviceDecisionRequest> = parsed.params;
+
+    // Validate user_code
+    if (!request.user_code || !isValidUserCode(request.user_code, getUserCodeFormats())) {
+      return errorResponse(400, 'invalid_request', 'Invalid user_code');
+    }
+
+    if (!request.access_token) {
+      return errorResponse(400, 'invalid_request', 'access_token is required');
+    }
+
+    // Verify the access token and look up the code, limiting failed attempts
+    const caller = await authenticateCaller(
+      event, normalizeUserCode(request.user_code), request.access_token, store, attempts);
+    if (!caller.ok) {
+      return caller.response;
+    }
+    const { userId, record } = caller;
+
+    const result = await store.transition(record.deviceCode, 'pending', { status: 'denied', userId });
+    if (!result.ok) {
+      // Lost the race to a concurrent approval, denial or expiry
+      if (result.reason === 'not_found') {
+        return errorResponse(400, 'invalid_grant', 'User code not found');
+      }
+      const settled = describeSettledCode(result.record.status);
+      return errorResponse(400, settled.error, settled.errorDescription);
+    }
+
+    const response: DeviceDecisionResponse = {
+      success: true,
+      message: 'Device request denied',
+    };
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store',
+      },
+      body: JSON.stringify(response),
+    };
+  } catch (error) {
+    console.error('Error in device deny request:', error);
+    return errorResponse(500, 'server_error', 'Internal server error');
+  }
+}
+
+/**
+ * Creates an error response per RFC 8628
+ */
+function errorResponse(
+  statusCode: number,
+  error: OAuthErrorCode,
+  errorDescription: string,
+  headers: Record<string, string> = {}
+): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+      ...headers,
+    },
+    body: JSON.stringify({
+      error,
+      error_description: errorDescription,
+    }),
+  };
+}
@@ -0,0 +1,24 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { ConnectionManager, getConnectionManager } from '../connection-manager';
+
+/**
+ * WebSocket $disconnect handler
+ *
+ * Forgets the connection. API Gateway does not always deliver $disconnect,
+ * so closed connections are also removed when a push to them fails.
+ */
+export async function handleDeviceDisconnect(
+  event: APIGatewayProxyEvent,
+  connections: ConnectionManager = getConnectionManager()
+): Promise<APIGatewayProxyResult> {
+  const connectionId = event.requestContext?.connectionId;
+  if (connectionId) {
+    try {
+      await connections.remove(connectionId);
+    } catch (error) {
+      // Left for the TTL to clean up
+      console.error('Error in device disconnect:', error);
+    }
+  }
+  return { statusCode: 200, body: '' };
+}
@@ -0,0 +1,95 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DeviceCodeStore, getDeviceCodeStore } from '../device-code-store';
+import { DeviceLookupResponse, isValidUserCode, normalizeUserCode, OAuthErrorCode } from '@thesafezone/idp-common';
+import { getUserCodeFormats } from '../device-flow-config';
+import { getBearerToken } from '../request-parser';
+import { AttemptStore, getAttemptStore, authenticateCaller } from '../attempt-limiter';
+import { getClientDisplayName } from '../client-registry';
+
+/**
+ * GET /device/lookup?user_code= handler
+ *
+ * Called by the Login UI after the user signs in, to show which application
+ * and which scopes a device is requesting before the user approves it.
+ * Protects users from approving codes that a third party started.
+ *
+ * - Validate user authentication via Bearer access token
+ * - Limit failed user code attempts per caller (429 with Retry-After)
+ * - Return client display name, scope, creation time, remaining lifetime and
+ *   the device details the device reported
+ */
+export async function handleDeviceLookupRequest(
+  event: APIGatewayProxyEvent,
+  store: DeviceCodeStore = getDeviceCodeStore(),
+  attempts: AttemptStore = getAttemptStore()
+): Promise<APIGatewayProxyResult> {
+  try {
+    const userCode = event.queryStringParameters?.user_code;
+
+    // Validate user_code
+    if (!userCode || !isValidUserCode(userCode, getUserCodeFormats())) {
+      return errorResponse(400, 'invalid_request', 'Invalid user_code');
+    }
+
+    const accessToken = getBearerToken(event);
+    if (!accessToken) {
+      return errorResponse(401, 'invalid_token', 'Bearer access token is required',
+        { 'WWW-Authenticate': 'Bearer' });
+    }
+
+    // Verify the access token and look up the code, limiting failed attempts
+    const caller = await authenticateCaller(
+      event, normalizeUserCode(userCode), accessToken, store, attempts, { bearer: true });
+    if (!caller.ok) {
+      return caller.response;
+    }
+    const { record, now } = caller;
+
+    const response: DeviceLookupResponse = {
+      user_code: record.userCode,
+      client_id: record.clientId,
+      client_name: getClientDisplayName(record.clientId),
+      scope: record.scope,
+      created_at: record.createdAt,
+      expires_in: record.expiresAt - now,
+      device_name: record.deviceName,
+      device_model: record.deviceModel,
+      app_version: record.appVersion,
+    };
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store',
+      },
+      body: JSON.stringify(response),
+    };
+  } catch (error) {
+    console.error('Error in device lookup request:', error);
+    return errorResponse(500, 'server_error', 'Internal server error');
+  }
+}
+
+/**
+ * Creates an error response per RFC 8628
+ */
+function errorResponse(
+  statusCode: number,
+  error: OAuthErrorCode,
+  errorDescription: string,
+  headers: Record<string, string> = {}
+): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+      ...headers,
+    },
+    body: JSON.stringify({
+      error,
+      error_description: errorDescription,
+    }),
+  };
+}
@@ -0,0 +1,44 @@
+import { DynamoDBStreamEvent } from 'aws-lambda';
+import { DevicePushMessage } from '@thesafezone/idp-common';
+import { ConnectionManager, getConnectionManager } from '../connection-manager';
+
+const PUSHED_STATUSES: readonly string[] = ['authorized', 'denied', 'expired'];
+
+/**
+ * Device code table stream handler
+ *
+ * Pushes a DevicePushMessage to the device's WebSocket connections when its
+ * code leaves pending - approved or denied on /device/authorize and
+ * /device/deny, or invalidated after too many failed attempts. The device
+ * then collects the outcome from /device/token.
+ *
+ * Failed pushes are logged, not retried: the device still finds out on its
+ * next poll.
+ */
+export async function handleDeviceStatusStream(
+  event: DynamoDBStreamEvent,
+  connections: ConnectionManager = getConnectionManager()
+): Promise<void> {
+  for (const record of event.Records) {
+    if (record.eventName !== 'MODIFY') continue;
+
+    const deviceCode = record.dynamodb?.Keys?.deviceCode?.S;
+    const oldStatus = record.dynamodb?.OldImage?.status?.S;
+    const newStatus = record.dynamodb?.NewImage?.status?.S;
+    if (!deviceCode || oldStatus !== 'pending' || !newStatus || !PUSHED_STATUSES.includes(newStatus)) {
+      continue;
+    }
+
+    const message: DevicePushMessage = {
+      type: 'device_code_status',
+      status: newStatus as DevicePushMessage['status'],
+    };
+
+    try {
+      const reached = await connections.notify(deviceCode, message);
+      console.log(`Pushed ${newStatus} for device code ${deviceCode.slice(0, 8)}... to ${reached} connection(s)`);
+    } catch (error) {
+      console.error(`Push failed for device code ${deviceCode.slice(0, 8)}...:`, error);
+    }
+  }
+}
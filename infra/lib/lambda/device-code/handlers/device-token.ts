@@ -1,15 +1,11 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
-import { getDeviceCodeByDeviceCode, deleteDeviceCode } from '../dynamodb-client';
+import { DeviceCodeStore, getDeviceCodeStore } from '../device-code-store';
 import { isValidDeviceCode } from '../code-generator';
-
-/**
- * Request body for POST /device/token
- */
-interface DeviceTokenRequest {
-  grant_type: string;
-  device_code: string;
-  client_id: string;
-}
+import { parseRequestBody, resolveClientId } from '../request-parser';
+import { decryptTokens } from '../token-encryption';
+import { TransitionResult } from '../device-code-state';
+import { UserDeviceRegistry, getUserDeviceRegistry, registerUserDevice } from '../user-device-registry';
+import { DeviceTokenRequest, DeviceTokenResponse, OAuthErrorCode } from '@thesafezone/idp-common';
 
 /**
  * POST /device/token handler
@@ -21,23 +17,32 @@ interface DeviceTokenRequest {
  * - Return authorization_pending for pending codes
  * - Return tokens for authorized codes
  * - Return expired_token for expired codes
+ * - Return slow_down when polling a pending code faster than the interval (RFC 8628 Section 3.5)
+ * - Deliver tokens or the final error exactly once (authorized/denied -> consumed)
+ * - Record the device in the user's device registry before handing over tokens
  */
 export async function handleDeviceTokenRequest(
-  event: APIGatewayProxyEvent
+  event: APIGatewayProxyEvent,
+  store: DeviceCodeStore = getDeviceCodeStore(),
+  registry: UserDeviceRegistry = getUserDeviceRegistry()
 ): Promise<APIGatewayProxyResult> {
   try {
-    // Parse and validate request body
-    if (!event.body) {
-      return errorResponse(400, 'invalid_request', 'Request body is required');
+    // Parse and validate request body (form-urlencoded or JSON)
+    const parsed = parseRequestBody(event);
+    if (!parsed.ok) {
+      return errorResponse(400, 'invalid_request', parsed.errorDescription);
     }
 
-    let request: DeviceTokenRequest;
-    try {
-      request = JSON.parse(event.body);
-    } catch {
-      return errorResponse(400, 'invalid_request', 'Invalid JSON in request body');
+    // Resolve client_id from HTTP Basic auth or the body
+    const client = resolveClientId(event, parsed.params);
+    if (!client.ok) {
+      return client.error === 'invalid_client'
+        ? errorResponse(401, 'invalid_client', client.errorDescription, { 'WWW-Authenticate': 'Basic' })
+        : errorResponse(400, client.error, client.errorDescription);
     }
 
+    const request: Partial<DeviceTokenRequest> = { ...parsed.params, client_id: client.clientId };
+
     // Validate grant_type
     if (request.grant_type !== 'urn:ietf:params:oauth:grant-type:device_code') {
       return errorResponse(400, 'unsupported_grant_type', 
@@ -55,7 +60,7 @@ export async function handleDeviceTokenRequest(
     }
 
     // Look up device code record
-    const record = await getDeviceCodeByDeviceCode(request.device_code);
+    let record = await store.get(request.device_code);
 
     if (!record) {
       return errorResponse(400, 'invalid_grant', 'Device code not found');
@@ -66,55 +71,96 @@ export async function handleDeviceTokenRequest(
       return errorResponse(400, 'invalid_grant', 'client_id mismatch');
     }
 
-    // Check if expired
+    // Expire codes past their lifetime, including tokens that were never collected
     const now = Math.floor(Date.now() / 1000);
-    if (now > record.expiresAt) {
-      // Clean up expired record
-      await deleteDeviceCode(record.deviceCode);
-      return errorResponse(400, 'expired_token', 'Device code has expired');
+    if (now > record.expiresAt && (record.status === 'pending' || record.status === 'authorized')) {
+      const expired = await store.transition(record.deviceCode, record.status, { status: 'expired' });
+      if (!expired.ok && expired.reason === 'not_found') {
+        return errorResponse(400, 'invalid_grant', 'Device code not found');
+      }
+      record = expired.record;
     }
 
-    // Check status
+    // Enforce the polling interval - too-fast pollers get slow_down and a longer interval.
+    // Only while pending: a device told of the outcome by a push (see
+    // connection-manager.ts) collects it right away, and that consumes the code.
+    if (record.status === 'pending') {
+      const poll = await store.recordPoll(record.deviceCode, record.interval, now);
+      if (!poll) {
+        return errorResponse(400, 'invalid_grant', 'Device code not found');
+      }
+      if (poll.slowDown) {
+        return errorResponse(400, 'slow_down',
+          `Polling too frequently. Wait at least ${poll.interval} seconds between requests.`);
+      }
+    }
+
+    // Check status - every outcome but pending consumes the code, once
     switch (record.status) {
       case 'pending':
         // User hasn't authorized yet - return authorization_pending
         return errorResponse(400, 'authorization_pending', 
           'Authorization pending. Continue polling.');
 
-      case 'authorized':
+      case 'authorized': {
         // User has authorized - return tokens
-        if (!record.tokens) {
+        if (!record.encryptedTokens) {
           return errorResponse(500, 'server_error', 'Tokens not available');
         }
-        
-        // Delete the record after successful token retrieval
-        await deleteDeviceCode(record.deviceCode);
-        
+
+        // Tokens are only ever decrypted here, on their way to the device
+        const tokens = await decryptTokens(record.encryptedTokens, record.deviceCode);
+
+        // Every refresh token handed out must be revocable from the user's
+        // device list, so the device is recorded first
+        const device = await registerUserDevice(record, tokens.refreshToken, now, registry);
+
+        // Only one poll may collect the tokens
+        const consumed = await store.transition(record.deviceCode, 'authorized', { status: 'consumed' });
+        if (!consumed.ok) {
+          // Keep the entry if a concurrent poll handed the tokens over
+          if (consumed.reason === 'not_found' || consumed.record.status !== 'consumed') {
+            await registry.delete(device.userId, device.deviceId);
+          }
+          return lostRaceResponse(consumed);
+        }
+
+        const response: DeviceTokenResponse = {
+          access_token: tokens.accessToken,
+          id_token: tokens.idToken,
+          refresh_token: tokens.refreshToken,
+          token_type: 'Bearer',
+          expires_in: tokens.expiresIn,
+        };
+
         return {
           statusCode: 200,
           headers: {
             'Content-Type': 'application/json',
             'Cache-Control': 'no-store',
           },
-          body: JSON.stringify({
-            access_token: record.tokens.accessToken,
-            id_token: record.tokens.idToken,
-            refresh_token: record.tokens.refreshToken,
-            token_type: 'Bearer',
-            expires_in: 3600, // 1 hour
-          }),
+          body: JSON.stringify(response),
         };
+      }
 
-      case 'denied':
+      case 'denied': {
         // User denied authorization
-        await deleteDeviceCode(record.deviceCode);
+        const consumed = await store.transition(record.deviceCode, 'denied', { status: 'consumed' });
+        if (!consumed.ok) {
+          return lostRaceResponse(consumed);
+        }
         return errorResponse(400, 'access_denied', 'User denied authorization');
+      }
 
       case 'expired':
-        // Explicitly marked as expired
-        await deleteDeviceCode(record.deviceCode);
+        // Expired by time, or invalidated after too many failed attempts
+        await store.transition(record.deviceCode, 'expired', { status: 'consumed' });
         return errorResponse(400, 'expired_token', 'Device code has expired');
 
+      case 'consumed':
+        // Tokens or the final error were already delivered
+        return errorResponse(400, 'invalid_grant', 'Device code has already been used');
+
       default:
         return errorResponse(500, 'server_error', 'Unknown device code status');
     }
@@ -124,19 +170,32 @@ export async function handleDeviceTokenRequest(
   }
 }
 
+/**
+ * Error for a poll whose final transition lost the race to a concurrent poll
+ */
+function lostRaceResponse(result: Exclude<TransitionResult, { ok: true }>): APIGatewayProxyResult {
+  if (result.reason === 'conflict' && result.record.status === 'expired') {
+    return errorResponse(400, 'expired_token', 'Device code has expired');
+  }
+  return errorResponse(400, 'invalid_grant',
+    result.reason === 'conflict' ? 'Device code has already been used' : 'Device code not found');
+}
+
 /**
  * Creates an error response per RFC 8628
  */
 function errorResponse(
   statusCode: number,
-  error: string,
-  errorDescription: string
+  error: OAuthErrorCode,
+  errorDescription: string,
+  headers: Record<string, string> = {}
 ): APIGatewayProxyResult {
   return {
     statusCode,
     headers: {
       'Content-Type': 'application/json',
       'Cache-Control': 'no-store',
+      ...headers,
     },
     body: JSON.stringify({
       error,
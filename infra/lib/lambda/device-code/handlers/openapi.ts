@@ -0,0 +1,31 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import openApiDocument from '../openapi.json';
+
+// The document only changes with a deployment
+const CACHE_MAX_AGE_SECONDS = 300;
+
+/**
+ * GET /device/openapi.json handler
+ *
+ * Serves the OpenAPI 3 document of the Device Code API, generated from the
+ * shared request and response types (scripts/generate-openapi.ts), so
+ * third-party studios can generate clients. Public.
+ *
+ * The server URL is taken from the request, so the document points at the
+ * stage, custom domain or base path it was fetched from: whatever precedes
+ * the routed path (event.path) in the requested path.
+ */
+export async function handleOpenApiRequest(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const { domainName, path: requestedPath } = event.requestContext ?? {};
+  const prefix = requestedPath?.endsWith(event.path) ? requestedPath.slice(0, -event.path.length) : '';
+  const servers = domainName ? [{ url: `https://${domainName}${prefix}` }] : undefined;
+
+  return {
+    statusCode: 200,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': `public, max-age=${CACHE_MAX_AGE_SECONDS}`,
+    },
+    body: JSON.stringify(servers ? { ...openApiDocument, servers } : openApiDocument),
+  };
+}
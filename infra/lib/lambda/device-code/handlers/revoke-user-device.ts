@@ -0,0 +1,101 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { OAuthErrorCode } from '@thesafezone/idp-common';
+import { UserDeviceRegistry, getUserDeviceRegistry, isValidUserDeviceId } from '../user-device-registry';
+import { getBearerToken } from '../request-parser';
+import { getVerifier } from '../jwt-verifier';
+import { decryptRefreshToken } from '../token-encryption';
+import { getTokenRevoker } from '../token-revocation';
+import { describeDevice } from '../device-metadata';
+
+/**
+ * DELETE /devices/{id} handler
+ *
+ * Called by the Login UI when the user signs a device out. Revokes the
+ * device's refresh token with Cognito, which also ends its access tokens,
+ * and forgets the device.
+ *
+ * - Validate user authentication via Bearer access token
+ * - Only the user's own devices can be found (404 otherwise)
+ * - Keep the device if Cognito does not confirm the revocation, so the user
+ *   can try again
+ */
+export async function handleRevokeUserDeviceRequest(
+  event: APIGatewayProxyEvent,
+  deviceId: string,
+  registry: UserDeviceRegistry = getUserDeviceRegistry()
+): Promise<APIGatewayProxyResult> {
+  try {
+    if (!isValidUserDeviceId(deviceId)) {
+      return errorResponse(400, 'invalid_request', 'Invalid device id');
+    }
+
+    const accessToken = getBearerToken(event);
+    if (!accessToken) {
+      return errorResponse(401, 'invalid_token', 'Bearer access token is required',
+        { 'WWW-Authenticate': 'Bearer' });
+    }
+
+    // Verify the access token with Cognito
+    const jwtVerifier = getVerifier();
+    if (!jwtVerifier) {
+      console.error('JWT verifier not configured - missing USER_POOL_ID or USER_POOL_CLIENT_ID');
+      return errorResponse(500, 'server_error', 'Server configuration error');
+    }
+
+    let userId: string;
+    try {
+      const payload = await jwtVerifier.verify(accessToken);
+      userId = payload.sub;
+    } catch (error) {
+      console.error('Token verification failed:', error);
+      return errorResponse(401, 'invalid_token', 'Access token is invalid or expired',
+        { 'WWW-Authenticate': 'Bearer error="invalid_token"' });
+    }
+
+    // Devices are keyed by user, so other users' devices are never found
+    const device = await registry.get(userId, deviceId);
+    if (!device) {
+      return errorResponse(404, 'not_found', 'Device not found');
+    }
+
+    const refreshToken = await decryptRefreshToken(device.encryptedRefreshToken, userId, deviceId);
+    await getTokenRevoker().revoke(device.clientId, refreshToken);
+    await registry.delete(userId, deviceId);
+
+    console.log(`Device revoked by user ${userId}: ${describeDevice(device)} via ${device.clientId}`);
+
+    return {
+      statusCode: 204,
+      headers: {
+        'Cache-Control': 'no-store',
+      },
+      body: '',
+    };
+  } catch (error) {
+    console.error('Error in revoke user device request:', error);
+    return errorResponse(500, 'server_error', 'Internal server error');
+  }
+}
+
+/**
+ * Creates an error response per RFC 6749 Section 5.2
+ */
+function errorResponse(
+  statusCode: number,
+  error: OAuthErrorCode,
+  errorDescription: string,
+  headers: Record<string, string> = {}
+): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+      ...headers,
+    },
+    body: JSON.stringify({
+      error,
+      error_description: errorDescription,
+    }),
+  };
+}
@@ -0,0 +1,28 @@
+import { APIGatewayProxyResult } from 'aws-lambda';
+import { getUserCodeFormats } from '../device-flow-config';
+import { UserCodeFormatsResponse } from '@thesafezone/idp-common';
+
+// Formats only change with a deployment
+const CACHE_MAX_AGE_SECONDS = 300;
+
+/**
+ * GET /device/user-code-formats handler
+ *
+ * Called by the Login UI before the user signs in, so the code input can
+ * accept exactly the user codes that registered device clients display.
+ * Public - the formats are no secret, the codes themselves are.
+ */
+export async function handleUserCodeFormatsRequest(): Promise<APIGatewayProxyResult> {
+  const response: UserCodeFormatsResponse = {
+    formats: getUserCodeFormats(),
+  };
+
+  return {
+    statusCode: 200,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': `public, max-age=${CACHE_MAX_AGE_SECONDS}`,
+    },
+    body: JSON.stringify(response),
+  };
+}
@@ -0,0 +1,99 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { OAuthErrorCode, UserDevicesResponse } from '@thesafezone/idp-common';
+import { UserDeviceRegistry, getUserDeviceRegistry } from '../user-device-registry';
+import { getBearerToken } from '../request-parser';
+import { getVerifier } from '../jwt-verifier';
+import { getClientDisplayName } from '../client-registry';
+
+/**
+ * GET /devices handler
+ *
+ * Called by the Login UI to show the user which devices they have signed in
+ * with the device flow, most recently signed in first.
+ *
+ * - Validate user authentication via Bearer access token
+ * - Return client display name, self-reported device details and the times it
+ *   requested its code and signed in - never the stored refresh tokens
+ */
+export async function handleListUserDevicesRequest(
+  event: APIGatewayProxyEvent,
+  registry: UserDeviceRegistry = getUserDeviceRegistry()
+): Promise<APIGatewayProxyResult> {
+  try {
+    const accessToken = getBearerToken(event);
+    if (!accessToken) {
+      return errorResponse(401, 'invalid_token', 'Bearer access token is required',
+        { 'WWW-Authenticate': 'Bearer' });
+    }
+
+    // Verify the access token with Cognito
+    const jwtVerifier = getVerifier();
+    if (!jwtVerifier) {
+      console.error('JWT verifier not configured - missing USER_POOL_ID or USER_POOL_CLIENT_ID');
+      return errorResponse(500, 'server_error', 'Server configuration error');
+    }
+
+    let userId: string;
+    try {
+      const payload = await jwtVerifier.verify(accessToken);
+      userId = payload.sub;
+    } catch (error) {
+      console.error('Token verification failed:', error);
+      return errorResponse(401, 'invalid_token', 'Access token is invalid or expired',
+        { 'WWW-Authenticate': 'Bearer error="invalid_token"' });
+    }
+
+    const devices = await registry.list(userId);
+
+    const response: UserDevicesResponse = {
+      devices: devices
+        .sort((a, b) => b.signedInAt - a.signedInAt)
+        .map((device) => ({
+          device_id: device.deviceId,
+          client_id: device.clientId,
+          client_name: getClientDisplayName(device.clientId),
+          device_name: device.deviceName,
+          device_model: device.deviceModel,
+          app_version: device.appVersion,
+          first_seen_at: device.firstSeenAt,
+          signed_in_at: device.signedInAt,
+          last_seen_at: device.lastSeenAt,
+        })),
+    };
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store',
+      },
+      body: JSON.stringify(response),
+    };
+  } catch (error) {
+    console.error('Error in list user devices request:', error);
+    return errorResponse(500, 'server_error', 'Internal server error');
+  }
+}
+
+/**
+ * Creates an error response per RFC 6749 Section 5.2
+ */
+function errorResponse(
+  statusCode: number,
+  error: OAuthErrorCode,
+  errorDescription: string,
+  headers: Record<string, string> = {}
+): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+      ...headers,
+    },
+    body: JSON.stringify({
+      error,
+      error_description: errorDescription,
+    }),
+  };
+}
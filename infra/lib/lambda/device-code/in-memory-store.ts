@@ -0,0 +1,91 @@
+import { DeviceCodeRecord } from './types';
+import { evaluatePoll, SLOW_DOWN_INCREMENT_SECONDS } from './polling';
+import { canTransition } from './device-code-state';
+import type { DeviceCodeStore } from './device-code-store';
+
+/**
+ * Creates a store that keeps device code records in memory
+ *
+ * Behaves like the DynamoDB store: records past their `ttl` are treated as
+ * deleted, put fails for an existing device code, and conditional updates
+ * fail for missing records or records in another status. Records are copied in and out, so callers can't
+ * modify stored state by accident.
+ *
+ * For tests and local development only - state is lost with the process.
+ *
+ * @param clock - Returns the current Unix timestamp (injectable for tests)
+ */
+export function createInMemoryDeviceCodeStore(
+  clock: () => number = () => Math.floor(Date.now() / 1000)
+): DeviceCodeStore {
+  const records = new Map<string, DeviceCodeRecord>();
+
+  // Returns the stored record, dropping it if its TTL has passed
+  const live = (deviceCode: string): DeviceCodeRecord | undefined => {
+    const record = records.get(deviceCode);
+    if (record && record.ttl <= clock()) {
+      records.delete(deviceCode);
+      return undefined;
+    }
+    return record;
+  };
+
+  return {
+    async put(record) {
+      if (live(record.deviceCode)) {
+        throw new Error(`Device code already exists: ${record.deviceCode.slice(0, 8)}...`);
+      }
+      records.set(record.deviceCode, { ...record });
+    },
+
+    async get(deviceCode) {
+      const record = live(deviceCode);
+      return record ? { ...record } : null;
+    },
+
+    async getByUserCode(userCode) {
+      for (const deviceCode of Array.from(records.keys())) {
+        const record = live(deviceCode);
+        if (record?.userCode === userCode) return { ...record };
+      }
+      return null;
+    },
+
+    async transition(deviceCode, from, update) {
+      if (!canTransition(from, update.status)) {
+        throw new Error(`Invalid device code transition: ${from} -> ${update.status}`);
+      }
+
+      const record = live(deviceCode);
+      if (!record) return { ok: false, reason: 'not_found' };
+      if (record.status !== from) return { ok: false, reason: 'conflict', record: { ...record } };
+
+      record.status = update.status;
+      if (update.userId) record.userId = update.userId;
+      if (update.encryptedTokens) record.encryptedTokens = update.encryptedTokens;
+      if (update.status === 'consumed') delete record.encryptedTokens;
+      return { ok: true, record: { ...record } };
+    },
+
+    async recordPoll(deviceCode, interval, now) {
+      const record = live(deviceCode);
+      if (!record) return null;
+
+      // Same condition as the DynamoDB store: the caller's interval must still
+      // be current and the previous poll at least that long ago (see evaluatePoll)
+      const slowDown = evaluatePoll(record, now).slowDown || record.interval !== interval;
+      if (slowDown) record.interval += SLOW_DOWN_INCREMENT_SECONDS;
+      record.lastPolledAt = now;
+      return { slowDown, interval: record.interval, lastPolledAt: now };
+    },
+
+    async recordFailedAttempt(deviceCode, maxFailures) {
+      const record = live(deviceCode);
+      if (!record) return null;
+
+      record.failedAttempts = (record.failedAttempts ?? 0) + 1;
+      if (record.failedAttempts >= maxFailures && record.status === 'pending') record.status = 'expired';
+      return record.failedAttempts;
+    },
+  };
+}
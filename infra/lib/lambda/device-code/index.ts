@@ -1,43 +1,49 @@
-import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { createRouter } from './router';
+import { withCors } from './cors';
 import { handleDeviceCodeRequest } from './handlers/device-code';
 import { handleDeviceTokenRequest } from './handlers/device-token';
 import { handleDeviceAuthorizeRequest } from './handlers/device-authorize';
+import { handleDeviceDenyRequest } from './handlers/device-deny';
+import { handleDeviceLookupRequest } from './handlers/device-lookup';
+import { handleUserCodeFormatsRequest } from './handlers/user-code-formats';
+import { handleOpenApiRequest } from './handlers/openapi';
+import { handleListUserDevicesRequest } from './handlers/user-devices';
+import { handleRevokeUserDeviceRequest } from './handlers/revoke-user-device';
+import { loadDeviceFlowConfig } from './device-flow-config';
+
+// Invalid device flow settings fail the cold start instead of every request
+loadDeviceFlowConfig();
 
 /**
  * Main Lambda handler for Device Code Flow endpoints
- * 
+ *
+ * Takes REST API (payload 1.0), HTTP API and function URL (payload 2.0)
+ * events - see router.ts. Responses carry CORS headers for allowed browser
+ * origins - see cors.ts.
+ *
  * Routes:
  * - POST /device/code - Generate device code and user code
  * - POST /device/token - Poll for tokens (VR client)
  * - POST /device/authorize - User authorizes device (after login)
+ * - POST /device/deny - User denies device (after login)
+ * - GET /device/lookup - Consent details for a user code (after login)
+ * - GET /device/user-code-formats - User code formats for the code input
+ * - GET /device/openapi.json - OpenAPI document of this API
+ * - GET /devices - Devices the user signed in (after login)
+ * - DELETE /devices/{id} - Sign a device out (after login)
  */
-export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
-  const path = event.path;
-  const method = event.httpMethod;
-
-  console.log(`Received ${method} ${path}`);
-
-  // Route to appropriate handler
-  if (method === 'POST' && path === '/device/code') {
-    return handleDeviceCodeRequest(event);
-  }
-
-  if (method === 'POST' && path === '/device/token') {
-    return handleDeviceTokenRequest(event);
-  }
-
-  if (method === 'POST' && path === '/device/authorize') {
-    return handleDeviceAuthorizeRequest(event);
-  }
-
-  return {
-    statusCode: 404,
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      error: 'not_found',
-      error_description: `Unknown endpoint: ${method} ${path}`,
-    }),
-  };
-}
+export const handler = withCors(createRouter([
+  { method: 'POST', path: '/device/code', handler: (event) => handleDeviceCodeRequest(event) },
+  { method: 'POST', path: '/device/token', handler: (event) => handleDeviceTokenRequest(event) },
+  { method: 'POST', path: '/device/authorize', handler: (event) => handleDeviceAuthorizeRequest(event) },
+  { method: 'POST', path: '/device/deny', handler: (event) => handleDeviceDenyRequest(event) },
+  { method: 'GET', path: '/device/lookup', handler: (event) => handleDeviceLookupRequest(event) },
+  { method: 'GET', path: '/device/user-code-formats', handler: () => handleUserCodeFormatsRequest() },
+  { method: 'GET', path: '/device/openapi.json', handler: (event) => handleOpenApiRequest(event) },
+  { method: 'GET', path: '/devices', handler: (event) => handleListUserDevicesRequest(event) },
+  {
+    method: 'DELETE',
+    path: /^\/devices\/([^/]+)$/,
+    handler: (event, [deviceId]) => handleRevokeUserDeviceRequest(event, deviceId),
+  },
+]));
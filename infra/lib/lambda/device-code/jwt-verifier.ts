@@ -0,0 +1,103 @@
+import * as crypto from 'crypto';
+import { CognitoJwtVerifier } from 'aws-jwt-verify';
+
+/**
+ * Access Token Verification
+ *
+ * Verifies Cognito access tokens presented by the Login UI on the
+ * user-facing device endpoints (/device/authorize, /device/deny).
+ */
+
+// Cognito configuration from environment
+const USER_POOL_ID = process.env.USER_POOL_ID || '';
+const USER_POOL_CLIENT_ID = process.env.USER_POOL_CLIENT_ID || '';
+
+/**
+ * Verifies an access token and returns its claims, throwing if it is invalid
+ */
+export interface AccessTokenVerifier {
+  verify(accessToken: string): Promise<{ sub: string; [claim: string]: unknown }>;
+}
+
+// Create JWT verifier for access tokens (lazy initialization)
+let verifier: AccessTokenVerifier | null = null;
+
+/**
+ * Returns the access token verifier, or null if Cognito is not configured
+ */
+export function getVerifier(): AccessTokenVerifier | null {
+  if (!verifier && USER_POOL_ID && USER_POOL_CLIENT_ID) {
+    verifier = CognitoJwtVerifier.create({
+      userPoolId: USER_POOL_ID,
+      tokenUse: 'access',
+      clientId: USER_POOL_CLIENT_ID,
+    });
+  }
+  return verifier;
+}
+
+/**
+ * Overrides the access token verifier (e.g. a fake verifier in tests)
+ */
+export function setVerifier(override: AccessTokenVerifier | null): void {
+  verifier = override;
+}
+
+/**
+ * Creates a verifier for HS256 access tokens signed with a local dev key
+ * (see signLocalAccessToken). Checks the signature, token_use, expiry and,
+ * if given, client_id.
+ * For tests and local development only - never use in a deployed Lambda.
+ */
+export function createLocalVerifier(secret: string, clientId?: string): AccessTokenVerifier {
+  return {
+    async verify(accessToken) {
+      const [header, payload, signature] = accessToken.split('.');
+      if (!header || !payload || signature === undefined) {
+        throw new Error('Malformed JWT');
+      }
+
+      const expected = hmacSha256(`${header}.${payload}`, secret);
+      const actual = Buffer.from(signature, 'base64url');
+      if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+        throw new Error('Invalid JWT signature');
+      }
+
+      if (JSON.parse(Buffer.from(header, 'base64url').toString('utf-8')).alg !== 'HS256') {
+        throw new Error('Unsupported JWT algorithm');
+      }
+
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+      if (claims.token_use !== 'access') {
+        throw new Error('Not an access token');
+      }
+      if (typeof claims.exp !== 'number' || claims.exp <= Math.floor(Date.now() / 1000)) {
+        throw new Error('Token expired');
+      }
+      if (clientId && claims.client_id !== clientId) {
+        throw new Error('Token issued to another client');
+      }
+      if (typeof claims.sub !== 'string') {
+        throw new Error('Token has no sub claim');
+      }
+      return claims;
+    },
+  };
+}
+
+/**
+ * Signs an HS256 JWT with a local dev key, accepted by createLocalVerifier
+ * For tests and local development only.
+ */
+export function signLocalAccessToken(claims: Record<string, unknown>, secret: string): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value), 'utf-8').toString('base64url');
+  const unsigned = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}`;
+  return `${unsigned}.${hmacSha256(unsigned, secret).toString('base64url')}`;
+}
+
+/**
+ * HMAC-SHA-256 of a JWT signing input
+ */
+function hmacSha256(data: string, secret: string): Buffer {
+  return crypto.createHmac('sha256', secret).update(data).digest();
+}
@@ -0,0 +1,49 @@
+/**
+ * Device Token Polling Rate (RFC 8628 Section 3.5)
+ *
+ * A client that polls faster than the interval of its device code receives
+ * a slow_down error and must add 5 seconds to its interval for this and all
+ * subsequent requests.
+ */
+
+export const SLOW_DOWN_INCREMENT_SECONDS = 5;
+
+/**
+ * Polls may arrive this much before the interval has passed without being
+ * slowed down. Timestamps are whole seconds, so a client that waits exactly
+ * the interval can appear a second early.
+ */
+export const POLL_TOLERANCE_SECONDS = 1;
+
+/**
+ * Polling state tracked on a device code record
+ */
+export interface PollState {
+  interval: number;       // Current polling interval in seconds
+  lastPolledAt?: number;  // Unix timestamp of the previous poll
+}
+
+/**
+ * Outcome of a single poll
+ */
+export interface PollOutcome {
+  slowDown: boolean;      // true if the client polled too fast
+  interval: number;       // Interval in effect after this poll
+  lastPolledAt: number;   // Updated last poll timestamp
+}
+
+/**
+ * Determines whether a poll at `now` respects the interval and computes the
+ * resulting polling state. The device code stores apply the same rule
+ * atomically in recordPoll.
+ */
+export function evaluatePoll(state: PollState, now: number): PollOutcome {
+  const tooSoon = state.lastPolledAt !== undefined &&
+    now - state.lastPolledAt < state.interval - POLL_TOLERANCE_SECONDS;
+
+  return {
+    slowDown: tooSoon,
+    interval: tooSoon ? state.interval + SLOW_DOWN_INCREMENT_SECONDS : state.interval,
+    lastPolledAt: now,
+  };
+}
@@ -0,0 +1,44 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, DynamoDBStreamEvent } from 'aws-lambda';
+import { handleDeviceConnect } from './handlers/device-connect';
+import { handleDeviceDisconnect } from './handlers/device-disconnect';
+import { handleDeviceStatusStream } from './handlers/device-status-stream';
+
+/**
+ * Lambda handlers for completion pushes to devices (see connection-manager.ts)
+ *
+ * WebSocket routes:
+ * - $connect?device_code= - Register for pushes while the code is pending
+ * - $disconnect - Forget the connection
+ */
+export async function connectionHandler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const routeKey = event.requestContext?.routeKey;
+
+  console.log(`Received WebSocket ${routeKey}`);
+
+  if (routeKey === '$connect') {
+    return handleDeviceConnect(event);
+  }
+
+  if (routeKey === '$disconnect') {
+    return handleDeviceDisconnect(event);
+  }
+
+  // Devices only listen - messages they send are not routed
+  return {
+    statusCode: 400,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      error: 'invalid_request',
+      error_description: `Unsupported route: ${routeKey}`,
+    }),
+  };
+}
+
+/**
+ * Device code table stream - pushes status changes to connected devices
+ */
+export async function streamHandler(event: DynamoDBStreamEvent): Promise<void> {
+  return handleDeviceStatusStream(event);
+}
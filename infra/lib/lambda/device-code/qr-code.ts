@@ -0,0 +1,38 @@
+import * as QRCode from 'qrcode';
+import { VerificationQrCode } from '@thesafezone/idp-common';
+
+/**
+ * QR Codes for verification_uri_complete
+ *
+ * Typing a user code in VR is awkward, so devices may ask for a QR code of
+ * verification_uri_complete to display instead (RFC 8628 Section 3.3.1).
+ * Rendered in the Lambda by the bundled qrcode library - no network calls.
+ */
+
+const QR_OPTIONS = {
+  errorCorrectionLevel: 'M',    // Survives a little glare or blur on a headset display
+  margin: 4,                    // Quiet zone required by the QR spec
+} as const;
+
+const PNG_WIDTH_PIXELS = 256;
+
+/**
+ * Renders a URI as a QR code in both SVG and PNG form
+ */
+export async function renderVerificationQrCode(uri: string): Promise<VerificationQrCode> {
+  const [svg, png] = await Promise.all([
+    QRCode.toString(uri, { ...QR_OPTIONS, type: 'svg' }),
+    QRCode.toDataURL(uri, { ...QR_OPTIONS, type: 'image/png', width: PNG_WIDTH_PIXELS }),
+  ]);
+  return { svg, png };
+}
+
+/**
+ * Parses the optional qr_code request parameter ("true" or "false")
+ * @returns whether a QR code was requested, or null if the value is invalid
+ */
+export function parseQrCodeParam(value: string | undefined): boolean | null {
+  if (value === undefined || value === 'false') return false;
+  if (value === 'true') return true;
+  return null;
+}
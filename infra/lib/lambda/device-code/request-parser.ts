@@ -0,0 +1,237 @@
+import { APIGatewayProxyEvent } from 'aws-lambda';
+
+/**
+ * Request Parser
+ *
+ * Content-type negotiation for the Device Code API. RFC 8628 clients send
+ * application/x-www-form-urlencoded bodies (RFC 6749 Appendix B), while the
+ * Login UI sends JSON. Both are parsed into a flat map of string parameters.
+ */
+
+const FORM_CONTENT_TYPE = 'application/x-www-form-urlencoded';
+const JSON_CONTENT_TYPE = 'application/json';
+
+/**
+ * Flat map of request parameters
+ */
+export type RequestParams = Record<string, string>;
+
+/**
+ * Result of parsing a request body
+ */
+export type ParseResult =
+  | { ok: true; params: RequestParams }
+  | { ok: false; errorDescription: string };
+
+/**
+ * Client credentials from an HTTP Basic Authorization header (RFC 6749 Section 2.3.1)
+ */
+export interface ClientCredentials {
+  clientId: string;
+  clientSecret: string;
+}
+
+/**
+ * Result of resolving the client_id of a request
+ */
+export type ClientIdResult =
+  | { ok: true; clientId?: string }
+  | { ok: false; error: 'invalid_request' | 'invalid_client'; errorDescription: string };
+
+/**
+ * Gets a header value by name (API Gateway preserves the client's casing)
+ */
+export function getHeader(event: Pick<APIGatewayProxyEvent, 'headers'>, name: string): string | undefined {
+  const headers = event.headers || {};
+  const lowerName = name.toLowerCase();
+  for (const key of Object.keys(headers)) {
+    if (key.toLowerCase() === lowerName) {
+      return headers[key] ?? undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parses the request body according to its Content-Type
+ *
+ * - application/x-www-form-urlencoded: RFC 6749 form parameters
+ * - application/json (or no Content-Type): JSON object with string values
+ * - anything else: rejected
+ *
+ * Base64-encoded bodies (event.isBase64Encoded) are decoded first.
+ */
+export function parseRequestBody(event: APIGatewayProxyEvent): ParseResult {
+  if (!event.body) {
+    return { ok: false, errorDescription: 'Request body is required' };
+  }
+
+  const body = event.isBase64Encoded
+    ? Buffer.from(event.body, 'base64').toString('utf-8')
+    : event.body;
+
+  const contentType = getMediaType(getHeader(event, 'Content-Type'));
+
+  if (contentType === FORM_CONTENT_TYPE) {
+    return parseFormBody(body);
+  }
+
+  // JSON is the default for clients that omit Content-Type
+  if (contentType === JSON_CONTENT_TYPE || contentType === undefined) {
+    return parseJsonBody(body);
+  }
+
+  return {
+    ok: false,
+    errorDescription: `Unsupported Content-Type: ${contentType}. ` +
+      `Use ${FORM_CONTENT_TYPE} or ${JSON_CONTENT_TYPE}`,
+  };
+}
+
+/**
+ * Parses HTTP Basic client credentials from the Authorization header
+ * @returns credentials, null if no Basic header is present, or 'malformed'
+ */
+export function parseBasicAuth(event: APIGatewayProxyEvent): ClientCredentials | null | 'malformed' {
+  const authorization = getHeader(event, 'Authorization');
+  if (!authorization) return null;
+
+  const match = /^Basic\s+([A-Za-z0-9+/=]+)\s*$/i.exec(authorization);
+  if (!match) {
+    // Other schemes (e.g. Bearer) are not client authentication
+    return /^Basic\b/i.test(authorization) ? 'malformed' : null;
+  }
+
+  const decoded = Buffer.from(match[1], 'base64').toString('utf-8');
+  const separator = decoded.indexOf(':');
+  if (separator === -1) return 'malformed';
+
+  try {
+    // Credentials are form-urlencoded before base64 encoding (RFC 6749 Section 2.3.1)
+    return {
+      clientId: decodeFormComponent(decoded.slice(0, separator)),
+      clientSecret: decodeFormComponent(decoded.slice(separator + 1)),
+    };
+  } catch {
+    return 'malformed';
+  }
+}
+
+/**
+ * Extracts a Bearer token from the Authorization header (RFC 6750 Section 2.1)
+ */
+export function getBearerToken(event: APIGatewayProxyEvent): string | undefined {
+  const authorization = getHeader(event, 'Authorization');
+  const match = authorization ? /^Bearer\s+(\S+)\s*$/i.exec(authorization) : null;
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Resolves the client_id from HTTP Basic authentication and/or the request body
+ *
+ * All device clients are public, so a client secret sent via Basic auth is
+ * accepted but not verified. If both sources are present they must agree.
+ */
+export function resolveClientId(event: APIGatewayProxyEvent, params: RequestParams): ClientIdResult {
+  const credentials = parseBasicAuth(event);
+
+  if (credentials === 'malformed') {
+    return { ok: false, error: 'invalid_client', errorDescription: 'Malformed Basic Authorization header' };
+  }
+
+  if (!credentials) {
+    return { ok: true, clientId: params.client_id };
+  }
+
+  if (params.client_id && params.client_id !== credentials.clientId) {
+    return {
+      ok: false,
+      error: 'invalid_request',
+      errorDescription: 'client_id does not match the Authorization header',
+    };
+  }
+
+  return { ok: true, clientId: credentials.clientId };
+}
+
+/**
+ * Extracts the lowercase media type from a Content-Type header value
+ */
+function getMediaType(contentType: string | undefined): string | undefined {
+  if (!contentType) return undefined;
+  const mediaType = contentType.split(';')[0].trim().toLowerCase();
+  return mediaType || undefined;
+}
+
+/**
+ * Parses a form-urlencoded body. Parameters must not repeat (RFC 6749 Section 3.2).
+ */
+function parseFormBody(body: string): ParseResult {
+  const params = createParams();
+
+  for (const pair of body.split('&')) {
+    if (!pair) continue;
+
+    const separator = pair.indexOf('=');
+    const rawName = separator === -1 ? pair : pair.slice(0, separator);
+    const rawValue = separator === -1 ? '' : pair.slice(separator + 1);
+
+    let name: string;
+    let value: string;
+    try {
+      name = decodeFormComponent(rawName);
+      value = decodeFormComponent(rawValue);
+    } catch {
+      return { ok: false, errorDescription: 'Invalid form encoding in request body' };
+    }
+
+    if (Object.prototype.hasOwnProperty.call(params, name)) {
+      return { ok: false, errorDescription: `Parameter ${name} must not be repeated` };
+    }
+    params[name] = value;
+  }
+
+  return { ok: true, params };
+}
+
+/**
+ * Parses a JSON object body whose values are strings
+ */
+function parseJsonBody(body: string): ParseResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return { ok: false, errorDescription: 'Invalid JSON in request body' };
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { ok: false, errorDescription: 'Request body must be a JSON object' };
+  }
+
+  const params = createParams();
+  for (const [name, value] of Object.entries(parsed)) {
+    if (value === null || value === undefined) continue;
+    if (typeof value !== 'string') {
+      return { ok: false, errorDescription: `Parameter ${name} must be a string` };
+    }
+    params[name] = value;
+  }
+
+  return { ok: true, params };
+}
+
+/**
+ * Creates an empty parameter map without a prototype, so names such as
+ * __proto__ are stored as ordinary parameters
+ */
+function createParams(): RequestParams {
+  return Object.create(null) as RequestParams;
+}
+
+/**
+ * Decodes a form-urlencoded component ('+' is a space)
+ */
+function decodeFormComponent(component: string): string {
+  return decodeURIComponent(component.replace(/\+/g, ' '));
+}
@@ -0,0 +1,176 @@
+import { APIGatewayProxyEvent, APIGatewayProxyEventV2, APIGatewayProxyResult } from 'aws-lambda';
+import { OAuthErrorCode } from '@thesafezone/idp-common';
+
+/**
+ * HTTP Router
+ *
+ * Routes requests to the Device Code API handlers whatever fronts the Lambda:
+ * - REST API (payload format 1.0), also behind custom domain base path mappings
+ * - HTTP API or a Lambda function URL (payload format 2.0)
+ *
+ * Payload 2.0 events are normalized to the 1.0 shape the handlers take.
+ * Routes are matched on the path below the API: the stage of an HTTP API
+ * named stage and configured base paths (DEVICE_API_BASE_PATHS) are stripped
+ * first. Handlers see that path as event.path; requestContext.path keeps the
+ * path as requested.
+ */
+
+export type HttpEvent = APIGatewayProxyEvent | APIGatewayProxyEventV2;
+
+export type RouteHandler = (event: APIGatewayProxyEvent, params: string[]) => Promise<APIGatewayProxyResult>;
+
+export interface Route {
+  method: string;
+  path: string | RegExp;        // Exact path, or a pattern whose groups are passed as params
+  handler: RouteHandler;
+}
+
+/**
+ * Creates a handler that routes events to the first matching route
+ * Unknown paths get 404; known paths with another method get 405 with an
+ * Allow header listing the methods the path supports.
+ *
+ * @param basePaths - Prefixes the API may be mounted under, e.g. /auth
+ */
+export function createRouter(
+  routes: Route[],
+  basePaths: string[] = getBasePaths()
+): (event: HttpEvent) => Promise<APIGatewayProxyResult> {
+  return async (input) => {
+    const normalized = normalizeEvent(input);
+    const path = stripBasePath(normalized.path, basePaths);
+    const method = normalized.httpMethod;
+    const event: APIGatewayProxyEvent = { ...normalized, path };
+
+    console.log(`Received ${method} ${path}`);
+
+    const allowed: string[] = [];
+    for (const route of routes) {
+      const params = matchPath(route.path, path);
+      if (!params) continue;
+
+      if (route.method === method) {
+        return route.handler(event, params);
+      }
+      allowed.push(route.method);
+    }
+
+    if (allowed.length > 0) {
+      return errorResponse(405, 'invalid_request', `Method ${method} is not allowed for ${path}`, {
+        Allow: Array.from(new Set(allowed)).join(', '),
+      });
+    }
+
+    return errorResponse(404, 'not_found', `Unknown endpoint: ${method} ${path}`);
+  };
+}
+
+/**
+ * Converts a payload format 2.0 event (HTTP API, function URL) to the 1.0
+ * shape; 1.0 events are returned as they are
+ *
+ * HTTP APIs put named stages in the path, so the stage is stripped from it.
+ */
+export function normalizeEvent(event: HttpEvent): APIGatewayProxyEvent {
+  if (!isPayloadV2(event)) return event;
+
+  const { http, domainName, stage, requestId, timeEpoch } = event.requestContext;
+  const stagePrefix = stage && stage !== '$default' ? `/${stage}` : '';
+  const path = stripPrefix(event.rawPath, stagePrefix) ?? event.rawPath;
+
+  const headers: Record<string, string | undefined> = { ...event.headers };
+  if (event.cookies?.length) {
+    headers.cookie = event.cookies.join('; ');
+  }
+
+  return {
+    resource: event.routeKey,
+    path,
+    httpMethod: http.method,
+    headers,
+    multiValueHeaders: {},
+    queryStringParameters: event.queryStringParameters ?? null,
+    multiValueQueryStringParameters: null,
+    pathParameters: event.pathParameters ?? null,
+    stageVariables: event.stageVariables ?? null,
+    body: event.body ?? null,
+    isBase64Encoded: event.isBase64Encoded,
+    requestContext: {
+      domainName,
+      stage,
+      requestId,
+      requestTimeEpoch: timeEpoch,
+      path: event.rawPath,
+      httpMethod: http.method,
+      identity: { sourceIp: http.sourceIp, userAgent: http.userAgent },
+    } as unknown as APIGatewayProxyEvent['requestContext'],
+  };
+}
+
+function isPayloadV2(event: HttpEvent): event is APIGatewayProxyEventV2 {
+  return (event as APIGatewayProxyEventV2).version === '2.0';
+}
+
+/**
+ * Returns the base paths from DEVICE_API_BASE_PATHS (comma-separated)
+ */
+export function getBasePaths(): string[] {
+  return (process.env.DEVICE_API_BASE_PATHS || '')
+    .split(',')
+    .map((basePath) => basePath.trim().replace(/^\/*/, '/').replace(/\/+$/, ''))
+    .filter((basePath) => basePath !== '');
+}
+
+/**
+ * Strips the longest base path the path is under
+ */
+function stripBasePath(path: string, basePaths: string[]): string {
+  let stripped = path;
+  for (const basePath of basePaths) {
+    const rest = stripPrefix(path, basePath);
+    if (rest !== null && rest.length < stripped.length) {
+      stripped = rest;
+    }
+  }
+  return stripped;
+}
+
+/**
+ * Strips a path prefix, only at a segment boundary
+ * @returns the rest of the path, or null if the path is not under the prefix
+ */
+function stripPrefix(path: string, prefix: string): string | null {
+  if (prefix === '') return path;
+  if (path === prefix) return '/';
+  return path.startsWith(`${prefix}/`) ? path.slice(prefix.length) : null;
+}
+
+function matchPath(pattern: string | RegExp, path: string): string[] | null {
+  if (typeof pattern === 'string') {
+    return pattern === path ? [] : null;
+  }
+  const match = pattern.exec(path);
+  return match ? match.slice(1) : null;
+}
+
+/**
+ * Creates an error response for requests no route takes
+ */
+function errorResponse(
+  statusCode: number,
+  error: OAuthErrorCode,
+  errorDescription: string,
+  headers: Record<string, string> = {}
+): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers,
+    },
+    body: JSON.stringify({
+      error,
+      error_description: errorDescription,
+    }),
+  };
+}
@@ -0,0 +1,234 @@
+import * as crypto from 'crypto';
+import { KMSClient, GenerateDataKeyCommand, DecryptCommand } from '@aws-sdk/client-kms';
+import { DeviceTokens, EncryptedTokens } from './types';
+
+/**
+ * Token Encryption
+ *
+ * Envelope encryption for the tokens relayed to a device and the refresh
+ * tokens kept to revoke signed-in devices. Each record gets a fresh AES-256
+ * data key from the encryption provider (KMS in Lambda); the tokens are
+ * encrypted locally with AES-256-GCM and only the wrapped data key is stored
+ * next to the ciphertext. The record's key (device code, or user and device
+ * ID) is bound to both layers as encryption context / additional
+ * authenticated data, so ciphertext cannot be moved to another record.
+ */
+
+const DATA_KEY_BYTES = 32;   // AES-256
+const IV_BYTES = 12;         // 96-bit GCM nonce
+
+/**
+ * Source of data keys for envelope encryption
+ */
+export interface TokenEncryptionProvider {
+  /** Generates a data key, returning it in plaintext and wrapped form */
+  generateDataKey(context: Record<string, string>): Promise<{ plaintextKey: Buffer; encryptedKey: Buffer }>;
+  /** Unwraps a data key produced by generateDataKey */
+  decryptDataKey(encryptedKey: Buffer, context: Record<string, string>): Promise<Buffer>;
+}
+
+/**
+ * Creates a provider backed by a KMS key
+ */
+export function createKmsEncryptionProvider(keyId: string, kms = new KMSClient({})): TokenEncryptionProvider {
+  return {
+    async generateDataKey(context) {
+      const result = await kms.send(new GenerateDataKeyCommand({
+        KeyId: keyId,
+        KeySpec: 'AES_256',
+        EncryptionContext: context,
+      }));
+      if (!result.Plaintext || !result.CiphertextBlob) {
+        throw new Error('KMS GenerateDataKey returned no key material');
+      }
+      return {
+        plaintextKey: Buffer.from(result.Plaintext),
+        encryptedKey: Buffer.from(result.CiphertextBlob),
+      };
+    },
+
+    async decryptDataKey(encryptedKey, context) {
+      const result = await kms.send(new DecryptCommand({
+        KeyId: keyId,
+        CiphertextBlob: encryptedKey,
+        EncryptionContext: context,
+      }));
+      if (!result.Plaintext) {
+        throw new Error('KMS Decrypt returned no key material');
+      }
+      return Buffer.from(result.Plaintext);
+    },
+  };
+}
+
+/**
+ * Creates a provider that wraps data keys with a local AES-256 key
+ * For tests and local development only - never use in a deployed Lambda.
+ */
+export function createLocalEncryptionProvider(masterKey: Buffer): TokenEncryptionProvider {
+  if (masterKey.length !== DATA_KEY_BYTES) {
+    throw new Error(`Local master key must be ${DATA_KEY_BYTES} bytes`);
+  }
+
+  return {
+    async generateDataKey(context) {
+      const plaintextKey = crypto.randomBytes(DATA_KEY_BYTES);
+      return { plaintextKey, encryptedKey: seal(masterKey, plaintextKey, contextToAad(context)) };
+    },
+
+    async decryptDataKey(encryptedKey, context) {
+      return open(masterKey, encryptedKey, contextToAad(context));
+    },
+  };
+}
+
+let provider: TokenEncryptionProvider | null = null;
+
+/**
+ * Returns the configured encryption provider (KMS key from TOKEN_ENCRYPTION_KEY_ID)
+ */
+export function getTokenEncryptionProvider(): TokenEncryptionProvider {
+  if (!provider) {
+    const keyId = process.env.TOKEN_ENCRYPTION_KEY_ID;
+    if (!keyId) {
+      throw new Error('Token encryption not configured - missing TOKEN_ENCRYPTION_KEY_ID');
+    }
+    provider = createKmsEncryptionProvider(keyId);
+  }
+  return provider;
+}
+
+/**
+ * Overrides the encryption provider (e.g. a local fake key in tests)
+ */
+export function setTokenEncryptionProvider(override: TokenEncryptionProvider | null): void {
+  provider = override;
+}
+
+/**
+ * Encrypts the tokens relayed for a device code
+ */
+export async function encryptTokens(
+  tokens: DeviceTokens,
+  deviceCode: string,
+  encryptionProvider: TokenEncryptionProvider = getTokenEncryptionProvider()
+): Promise<EncryptedTokens> {
+  return encryptJson(tokens, { deviceCode }, encryptionProvider);
+}
+
+/**
+ * Decrypts the tokens relayed for a device code
+ * Throws if the ciphertext was tampered with or belongs to another record.
+ */
+export async function decryptTokens(
+  encrypted: EncryptedTokens,
+  deviceCode: string,
+  encryptionProvider: TokenEncryptionProvider = getTokenEncryptionProvider()
+): Promise<DeviceTokens> {
+  return decryptJson(encrypted, { deviceCode }, encryptionProvider) as Promise<DeviceTokens>;
+}
+
+/**
+ * Encrypts the refresh token kept for a user's signed-in device
+ */
+export async function encryptRefreshToken(
+  refreshToken: string,
+  userId: string,
+  deviceId: string,
+  encryptionProvider: TokenEncryptionProvider = getTokenEncryptionProvider()
+): Promise<EncryptedTokens> {
+  return encryptJson(refreshToken, { userId, deviceId }, encryptionProvider);
+}
+
+/**
+ * Decrypts the refresh token kept for a user's signed-in device
+ * Throws if the ciphertext was tampered with or belongs to another device.
+ */
+export async function decryptRefreshToken(
+  encrypted: EncryptedTokens,
+  userId: string,
+  deviceId: string,
+  encryptionProvider: TokenEncryptionProvider = getTokenEncryptionProvider()
+): Promise<string> {
+  return decryptJson(encrypted, { userId, deviceId }, encryptionProvider) as Promise<string>;
+}
+
+/**
+ * Envelope-encrypts a JSON value under a fresh data key bound to `context`
+ */
+async function encryptJson(
+  value: unknown,
+  context: Record<string, string>,
+  encryptionProvider: TokenEncryptionProvider
+): Promise<EncryptedTokens> {
+  const { plaintextKey, encryptedKey } = await encryptionProvider.generateDataKey(context);
+
+  try {
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv('aes-256-gcm', plaintextKey, iv);
+    cipher.setAAD(contextToAad(context));
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(value), 'utf-8'), cipher.final()]);
+
+    return {
+      encryptedKey,
+      iv,
+      ciphertext,
+      authTag: cipher.getAuthTag(),
+    };
+  } finally {
+    plaintextKey.fill(0);
+  }
+}
+
+/**
+ * Reverses encryptJson()
+ */
+async function decryptJson(
+  encrypted: EncryptedTokens,
+  context: Record<string, string>,
+  encryptionProvider: TokenEncryptionProvider
+): Promise<unknown> {
+  const plaintextKey = await encryptionProvider.decryptDataKey(encrypted.encryptedKey, context);
+
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', plaintextKey, encrypted.iv);
+    decipher.setAAD(contextToAad(context));
+    decipher.setAuthTag(encrypted.authTag);
+    const plaintext = Buffer.concat([decipher.update(encrypted.ciphertext), decipher.final()]);
+    return JSON.parse(plaintext.toString('utf-8'));
+  } finally {
+    plaintextKey.fill(0);
+  }
+}
+
+/**
+ * Serializes an encryption context deterministically for use as GCM AAD
+ */
+function contextToAad(context: Record<string, string>): Buffer {
+  const sorted = Object.keys(context).sort().map((key) => [key, context[key]]);
+  return Buffer.from(JSON.stringify(sorted), 'utf-8');
+}
+
+/**
+ * AES-256-GCM encrypts data as iv || authTag || ciphertext
+ */
+function seal(key: Buffer, data: Buffer, aad: Buffer): Buffer {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(aad);
+  const ciphertext = Buffer.concat([cipher.update(data), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+/**
+ * Reverses seal()
+ */
+function open(key: Buffer, sealed: Buffer, aad: Buffer): Buffer {
+  const iv = sealed.subarray(0, IV_BYTES);
+  const authTag = sealed.subarray(IV_BYTES, IV_BYTES + 16);
+  const ciphertext = sealed.subarray(IV_BYTES + 16);
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAAD(aad);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
@@ -0,0 +1,107 @@
+import {
+  CognitoIdentityProviderClient,
+  AdminInitiateAuthCommand,
+  AdminRespondToAuthChallengeCommand,
+} from '@aws-sdk/client-cognito-identity-provider';
+import { createDeviceAssertion } from './device-assertion';
+import { DeviceTokens } from './types';
+
+/**
+ * Token Minting
+ *
+ * Issues tokens for the device client itself, rather than relaying the Login
+ * UI's tokens. Starts a Cognito custom-auth flow server-side for the user who
+ * authorized the device and answers the challenge with a signed device
+ * assertion (see device-assertion.ts and the device-auth-challenge triggers).
+ * The resulting tokens carry the device client's client_id/aud, and their
+ * lifetimes and refresh rotation follow that client's settings.
+ *
+ * Custom auth alone issues access tokens with the aws.cognito.signin.user.admin
+ * scope only. The assertion is also passed as client metadata, so the pre
+ * token generation trigger can replace it with the scope the user granted.
+ */
+
+/**
+ * Issues tokens for a device client on behalf of a user
+ */
+export interface TokenMinter {
+  mint(clientId: string, username: string, deviceCode: string, scope: string): Promise<DeviceTokens>;
+}
+
+/**
+ * Creates a minter that uses Cognito custom auth in `userPoolId`
+ */
+export function createCognitoTokenMinter(
+  userPoolId: string,
+  client = new CognitoIdentityProviderClient({})
+): TokenMinter {
+  return {
+    /**
+     * Mints tokens for `clientId` on behalf of the Cognito user `username`,
+     * with access tokens limited to `scope`
+     */
+    async mint(clientId, username, deviceCode, scope) {
+      const initiated = await client.send(new AdminInitiateAuthCommand({
+        UserPoolId: userPoolId,
+        ClientId: clientId,
+        AuthFlow: 'CUSTOM_AUTH',
+        AuthParameters: {
+          USERNAME: username,
+        },
+      }));
+
+      if (initiated.ChallengeName !== 'CUSTOM_CHALLENGE' || !initiated.Session) {
+        throw new Error(`Unexpected custom auth challenge: ${initiated.ChallengeName}`);
+      }
+
+      // Cognito resolves aliases to the canonical username seen by the triggers
+      const challengeUsername = initiated.ChallengeParameters?.USERNAME || username;
+      const assertion = await createDeviceAssertion(challengeUsername, deviceCode, scope);
+
+      const responded = await client.send(new AdminRespondToAuthChallengeCommand({
+        UserPoolId: userPoolId,
+        ClientId: clientId,
+        ChallengeName: 'CUSTOM_CHALLENGE',
+        Session: initiated.Session,
+        ChallengeResponses: {
+          USERNAME: challengeUsername,
+          ANSWER: assertion,
+        },
+        ClientMetadata: {
+          deviceAssertion: assertion,
+        },
+      }));
+
+      const result = responded.AuthenticationResult;
+      if (!result?.AccessToken || !result.IdToken || !result.RefreshToken) {
+        throw new Error('Custom auth did not return tokens');
+      }
+
+      return {
+        accessToken: result.AccessToken,
+        idToken: result.IdToken,
+        refreshToken: result.RefreshToken,
+        expiresIn: result.ExpiresIn ?? 3600,
+      };
+    },
+  };
+}
+
+let minter: TokenMinter | null = null;
+
+/**
+ * Returns the configured minter (user pool from USER_POOL_ID)
+ */
+export function getTokenMinter(): TokenMinter {
+  if (!minter) {
+    minter = createCognitoTokenMinter(process.env.USER_POOL_ID || '');
+  }
+  return minter;
+}
+
+/**
+ * Overrides the minter (e.g. a fake minter in tests)
+ */
+export function setTokenMinter(override: TokenMinter | null): void {
+  minter = override;
+}
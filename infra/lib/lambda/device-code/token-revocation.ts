@@ -0,0 +1,49 @@
+import { CognitoIdentityProviderClient, RevokeTokenCommand } from '@aws-sdk/client-cognito-identity-provider';
+
+/**
+ * Token Revocation
+ *
+ * Signs a device out by revoking its refresh token with Cognito, which also
+ * invalidates the access and ID tokens issued from it. Device clients are
+ * public clients with token revocation enabled, so no client secret is needed.
+ */
+
+/**
+ * Revokes a device client's refresh token
+ */
+export interface TokenRevoker {
+  revoke(clientId: string, refreshToken: string): Promise<void>;
+}
+
+/**
+ * Creates a revoker that calls Cognito RevokeToken
+ */
+export function createCognitoTokenRevoker(client = new CognitoIdentityProviderClient({})): TokenRevoker {
+  return {
+    async revoke(clientId, refreshToken) {
+      await client.send(new RevokeTokenCommand({
+        ClientId: clientId,
+        Token: refreshToken,
+      }));
+    },
+  };
+}
+
+let revoker: TokenRevoker | null = null;
+
+/**
+ * Returns the configured revoker
+ */
+export function getTokenRevoker(): TokenRevoker {
+  if (!revoker) {
+    revoker = createCognitoTokenRevoker();
+  }
+  return revoker;
+}
+
+/**
+ * Overrides the revoker (e.g. a fake revoker in tests)
+ */
+export function setTokenRevoker(override: TokenRevoker | null): void {
+  revoker = override;
+}
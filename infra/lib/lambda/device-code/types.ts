@@ -2,13 +2,36 @@
  * Device Code Flow Types (RFC 8628)
  * 
  * These types define the data structures for the Device Code Flow
- * implementation for VR client authentication.
+ * implementation for VR client authentication. Request and response bodies
+ * of the Device Code API are shared with the Login UI in
+ * @thesafezone/idp-common.
  */
 
 /**
  * Status of a device code authorization request
+ * See device-code-state.ts for the allowed transitions.
  */
-export type DeviceCodeStatus = 'pending' | 'authorized' | 'denied' | 'expired';
+export type DeviceCodeStatus = 'pending' | 'authorized' | 'denied' | 'expired' | 'consumed';
+
+/**
+ * Tokens minted for the device client once the user authorizes it
+ */
+export interface DeviceTokens {
+  accessToken: string;
+  idToken: string;
+  refreshToken: string;
+  expiresIn: number;            // Access token lifetime in seconds
+}
+
+/**
+ * Envelope-encrypted DeviceTokens (see token-encryption.ts)
+ */
+export interface EncryptedTokens {
+  encryptedKey: Buffer;         // Data key wrapped by KMS
+  iv: Buffer;                   // AES-GCM nonce
+  ciphertext: Buffer;           // AES-256-GCM encrypted JSON tokens
+  authTag: Buffer;              // AES-GCM authentication tag
+}
 
 /**
  * Device Code record stored in DynamoDB
@@ -19,34 +42,34 @@ export interface DeviceCodeRecord {
   clientId: string;             // Client application ID
   scope: string;                // Requested OAuth scopes
   expiresAt: number;            // Unix timestamp when code expires
-  interval: number;             // Polling interval in seconds
+  interval: number;             // Polling interval in seconds (raised on slow_down)
+  lastPolledAt?: number;        // Unix timestamp of the last token poll
+  failedAttempts?: number;      // Rejected user-facing requests naming this code
   status: DeviceCodeStatus;     // Current authorization status
   userId?: string;              // Set when authorized - Cognito user sub
-  tokens?: {                    // Set when authorized
-    accessToken: string;
-    idToken: string;
-    refreshToken: string;
-  };
+  encryptedTokens?: EncryptedTokens; // Set when authorized - decrypted only by /device/token
   ttl: number;                  // DynamoDB TTL attribute
   createdAt: number;            // Unix timestamp of creation
+  deviceName?: string;          // Self-reported device details (see device-metadata.ts)
+  deviceModel?: string;
+  appVersion?: string;
 }
 
 /**
- * Request body for POST /device/code
- */
-export interface DeviceCodeRequest {
-  client_id: string;
-  scope?: string;
-}
-
-/**
- * Response body for POST /device/code (RFC 8628 Section 3.2)
+ * A device a user signed in with the device flow, stored in the user devices table
+ * See user-device-registry.ts.
  */
-export interface DeviceCodeResponse {
-  device_code: string;
-  user_code: string;
-  verification_uri: string;
-  verification_uri_complete?: string;
-  expires_in: number;
-  interval: number;
+export interface UserDevice {
+  userId: string;               // Partition key - Cognito user sub
+  deviceId: string;             // Sort key - derived from the device code it signed in with
+  clientId: string;             // Device client the tokens were minted for
+  scope?: string;               // Scopes granted to the device (absent on entries written before scopes were kept)
+  deviceName?: string;          // Self-reported device details (see device-metadata.ts)
+  deviceModel?: string;
+  appVersion?: string;
+  firstSeenAt: number;          // Unix timestamp the device requested its code
+  signedInAt: number;           // Unix timestamp the device collected its tokens
+  lastSeenAt?: number;          // Unix timestamp the device last refreshed its tokens, if known (see device-auth-challenge)
+  encryptedRefreshToken: EncryptedTokens; // Decrypted only to revoke it
+  ttl?: number;                 // DynamoDB TTL attribute - when the refresh token expires
 }
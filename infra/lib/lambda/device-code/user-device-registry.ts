@@ -0,0 +1,325 @@
+import * as crypto from 'crypto';
+import {
+  DynamoDBClient,
+  PutItemCommand,
+  GetItemCommand,
+  DeleteItemCommand,
+  QueryCommand,
+  UpdateItemCommand,
+  AttributeValue,
+  ConditionalCheckFailedException,
+} from '@aws-sdk/client-dynamodb';
+import { DeviceCodeRecord, UserDevice } from './types';
+import { mapEncryptedTokensToItem, mapItemToEncryptedTokens } from './dynamodb-client';
+import { getDeviceClient } from './client-registry';
+import { encryptRefreshToken } from './token-encryption';
+
+/**
+ * User Device Registry
+ *
+ * Keeps a trace of every device a user signs in with the device flow, so
+ * users can list their devices (GET /devices) and sign one out
+ * (DELETE /devices/{id}). An entry is written when the device collects its
+ * tokens and holds the device's refresh token, envelope-encrypted, to revoke
+ * it with Cognito. Entries expire with the refresh token if the client's
+ * refresh token validity is known (see client-registry.ts). The scope the
+ * device was granted is kept for its refreshed access tokens (see the
+ * device-auth-challenge pre token generation trigger), which also records
+ * when a device was last seen refreshing them.
+ */
+
+const DEVICE_METADATA_FIELDS = ['deviceName', 'deviceModel', 'appVersion'] as const;
+
+/**
+ * Persistence for user devices, keyed by user and device ID
+ */
+export interface UserDeviceRegistry {
+  /** Stores a device, replacing an entry with the same user and device ID */
+  put(device: UserDevice): Promise<void>;
+
+  /** Retrieves a user's device */
+  get(userId: string, deviceId: string): Promise<UserDevice | null>;
+
+  /** Lists a user's devices */
+  list(userId: string): Promise<UserDevice[]>;
+
+  /** Removes a user's device */
+  delete(userId: string, deviceId: string): Promise<void>;
+
+  /** Records when a device was last seen - ignored if the device is gone */
+  touch(userId: string, deviceId: string, lastSeenAt: number): Promise<void>;
+}
+
+/**
+ * Creates a registry backed by the user devices DynamoDB table
+ * TTL deletion lags behind, so expired items are filtered out on read.
+ */
+export function createDynamoDbUserDeviceRegistry(
+  tableName: string,
+  client = new DynamoDBClient({})
+): UserDeviceRegistry {
+  return {
+    async put(device) {
+      await client.send(new PutItemCommand({
+        TableName: tableName,
+        Item: mapDeviceToItem(device),
+      }));
+    },
+
+    async get(userId, deviceId) {
+      const result = await client.send(new GetItemCommand({
+        TableName: tableName,
+        Key: {
+          userId: { S: userId },
+          deviceId: { S: deviceId },
+        },
+      }));
+
+      if (!result.Item) return null;
+      const device = mapItemToDevice(result.Item);
+      return isLive(device) ? device : null;
+    },
+
+    async list(userId) {
+      const devices: UserDevice[] = [];
+      let exclusiveStartKey: Record<string, AttributeValue> | undefined;
+
+      do {
+        const result = await client.send(new QueryCommand({
+          TableName: tableName,
+          KeyConditionExpression: 'userId = :userId',
+          ExpressionAttributeValues: {
+            ':userId': { S: userId },
+          },
+          ExclusiveStartKey: exclusiveStartKey,
+        }));
+        devices.push(...(result.Items ?? []).map(mapItemToDevice));
+        exclusiveStartKey = result.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      return devices.filter(isLive);
+    },
+
+    async delete(userId, deviceId) {
+      await client.send(new DeleteItemCommand({
+        TableName: tableName,
+        Key: {
+          userId: { S: userId },
+          deviceId: { S: deviceId },
+        },
+      }));
+    },
+
+    async touch(userId, deviceId, lastSeenAt) {
+      try {
+        await client.send(new UpdateItemCommand({
+          TableName: tableName,
+          Key: {
+            userId: { S: userId },
+            deviceId: { S: deviceId },
+          },
+          // Don't bring back a device that was signed out meanwhile
+          ConditionExpression: 'attribute_exists(deviceId)',
+          UpdateExpression: 'SET lastSeenAt = :lastSeenAt',
+          ExpressionAttributeValues: {
+            ':lastSeenAt': { N: lastSeenAt.toString() },
+          },
+        }));
+      } catch (error) {
+        if (!(error instanceof ConditionalCheckFailedException)) throw error;
+      }
+    },
+  };
+}
+
+/**
+ * Creates a registry that keeps user devices in memory
+ * For tests and local development only - state is lost with the process.
+ *
+ * @param clock - Returns the current Unix timestamp (injectable for tests)
+ */
+export function createInMemoryUserDeviceRegistry(
+  clock: () => number = () => Math.floor(Date.now() / 1000)
+): UserDeviceRegistry {
+  const devices = new Map<string, UserDevice>();
+  const key = (userId: string, deviceId: string) => `${userId}#${deviceId}`;
+
+  return {
+    async put(device) {
+      devices.set(key(device.userId, device.deviceId), { ...device });
+    },
+
+    async get(userId, deviceId) {
+      const device = devices.get(key(userId, deviceId));
+      return device && isLive(device, clock()) ? { ...device } : null;
+    },
+
+    async list(userId) {
+      return Array.from(devices.values())
+        .filter((device) => device.userId === userId && isLive(device, clock()))
+        .map((device) => ({ ...device }));
+    },
+
+    async delete(userId, deviceId) {
+      devices.delete(key(userId, deviceId));
+    },
+
+    async touch(userId, deviceId, lastSeenAt) {
+      const device = devices.get(key(userId, deviceId));
+      if (device) {
+        device.lastSeenAt = lastSeenAt;
+      }
+    },
+  };
+}
+
+let registry: UserDeviceRegistry | null = null;
+
+/**
+ * Returns the configured registry (DynamoDB table from USER_DEVICES_TABLE_NAME)
+ */
+export function getUserDeviceRegistry(): UserDeviceRegistry {
+  if (!registry) {
+    registry = createDynamoDbUserDeviceRegistry(process.env.USER_DEVICES_TABLE_NAME || 'thesafezone-user-devices');
+  }
+  return registry;
+}
+
+/**
+ * Overrides the registry (e.g. the in-memory registry in tests)
+ */
+export function setUserDeviceRegistry(override: UserDeviceRegistry | null): void {
+  registry = override;
+}
+
+/**
+ * Derives the ID of the device that signs in with a device code
+ * Stable, so concurrent polls for the same code write the same entry, and
+ * opaque, so it does not reveal the device code.
+ */
+export function getUserDeviceId(deviceCode: string): string {
+  return crypto.createHash('sha256').update(deviceCode).digest('hex').slice(0, 32);
+}
+
+/**
+ * Validates the format of a device ID (see getUserDeviceId)
+ */
+export function isValidUserDeviceId(deviceId: string): boolean {
+  return /^[a-f0-9]{32}$/.test(deviceId);
+}
+
+/**
+ * Records the device that collects the tokens of an authorized device code
+ */
+export async function registerUserDevice(
+  record: DeviceCodeRecord,
+  refreshToken: string,
+  now: number,
+  deviceRegistry: UserDeviceRegistry = getUserDeviceRegistry()
+): Promise<UserDevice> {
+  if (!record.userId) {
+    throw new Error('Authorized device code has no user');
+  }
+
+  const deviceId = getUserDeviceId(record.deviceCode);
+  const refreshTokenValidity = getDeviceClient(record.clientId)?.refreshTokenValidity;
+
+  const device: UserDevice = {
+    userId: record.userId,
+    deviceId,
+    clientId: record.clientId,
+    scope: record.scope,
+    firstSeenAt: record.createdAt,
+    signedInAt: now,
+    encryptedRefreshToken: await encryptRefreshToken(refreshToken, record.userId, deviceId),
+  };
+
+  for (const field of DEVICE_METADATA_FIELDS) {
+    if (record[field]) {
+      device[field] = record[field];
+    }
+  }
+
+  if (refreshTokenValidity) {
+    device.ttl = now + refreshTokenValidity;
+  }
+
+  await deviceRegistry.put(device);
+  return device;
+}
+
+/**
+ * Whether a device's refresh token may still be valid
+ */
+function isLive(device: UserDevice, now = Math.floor(Date.now() / 1000)): boolean {
+  return device.ttl === undefined || device.ttl > now;
+}
+
+/**
+ * Maps a UserDevice to a DynamoDB item
+ */
+function mapDeviceToItem(device: UserDevice): Record<string, AttributeValue> {
+  const item: Record<string, AttributeValue> = {
+    userId: { S: device.userId },
+    deviceId: { S: device.deviceId },
+    clientId: { S: device.clientId },
+    firstSeenAt: { N: device.firstSeenAt.toString() },
+    signedInAt: { N: device.signedInAt.toString() },
+    encryptedRefreshToken: mapEncryptedTokensToItem(device.encryptedRefreshToken),
+  };
+
+  if (device.lastSeenAt !== undefined) {
+    item.lastSeenAt = { N: device.lastSeenAt.toString() };
+  }
+
+  if (device.scope !== undefined) {
+    item.scope = { S: device.scope };
+  }
+
+  for (const field of DEVICE_METADATA_FIELDS) {
+    const value = device[field];
+    if (value) {
+      item[field] = { S: value };
+    }
+  }
+
+  if (device.ttl !== undefined) {
+    item.ttl = { N: device.ttl.toString() };
+  }
+
+  return item;
+}
+
+/**
+ * Maps a DynamoDB item to a UserDevice
+ */
+function mapItemToDevice(item: Record<string, AttributeValue>): UserDevice {
+  const device: UserDevice = {
+    userId: item.userId.S!,
+    deviceId: item.deviceId.S!,
+    clientId: item.clientId.S!,
+    firstSeenAt: parseInt(item.firstSeenAt.N!, 10),
+    signedInAt: parseInt(item.signedInAt.N!, 10),
+    encryptedRefreshToken: mapItemToEncryptedTokens(item.encryptedRefreshToken),
+  };
+
+  if (item.lastSeenAt) {
+    device.lastSeenAt = parseInt(item.lastSeenAt.N!, 10);
+  }
+
+  if (item.scope) {
+    device.scope = item.scope.S;
+  }
+
+  for (const field of DEVICE_METADATA_FIELDS) {
+    if (item[field]) {
+      device[field] = item[field].S;
+    }
+  }
+
+  if (item.ttl) {
+    device.ttl = parseInt(item.ttl.N!, 10);
+  }
+
+  return device;
+}
@@ -0,0 +1,121 @@
+import * as crypto from 'crypto';
+
+/**
+ * Logical IDs resources had before they moved into lib/constructs, by
+ * construct path below the stack
+ *
+ * The stack pins them (overrideLogicalId), so stacks deployed before the move
+ * update in place. Only resources that hold data or identifiers, or whose
+ * replacement would clash with the resource it replaces, are listed; roles,
+ * policies, permissions and log groups are simply replaced. Resources added
+ * after the move keep their default IDs.
+ */
+export const LEGACY_LOGICAL_IDS: Record<string, string> = {
+  // Cognito - replacing these loses users and client IDs, or clashes with the
+  // one-per-pool and one-per-client resources they replace
+  'Identity/UserPool/Resource': 'TheSafeZoneUserPool93A3412E',
+  'Identity/UserPool/WebMobileClient/Resource': 'TheSafeZoneUserPoolWebMobileClientF7E20652',
+  'Identity/UserPool/VRClient/Resource': 'TheSafeZoneUserPoolVRClientD855D436',
+  'Identity/UserPool/SampleClient/Resource': 'TheSafeZoneUserPoolSampleClientE6B719AB',
+  'Identity/UserPool/ArthurClient/Resource': 'TheSafeZoneUserPoolArthurClient8D5508F4',
+  'Identity/UserPool/CognitoDomain/Resource': 'TheSafeZoneUserPoolCognitoDomain6F571346',
+  'Identity/IdentityPool': 'TheSafeZoneIdentityPool',
+  'Identity/IdentityPoolRoleAttachment': 'IdentityPoolRoleAttachment',
+  'Identity/ManagedLoginBranding': 'ManagedLoginBranding',
+  'Identity/SampleClientBranding': 'SampleClientBranding',
+  'Identity/ArthurClientBranding': 'ArthurClientBranding',
+
+  // Device Code tables and keys, and resources with fixed names
+  'DeviceCode/DeviceCodeTable/Resource': 'DeviceCodeTable6DAA765F',
+  'DeviceCode/DeviceAttemptsTable/Resource': 'DeviceAttemptsTableB007D046',
+  'DeviceCode/UserDevicesTable/Resource': 'UserDevicesTable37E851DE',
+  'DeviceCode/DeviceConnectionsTable/Resource': 'DeviceConnectionsTable2FF4589F',
+  'DeviceCode/DeviceTokenKey/Resource': 'DeviceTokenKeyE1DC782A',
+  'DeviceCode/DeviceTokenKey/Alias/Resource': 'DeviceTokenKeyAlias2CF3EDFC',
+  'DeviceCode/DeviceAuthKey/Resource': 'DeviceAuthKey094B1701',
+  'DeviceCode/DeviceAuthKey/Alias/Resource': 'DeviceAuthKeyAlias71DABFDC',
+  'DeviceCode/DeviceAuthChallengeLambda/Resource': 'DeviceAuthChallengeLambda98B5DF3A',
+  'DeviceCode/DeviceCodeLambda/Resource': 'DeviceCodeLambdaF02E99EB',
+  'DeviceCode/DevicePushConnectionLambda/Resource': 'DevicePushConnectionLambdaA389EB2D',
+  'DeviceCode/DeviceStatusStreamLambda/Resource': 'DeviceStatusStreamLambdaC866622E',
+  'DeviceCode/DevicePushApi/Resource': 'DevicePushApiEAD4B551',
+  'DeviceCode/DevicePushApi/$connect-Route/Resource': 'DevicePushApiconnectRouteA6A28267',
+  'DeviceCode/DevicePushApi/$disconnect-Route/Resource': 'DevicePushApidisconnectRouteE14E7FD2',
+  'DeviceCode/DevicePushStage/Resource': 'DevicePushStage8A29B352',
+
+  // REST API - its routes and methods would clash with the ones they replace
+  'DeviceCode/DeviceCodeApi/Resource': 'DeviceCodeApiDF112766',
+  'DeviceCode/DeviceCodeApi/DeploymentStage.v1/Resource': 'DeviceCodeApiDeploymentStagev1937FC33A',
+  'DeviceCode/DeviceCodeApi/DeviceCodeBodyValidator/Resource': 'DeviceCodeApiDeviceCodeBodyValidator745E564A',
+  'DeviceCode/DeviceCodeApi/DeviceCodeParameterValidator/Resource': 'DeviceCodeApiDeviceCodeParameterValidatorA29D6E12',
+  'DeviceCode/DeviceCodeApi/BadRequestBody/Resource': 'DeviceCodeApiBadRequestBody035FE9C6',
+  'DeviceCode/DeviceCodeApi/BadRequestParameters/Resource': 'DeviceCodeApiBadRequestParametersFA3807CE',
+  'DeviceCode/DeviceCodeApi/DeviceCodeRequestModel/Resource': 'DeviceCodeApiDeviceCodeRequestModel6FF916DD',
+  'DeviceCode/DeviceCodeApi/DeviceTokenRequestModel/Resource': 'DeviceCodeApiDeviceTokenRequestModel48353B75',
+  'DeviceCode/DeviceCodeApi/DeviceDecisionRequestModel/Resource': 'DeviceCodeApiDeviceDecisionRequestModel6567A025',
+  'DeviceCode/DeviceCodeApi/Default/OPTIONS/Resource': 'DeviceCodeApiOPTIONSCF7176DC',
+  'DeviceCode/DeviceCodeApi/Default/device/Resource': 'DeviceCodeApideviceE5C995A1',
+  'DeviceCode/DeviceCodeApi/Default/device/OPTIONS/Resource': 'DeviceCodeApideviceOPTIONS3287EB11',
+  'DeviceCode/DeviceCodeApi/Default/device/code/Resource': 'DeviceCodeApidevicecodeF07E3944',
+  'DeviceCode/DeviceCodeApi/Default/device/code/OPTIONS/Resource': 'DeviceCodeApidevicecodeOPTIONS1819DFCD',
+  'DeviceCode/DeviceCodeApi/Default/device/code/POST/Resource': 'DeviceCodeApidevicecodePOST17CA31A0',
+  'DeviceCode/DeviceCodeApi/Default/device/token/Resource': 'DeviceCodeApidevicetokenD475B42C',
+  'DeviceCode/DeviceCodeApi/Default/device/token/OPTIONS/Resource': 'DeviceCodeApidevicetokenOPTIONSA1D7560F',
+  'DeviceCode/DeviceCodeApi/Default/device/token/POST/Resource': 'DeviceCodeApidevicetokenPOST609586E0',
+  'DeviceCode/DeviceCodeApi/Default/device/authorize/Resource': 'DeviceCodeApideviceauthorizeEDAE5620',
+  'DeviceCode/DeviceCodeApi/Default/device/authorize/OPTIONS/Resource': 'DeviceCodeApideviceauthorizeOPTIONSD60E1D9A',
+  'DeviceCode/DeviceCodeApi/Default/device/authorize/POST/Resource': 'DeviceCodeApideviceauthorizePOSTFC20363C',
+  'DeviceCode/DeviceCodeApi/Default/device/deny/Resource': 'DeviceCodeApidevicedeny962579A6',
+  'DeviceCode/DeviceCodeApi/Default/device/deny/OPTIONS/Resource': 'DeviceCodeApidevicedenyOPTIONSA80B0454',
+  'DeviceCode/DeviceCodeApi/Default/device/deny/POST/Resource': 'DeviceCodeApidevicedenyPOST54F8E1C6',
+  'DeviceCode/DeviceCodeApi/Default/device/lookup/Resource': 'DeviceCodeApidevicelookupD61BD5D4',
+  'DeviceCode/DeviceCodeApi/Default/device/lookup/OPTIONS/Resource': 'DeviceCodeApidevicelookupOPTIONS3C139ADF',
+  'DeviceCode/DeviceCodeApi/Default/device/lookup/GET/Resource': 'DeviceCodeApidevicelookupGET6E63FD79',
+  'DeviceCode/DeviceCodeApi/Default/device/user-code-formats/Resource': 'DeviceCodeApideviceusercodeformats3038325B',
+  'DeviceCode/DeviceCodeApi/Default/device/user-code-formats/OPTIONS/Resource': 'DeviceCodeApideviceusercodeformatsOPTIONS3114A66C',
+  'DeviceCode/DeviceCodeApi/Default/device/user-code-formats/GET/Resource': 'DeviceCodeApideviceusercodeformatsGET5E4E9E36',
+  'DeviceCode/DeviceCodeApi/Default/device/openapi.json/Resource': 'DeviceCodeApideviceopenapijsonA611648E',
+  'DeviceCode/DeviceCodeApi/Default/device/openapi.json/OPTIONS/Resource': 'DeviceCodeApideviceopenapijsonOPTIONSE5481252',
+  'DeviceCode/DeviceCodeApi/Default/device/openapi.json/GET/Resource': 'DeviceCodeApideviceopenapijsonGETB72266DD',
+  'DeviceCode/DeviceCodeApi/Default/devices/Resource': 'DeviceCodeApidevicesAA7E1E1B',
+  'DeviceCode/DeviceCodeApi/Default/devices/OPTIONS/Resource': 'DeviceCodeApidevicesOPTIONS39754598',
+  'DeviceCode/DeviceCodeApi/Default/devices/GET/Resource': 'DeviceCodeApidevicesGET7B795485',
+  'DeviceCode/DeviceCodeApi/Default/devices/{id}/Resource': 'DeviceCodeApidevicesid61A4463E',
+  'DeviceCode/DeviceCodeApi/Default/devices/{id}/OPTIONS/Resource': 'DeviceCodeApidevicesidOPTIONS54101311',
+  'DeviceCode/DeviceCodeApi/Default/devices/{id}/DELETE/Resource': 'DeviceCodeApidevicesidDELETE49C33153',
+
+  // Buckets and distributions - replacing them loses the apps' URLs, and the old
+  // auto-delete resource would empty the bucket as it is removed
+  'LoginUi/Bucket/Resource': 'LoginUiBucketBE3931EC',
+  'LoginUi/Bucket/Policy/Resource': 'LoginUiBucketPolicyFE9F21FA',
+  'LoginUi/Bucket/AutoDeleteObjectsCustomResource/Default': 'LoginUiBucketAutoDeleteObjectsCustomResource5DE92A23',
+  'LoginUi/Distribution/Resource': 'LoginUiDistribution707B917F',
+  'SampleClient/Bucket/Resource': 'SampleClientBucketD0BC0C13',
+  'SampleClient/Bucket/Policy/Resource': 'SampleClientBucketPolicyDC99AF53',
+  'SampleClient/Bucket/AutoDeleteObjectsCustomResource/Default': 'SampleClientBucketAutoDeleteObjectsCustomResourceFE2488CE',
+  'SampleClient/Distribution/Resource': 'SampleClientDistributionE7136A60',
+};
+
+/**
+ * Returns the logical ID the device status stream's event source mapping had
+ * in a stack (Lambda allows one mapping per stream, so it can't be replaced)
+ *
+ * CDK named the mapping after the table's unique ID at its old path, which
+ * includes the stack name, so unlike the IDs above it differs per stage.
+ *
+ * @param stackPath - Path of the stack, e.g. TheSafeZoneIdpStack-prod
+ */
+export function legacyStreamMappingLogicalId(stackPath: string): string {
+  const tableId = uniqueId([...stackPath.split('/'), 'DeviceCodeTable']);
+  return uniqueId(['DeviceStatusStreamLambda', `DynamoDBEventSource:${tableId}`, 'Resource']);
+}
+
+/**
+ * Names a path like CDK's unique IDs: its alphanumeric characters, without
+ * Resource, and a hash of the full path
+ */
+function uniqueId(path: string[]): string {
+  const hash = crypto.createHash('md5').update(path.join('/')).digest('hex').slice(0, 8).toUpperCase();
+  const human = path.filter((id) => id !== 'Resource').join('').replace(/[^A-Za-z0-9]/g, '');
+  return `${human}${hash}`;
+}
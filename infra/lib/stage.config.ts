@@ -0,0 +1,90 @@
+import * as cdk from 'aws-cdk-lib';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import type { TokenValidity } from './clients.config';
+import type { ThreatProtectionConfig } from './constructs/identity-core';
+
+/**
+ * Deployment Stages
+ *
+ * Each stage is a separate TheSafeZoneIdpStack, so dev, staging and prod can
+ * run side by side in one account. The stage decides resource names, what
+ * happens to data when the stack is deleted, how long logs are kept and
+ * whether risky sign-ins are blocked.
+ *
+ * dev keeps the stack ID and resource names of the stack deployed before
+ * stages existed, so deploying it updates that stack in place.
+ */
+
+export type StageName = 'dev' | 'staging' | 'prod';
+
+export interface StageConfig {
+  name: StageName;
+  stackId: string;              // CloudFormation stack name
+  namePrefix: string;           // Prefix of resource names, e.g. thesafezone-prod-device-codes
+  cognitoDomainPrefix: string;  // <prefix>.auth.<region>.amazoncognito.com - unique per region
+  subdomain?: string;           // Custom domains are nested below it, e.g. auth.staging.thesafezone.eu (domain.config.ts)
+  // Data (user pool, tables, keys, buckets, logs) is retained or deleted with the stack
+  removalPolicy: cdk.RemovalPolicy;
+  deletionProtection: boolean;  // User pool and tables cannot be deleted while set
+  logRetention: logs.RetentionDays; // Lambda logs
+  tokenValidity: TokenValidity; // Default for clients that don't set their own (Requirement 11.1)
+  threatProtection: ThreatProtectionConfig; // Cognito risk detection, audit or enforced (Requirement 13.1)
+  // Browser origins besides the Login UI allowed to call the Device Code API,
+  // unless given with -c trustedOrigins
+  trustedOrigins: string[];
+}
+
+export const STAGES: Record<StageName, StageConfig> = {
+  dev: {
+    name: 'dev',
+    stackId: 'TheSafeZoneIdpStack',
+    namePrefix: 'thesafezone',
+    cognitoDomainPrefix: 'thesafezone-auth',
+    subdomain: 'dev',
+    removalPolicy: cdk.RemovalPolicy.DESTROY,
+    deletionProtection: false,
+    logRetention: logs.RetentionDays.ONE_WEEK,
+    tokenValidity: { accessTokenHours: 1, idTokenHours: 1, refreshTokenDays: 30 },
+    // Risks are only logged, so testers aren't blocked
+    threatProtection: { mode: 'audit' },
+    // Local dev servers of the Login UI and sample client
+    trustedOrigins: ['http://localhost:3000', 'http://localhost:5173'],
+  },
+  staging: {
+    name: 'staging',
+    stackId: 'TheSafeZoneIdpStack-staging',
+    namePrefix: 'thesafezone-staging',
+    cognitoDomainPrefix: 'thesafezone-auth-staging',
+    subdomain: 'staging',
+    removalPolicy: cdk.RemovalPolicy.DESTROY,
+    deletionProtection: false,
+    logRetention: logs.RetentionDays.ONE_MONTH,
+    // Short-lived refresh tokens, so re-activation gets exercised
+    tokenValidity: { accessTokenHours: 1, idTokenHours: 1, refreshTokenDays: 7 },
+    threatProtection: { mode: 'enforced' },
+    trustedOrigins: [],
+  },
+  prod: {
+    name: 'prod',
+    stackId: 'TheSafeZoneIdpStack-prod',
+    namePrefix: 'thesafezone-prod',
+    cognitoDomainPrefix: 'thesafezone-auth-prod',
+    removalPolicy: cdk.RemovalPolicy.RETAIN,
+    deletionProtection: true,
+    logRetention: logs.RetentionDays.ONE_YEAR,
+    tokenValidity: { accessTokenHours: 1, idTokenHours: 1, refreshTokenDays: 30 },
+    threatProtection: { mode: 'enforced' },
+    trustedOrigins: [],
+  },
+};
+
+/**
+ * Looks up a stage by name
+ * @throws if the stage does not exist
+ */
+export function getStageConfig(name: string): StageConfig {
+  if (!Object.prototype.hasOwnProperty.call(STAGES, name)) {
+    throw new Error(`Unknown stage: ${name} (expected ${Object.keys(STAGES).join(', ')})`);
+  }
+  return STAGES[name as StageName];
+}
@@ -0,0 +1,393 @@
+#!/usr/bin/env npx ts-node
+/**
+ * Local Device Code API dev server
+ *
+ * Serves the Device Code Lambda handler over HTTP so the Login UI and headset
+ * clients can run the whole device flow without deploying the stack:
+ * - Requests are translated into APIGatewayProxyEvents, with CORS for the Login UI
+ * - Device codes, failed attempts and signed-in devices are kept in memory
+ *   (lost on restart)
+ * - Revoking a device only logs its refresh token instead of calling Cognito
+ * - Tokens are HS256 JWTs signed with a local dev key instead of Cognito's
+ * - ws://localhost:4000/push stands in for the Device Push WebSocket API;
+ *   status changes are pushed straight from the store instead of a DynamoDB stream
+ * - /oauth2/authorize and /oauth2/token emulate the Cognito hosted UI, signing
+ *   in as a fixed dev user without a password
+ *
+ * Usage:
+ *   npm run dev:device-api
+ *
+ * Login UI .env.local:
+ *   VITE_API_ENDPOINT=http://localhost:4000
+ *   VITE_COGNITO_DOMAIN=http://localhost:4000
+ *   VITE_COGNITO_CLIENT_ID=local-web-client
+ *
+ * Environment (all optional):
+ *   PORT              - Port to listen on (default 4000)
+ *   VERIFICATION_URI  - Activation page URL (default http://localhost:5173/activate)
+ *   DEV_USERNAME      - User signed in by /oauth2/authorize (default dev-user)
+ *   DEV_JWT_SECRET    - Key used to sign and verify local tokens
+ */
+
+import * as crypto from 'crypto';
+import * as http from 'http';
+import type { Duplex } from 'stream';
+import { APIGatewayProxyEvent, APIGatewayProxyResult, DynamoDBStreamEvent } from 'aws-lambda';
+
+const PORT = parseInt(process.env.PORT || '4000', 10);
+const DEV_USERNAME = process.env.DEV_USERNAME || 'dev-user';
+const DEV_JWT_SECRET = process.env.DEV_JWT_SECRET || 'thesafezone-local-dev-key';
+const WEB_CLIENT_ID = 'local-web-client';
+const VR_CLIENT_ID = 'local-vr-client';
+const KIOSK_CLIENT_ID = 'local-kiosk-client'; // Numeric user codes
+const TOKEN_LIFETIME_SECONDS = 3600;
+const PUSH_PATH = '/push';
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'; // RFC 6455 Section 1.3
+
+const CORS_HEADERS: Record<string, string> = {
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Max-Age': '600',
+};
+
+// Authorization codes issued by the emulated hosted UI, by code
+const authorizationCodes = new Map<string, { clientId: string; redirectUri: string }>();
+
+// Open push WebSockets, by connection ID
+const pushSockets = new Map<string, Duplex>();
+
+type LambdaHandler = (event: APIGatewayProxyEvent) => Promise<APIGatewayProxyResult>;
+type SignToken = (claims: Record<string, unknown>, secret: string) => string;
+
+async function main() {
+  // Handler modules read their configuration when loaded
+  process.env.VERIFICATION_URI = process.env.VERIFICATION_URI || 'http://localhost:5173/activate';
+  process.env.DEVICE_PUSH_URI = `ws://localhost:${PORT}${PUSH_PATH}`;
+  process.env.DEVICE_CLIENTS = process.env.DEVICE_CLIENTS || JSON.stringify({
+    [VR_CLIENT_ID]: {
+      displayName: 'TheSafeZone VR (local)',
+      allowedScopes: ['openid', 'email', 'profile'],
+    },
+    [KIOSK_CLIENT_ID]: {
+      displayName: 'TheSafeZone Kiosk (local)',
+      allowedScopes: ['openid', 'email', 'profile'],
+      deviceFlow: { userCode: { length: 6, chars: '0123456789' } },
+    },
+  });
+
+  const { handler } = await import('../lib/lambda/device-code/index');
+  const { connectionHandler, streamHandler } = await import('../lib/lambda/device-code/push');
+  const { setConnectionManager, createInMemoryConnectionManager } =
+    await import('../lib/lambda/device-code/connection-manager');
+  const { setDeviceCodeStore } = await import('../lib/lambda/device-code/device-code-store');
+  const { createInMemoryDeviceCodeStore } = await import('../lib/lambda/device-code/in-memory-store');
+  const { setAttemptStore, createInMemoryAttemptStore } = await import('../lib/lambda/device-code/attempt-limiter');
+  const { setTokenEncryptionProvider, createLocalEncryptionProvider } =
+    await import('../lib/lambda/device-code/token-encryption');
+  const { setVerifier, createLocalVerifier, signLocalAccessToken } =
+    await import('../lib/lambda/device-code/jwt-verifier');
+  const { setTokenMinter } = await import('../lib/lambda/device-code/token-minting');
+  const { setUserDeviceRegistry, createInMemoryUserDeviceRegistry } =
+    await import('../lib/lambda/device-code/user-device-registry');
+  const { setTokenRevoker } = await import('../lib/lambda/device-code/token-revocation');
+
+  // Feeds status changes to the stream handler, like the DynamoDB stream does
+  const store = createInMemoryDeviceCodeStore();
+  setDeviceCodeStore({
+    ...store,
+    async transition(deviceCode, from, update) {
+      const result = await store.transition(deviceCode, from, update);
+      if (result.ok) {
+        await streamHandler(toStreamEvent(deviceCode, from, update.status));
+      }
+      return result;
+    },
+  });
+  setConnectionManager(createInMemoryConnectionManager(sendPush));
+  setAttemptStore(createInMemoryAttemptStore());
+  setTokenEncryptionProvider(createLocalEncryptionProvider(crypto.randomBytes(32)));
+  setVerifier(createLocalVerifier(DEV_JWT_SECRET, WEB_CLIENT_ID));
+  setTokenMinter({
+    async mint(clientId, username, _deviceCode, scope) {
+      return { ...issueTokens(signLocalAccessToken, clientId, username, scope), expiresIn: TOKEN_LIFETIME_SECONDS };
+    },
+  });
+  setUserDeviceRegistry(createInMemoryUserDeviceRegistry());
+  setTokenRevoker({
+    async revoke(clientId, refreshToken) {
+      console.log(`REVOKE ${clientId} ${refreshToken.slice(0, 16)}...`);
+    },
+  });
+
+  const server = http.createServer((req, res) => {
+    handleRequest(req, res, handler, signLocalAccessToken).catch((error) => {
+      console.error('Unhandled dev server error:', error);
+      send(res, req, { statusCode: 500, body: JSON.stringify({ error: 'server_error' }) });
+    });
+  });
+
+  server.on('upgrade', (req, socket) => {
+    upgradePush(req, socket, connectionHandler).catch((error) => {
+      console.error('Unhandled push connection error:', error);
+      socket.destroy();
+    });
+  });
+
+  server.listen(PORT, () => {
+    console.log(`🔧 Device Code API dev server on http://localhost:${PORT}`);
+    console.log(`   Device clients: ${VR_CLIENT_ID}, ${KIOSK_CLIENT_ID}`);
+    console.log(`   Login UI client: ${WEB_CLIENT_ID} (signed in as ${DEV_USERNAME})`);
+    console.log(`   Verification URI: ${process.env.VERIFICATION_URI}`);
+    console.log(`   Push URI: ${process.env.DEVICE_PUSH_URI}`);
+  });
+}
+
+/**
+ * Routes a request to the emulated hosted UI or the Lambda handler
+ */
+async function handleRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  handler: LambdaHandler,
+  sign: SignToken
+): Promise<void> {
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+  const body = await readBody(req);
+  console.log(`${req.method} ${url.pathname}`);
+
+  if (req.method === 'OPTIONS') {
+    send(res, req, { statusCode: 204, body: '' });
+    return;
+  }
+
+  if (req.method === 'GET' && url.pathname === '/oauth2/authorize') {
+    send(res, req, authorize(url.searchParams));
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/oauth2/token') {
+    send(res, req, exchangeCode(new URLSearchParams(body), sign));
+    return;
+  }
+
+  send(res, req, await handler(toProxyEvent(req, url, body)));
+}
+
+/**
+ * Accepts a push WebSocket if the $connect handler does (RFC 6455 handshake)
+ * Devices only listen, so incoming frames are ignored apart from close.
+ */
+async function upgradePush(req: http.IncomingMessage, socket: Duplex, connectionHandler: LambdaHandler): Promise<void> {
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+  const key = req.headers['sec-websocket-key'];
+  console.log(`UPGRADE ${url.pathname}`);
+
+  if (url.pathname !== PUSH_PATH || typeof key !== 'string') {
+    socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+    return;
+  }
+
+  const connectionId = crypto.randomUUID();
+  const event = toProxyEvent(req, url, '');
+  event.requestContext = { ...event.requestContext, connectionId, routeKey: '$connect' };
+
+  const result = await connectionHandler(event);
+  if (result.statusCode !== 200) {
+    socket.end(`HTTP/1.1 ${result.statusCode} ${http.STATUS_CODES[result.statusCode]}\r\n\r\n`);
+    return;
+  }
+
+  const accept = crypto.createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write('HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\nConnection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`);
+  pushSockets.set(connectionId, socket);
+
+  socket.on('data', (frame: Buffer) => {
+    if ((frame[0] & 0x0f) === 0x8) socket.end();   // Close frame
+  });
+  socket.on('close', () => {
+    pushSockets.delete(connectionId);
+    const disconnect = toProxyEvent(req, url, '');
+    disconnect.requestContext = { ...disconnect.requestContext, connectionId, routeKey: '$disconnect' };
+    connectionHandler(disconnect).catch((error) => console.error('Push disconnect error:', error));
+  });
+}
+
+/**
+ * Sends a push message as an unmasked WebSocket text frame
+ * @returns false if the socket is gone
+ */
+function sendPush(connectionId: string, message: object): boolean {
+  const socket = pushSockets.get(connectionId);
+  if (!socket || socket.destroyed) return false;
+
+  const payload = Buffer.from(JSON.stringify(message));
+  const header = payload.length < 126
+    ? Buffer.from([0x81, payload.length])
+    : Buffer.from([0x81, 126, payload.length >> 8, payload.length & 0xff]);
+  socket.write(Buffer.concat([header, payload]));
+  console.log(`PUSH ${connectionId} ${JSON.stringify(message)}`);
+  return true;
+}
+
+/**
+ * Builds the device code table stream record for a status change
+ */
+function toStreamEvent(deviceCode: string, from: string, to: string): DynamoDBStreamEvent {
+  return {
+    Records: [{
+      eventName: 'MODIFY',
+      dynamodb: {
+        Keys: { deviceCode: { S: deviceCode } },
+        OldImage: { deviceCode: { S: deviceCode }, status: { S: from } },
+        NewImage: { deviceCode: { S: deviceCode }, status: { S: to } },
+      },
+    }],
+  };
+}
+
+/**
+ * Emulates the hosted UI: signs in the dev user and redirects back with a code
+ */
+function authorize(params: URLSearchParams): APIGatewayProxyResult {
+  const clientId = params.get('client_id');
+  const redirectUri = params.get('redirect_uri');
+  if (params.get('response_type') !== 'code' || !clientId || !redirectUri) {
+    return jsonResult(400, { error: 'invalid_request' });
+  }
+
+  const code = crypto.randomUUID();
+  authorizationCodes.set(code, { clientId, redirectUri });
+
+  const location = new URL(redirectUri);
+  location.searchParams.set('code', code);
+  const state = params.get('state');
+  if (state) location.searchParams.set('state', state);
+
+  return { statusCode: 302, headers: { Location: location.toString() }, body: '' };
+}
+
+/**
+ * Emulates the Cognito token endpoint for the authorization_code grant
+ */
+function exchangeCode(params: URLSearchParams, sign: SignToken): APIGatewayProxyResult {
+  if (params.get('grant_type') !== 'authorization_code') {
+    return jsonResult(400, { error: 'unsupported_grant_type' });
+  }
+
+  const code = params.get('code') || '';
+  const issued = authorizationCodes.get(code);
+  authorizationCodes.delete(code);
+  if (!issued || issued.clientId !== params.get('client_id') || issued.redirectUri !== params.get('redirect_uri')) {
+    return jsonResult(400, { error: 'invalid_grant' });
+  }
+
+  const tokens = issueTokens(sign, issued.clientId, DEV_USERNAME);
+  return jsonResult(200, {
+    access_token: tokens.accessToken,
+    id_token: tokens.idToken,
+    refresh_token: tokens.refreshToken,
+    token_type: 'Bearer',
+    expires_in: TOKEN_LIFETIME_SECONDS,
+  });
+}
+
+/**
+ * Signs Cognito-shaped tokens for a client with the dev key
+ */
+function issueTokens(sign: SignToken, clientId: string, username: string, scope = 'openid email profile') {
+  const now = Math.floor(Date.now() / 1000);
+  const common = { sub: `local-${username}`, iss: `http://localhost:${PORT}`, iat: now, exp: now + TOKEN_LIFETIME_SECONDS };
+
+  return {
+    accessToken: sign({ ...common, token_use: 'access', client_id: clientId, username, scope }, DEV_JWT_SECRET),
+    idToken: sign({ ...common, token_use: 'id', aud: clientId, 'cognito:username': username, email: `${username}@localhost` }, DEV_JWT_SECRET),
+    refreshToken: crypto.randomBytes(32).toString('base64url'),
+  };
+}
+
+/**
+ * Translates a Node request into the API Gateway REST proxy event shape
+ */
+function toProxyEvent(req: http.IncomingMessage, url: URL, body: string): APIGatewayProxyEvent {
+  const headers: Record<string, string> = {};
+  const multiValueHeaders: Record<string, string[]> = {};
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value === undefined) continue;
+    const values = Array.isArray(value) ? value : [value];
+    headers[name] = values.join(',');
+    multiValueHeaders[name] = values;
+  }
+
+  const queryStringParameters: Record<string, string> = {};
+  const multiValueQueryStringParameters: Record<string, string[]> = {};
+  for (const [name, value] of url.searchParams) {
+    queryStringParameters[name] = value;
+    (multiValueQueryStringParameters[name] ||= []).push(value);
+  }
+  const hasQuery = url.searchParams.toString() !== '';
+
+  return {
+    resource: url.pathname,
+    path: url.pathname,
+    httpMethod: req.method || 'GET',
+    headers,
+    multiValueHeaders,
+    queryStringParameters: hasQuery ? queryStringParameters : null,
+    multiValueQueryStringParameters: hasQuery ? multiValueQueryStringParameters : null,
+    pathParameters: null,
+    stageVariables: null,
+    body: body === '' ? null : body,
+    isBase64Encoded: false,
+    requestContext: {
+      stage: 'local',
+      path: url.pathname,
+      httpMethod: req.method || 'GET',
+      requestId: crypto.randomUUID(),
+      requestTimeEpoch: Date.now(),
+      identity: { sourceIp: req.socket.remoteAddress || '127.0.0.1' },
+    } as unknown as APIGatewayProxyEvent['requestContext'],
+  };
+}
+
+/**
+ * Writes a handler result with CORS headers for the requesting origin
+ */
+function send(res: http.ServerResponse, req: http.IncomingMessage, result: APIGatewayProxyResult): void {
+  res.writeHead(result.statusCode, {
+    ...CORS_HEADERS,
+    'Access-Control-Allow-Origin': req.headers.origin || '*',
+    Vary: 'Origin',
+    ...result.headers,
+  });
+  res.end(result.isBase64Encoded ? Buffer.from(result.body, 'base64') : result.body);
+}
+
+/**
+ * Builds a JSON response like the Lambda handlers do
+ */
+function jsonResult(statusCode: number, body: object): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+    body: JSON.stringify(body),
+  };
+}
+
+/**
+ * Reads the full request body as UTF-8
+ */
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+main().catch((error) => {
+  console.error('❌ Failed to start dev server:', error);
+  process.exit(1);
+});
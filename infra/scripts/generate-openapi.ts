@@ -0,0 +1,283 @@
+#!/usr/bin/env npx ts-node
+/**
+ * OpenAPI generator for the Device Code API
+ *
+ * Builds the OpenAPI 3 document served at GET /device/openapi.json:
+ * - Schemas are generated from the request and response types in
+ *   packages/idp-common (device-api.ts, oauth-errors.ts), including their
+ *   doc comments and validation tags
+ * - Paths come from the route table below, which mirrors the routes in
+ *   lib/lambda/device-code/index.ts
+ *
+ * The document is written to lib/lambda/device-code/openapi.json, which the
+ * Lambda serves and the stack derives its API Gateway request models from.
+ * test/openapi.test.ts fails if the committed document is out of date.
+ *
+ * Usage:
+ *   npm run generate:openapi
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createGenerator } from 'ts-json-schema-generator';
+
+const IDP_COMMON_DIR = path.join(__dirname, '../../packages/idp-common');
+export const OPENAPI_FILE = path.join(__dirname, '../lib/lambda/device-code/openapi.json');
+
+const FORM_CONTENT_TYPE = 'application/x-www-form-urlencoded';
+const JSON_CONTENT_TYPE = 'application/json';
+
+type Schema = { [key: string]: unknown };
+
+interface Operation {
+  method: 'get' | 'post' | 'delete';
+  path: string;
+  operationId: string;
+  summary: string;
+  description?: string;
+  auth?: 'bearer' | 'client';     // Bearer access token, or optional HTTP Basic client auth
+  requestBody?: { type: string; formEncoded?: boolean };
+  parameters?: Schema[];
+  response: { status: number; description: string; type?: string };
+  errors: number[];               // Statuses answered with an OAuthErrorResponse
+}
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: 'Invalid request, or a device flow error such as authorization_pending (RFC 8628 Section 3.5)',
+  401: 'Client authentication failed, or the access token is missing or invalid',
+  404: 'Not found',
+  429: 'Too many failed attempts - see the Retry-After header',
+  500: 'Internal server error',
+};
+
+const OPERATIONS: Operation[] = [
+  {
+    method: 'post',
+    path: '/device/code',
+    operationId: 'requestDeviceCode',
+    summary: 'Device Authorization Request (RFC 8628 Section 3.1)',
+    description: 'Starts the device flow. Show user_code and verification_uri to the user, then poll ' +
+      'POST /device/token every interval seconds.',
+    auth: 'client',
+    requestBody: { type: 'DeviceCodeRequest', formEncoded: true },
+    response: { status: 200, description: 'Device Authorization Response', type: 'DeviceCodeResponse' },
+    errors: [400, 401, 500],
+  },
+  {
+    method: 'post',
+    path: '/device/token',
+    operationId: 'requestDeviceToken',
+    summary: 'Device Access Token Request (RFC 8628 Section 3.4)',
+    description: 'Polled by the device until the user has decided. Tokens are returned exactly once; ' +
+      'until then the error is authorization_pending or slow_down.',
+    auth: 'client',
+    requestBody: { type: 'DeviceTokenRequest', formEncoded: true },
+    response: { status: 200, description: 'Tokens for the device client', type: 'DeviceTokenResponse' },
+    errors: [400, 401, 500],
+  },
+  {
+    method: 'post',
+    path: '/device/authorize',
+    operationId: 'authorizeDevice',
+    summary: 'Approve a device request',
+    description: 'Called by the Login UI once the user has signed in and approved the user code.',
+    requestBody: { type: 'DeviceDecisionRequest' },
+    response: { status: 200, description: 'The device was approved', type: 'DeviceDecisionResponse' },
+    errors: [400, 401, 429, 500],
+  },
+  {
+    method: 'post',
+    path: '/device/deny',
+    operationId: 'denyDevice',
+    summary: 'Deny a device request',
+    description: 'Called by the Login UI when the user does not recognise the request. ' +
+      'The device receives access_denied.',
+    requestBody: { type: 'DeviceDecisionRequest' },
+    response: { status: 200, description: 'The device was denied', type: 'DeviceDecisionResponse' },
+    errors: [400, 401, 429, 500],
+  },
+  {
+    method: 'get',
+    path: '/device/lookup',
+    operationId: 'lookupDevice',
+    summary: 'Consent details for a user code',
+    auth: 'bearer',
+    parameters: [
+      { name: 'user_code', in: 'query', required: true, schema: { type: 'string', minLength: 1 } },
+    ],
+    response: { status: 200, description: 'The pending device request', type: 'DeviceLookupResponse' },
+    errors: [400, 401, 429, 500],
+  },
+  {
+    method: 'get',
+    path: '/device/user-code-formats',
+    operationId: 'getUserCodeFormats',
+    summary: 'User code formats of the registered device clients',
+    response: { status: 200, description: 'User code formats', type: 'UserCodeFormatsResponse' },
+    errors: [],
+  },
+  {
+    method: 'get',
+    path: '/device/openapi.json',
+    operationId: 'getOpenApiDocument',
+    summary: 'This OpenAPI document',
+    response: { status: 200, description: 'OpenAPI 3 document' },
+    errors: [],
+  },
+  {
+    method: 'get',
+    path: '/devices',
+    operationId: 'listUserDevices',
+    summary: 'Devices the user signed in with the device flow',
+    auth: 'bearer',
+    response: { status: 200, description: 'The user\'s devices, most recently signed in first', type: 'UserDevicesResponse' },
+    errors: [401, 500],
+  },
+  {
+    method: 'delete',
+    path: '/devices/{id}',
+    operationId: 'revokeUserDevice',
+    summary: 'Sign a device out',
+    description: 'Revokes the device\'s refresh token, which also ends its access tokens.',
+    auth: 'bearer',
+    parameters: [
+      { name: 'id', in: 'path', required: true, schema: { type: 'string', pattern: '^[a-f0-9]{32}$' } },
+    ],
+    response: { status: 204, description: 'The device was signed out' },
+    errors: [400, 401, 404, 500],
+  },
+];
+
+/**
+ * Builds the OpenAPI document from the shared types and the route table
+ */
+export function buildDeviceApiSpec(): Schema {
+  const version = JSON.parse(fs.readFileSync(path.join(IDP_COMMON_DIR, 'package.json'), 'utf-8')).version;
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'TheSafeZone Device Code API',
+      version,
+      description: 'OAuth 2.0 Device Authorization Grant (RFC 8628) for TheSafeZone VR headsets ' +
+        'and other input-constrained devices, plus the endpoints the Login UI uses to approve ' +
+        'devices and sign them out.',
+    },
+    paths: buildPaths(),
+    components: {
+      schemas: buildSchemas(),
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'Cognito access token of the signed-in user' },
+        clientBasic: { type: 'http', scheme: 'basic', description: 'client_id as the username, empty password' },
+      },
+    },
+  };
+}
+
+/**
+ * Generates the schemas of every type the operations refer to
+ */
+function buildSchemas(): Record<string, Schema> {
+  const generator = createGenerator({
+    path: path.join(IDP_COMMON_DIR, 'src/index.ts'),
+    expose: 'export',
+    jsDoc: 'extended',
+    // OAuth servers must ignore unrecognized parameters (RFC 6749 Section 3.1)
+    additionalProperties: true,
+    skipTypeCheck: true,
+  });
+
+  const types = new Set(['OAuthErrorResponse']);
+  for (const operation of OPERATIONS) {
+    if (operation.requestBody) types.add(operation.requestBody.type);
+    if (operation.response.type) types.add(operation.response.type);
+  }
+
+  const schemas: Record<string, Schema> = {};
+  for (const type of Array.from(types).sort()) {
+    const definitions = generator.createSchema(type).definitions ?? {};
+    for (const [name, definition] of Object.entries(definitions)) {
+      schemas[name] = toOpenApiSchema(definition) as Schema;
+    }
+  }
+
+  return Object.fromEntries(Object.entries(schemas).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function buildPaths(): Record<string, Record<string, Schema>> {
+  const paths: Record<string, Record<string, Schema>> = {};
+
+  for (const operation of OPERATIONS) {
+    const spec: Schema = {
+      operationId: operation.operationId,
+      summary: operation.summary,
+    };
+
+    if (operation.description) spec.description = operation.description;
+    if (operation.auth === 'bearer') spec.security = [{ bearerAuth: [] }];
+    if (operation.auth === 'client') spec.security = [{}, { clientBasic: [] }];
+    if (operation.parameters) spec.parameters = operation.parameters;
+
+    if (operation.requestBody) {
+      const schema = { $ref: `#/components/schemas/${operation.requestBody.type}` };
+      // RFC 8628 requests are form-encoded; JSON is accepted as well
+      const contentTypes = operation.requestBody.formEncoded
+        ? [FORM_CONTENT_TYPE, JSON_CONTENT_TYPE]
+        : [JSON_CONTENT_TYPE, FORM_CONTENT_TYPE];
+      spec.requestBody = {
+        required: true,
+        content: Object.fromEntries(contentTypes.map((contentType) => [contentType, { schema }])),
+      };
+    }
+
+    const responses: Record<string, Schema> = {};
+    const { status, description, type } = operation.response;
+    responses[status] = type
+      ? { description, content: { [JSON_CONTENT_TYPE]: { schema: { $ref: `#/components/schemas/${type}` } } } }
+      : status === 204
+        ? { description }
+        : { description, content: { [JSON_CONTENT_TYPE]: { schema: { type: 'object' } } } };
+
+    for (const errorStatus of operation.errors) {
+      responses[errorStatus] = {
+        description: ERROR_DESCRIPTIONS[errorStatus],
+        content: { [JSON_CONTENT_TYPE]: { schema: { $ref: '#/components/schemas/OAuthErrorResponse' } } },
+      };
+    }
+    spec.responses = responses;
+
+    paths[operation.path] = { ...paths[operation.path], [operation.method]: spec };
+  }
+
+  return paths;
+}
+
+/**
+ * Converts a generated JSON Schema (draft 7) to an OpenAPI 3.0 schema
+ * OpenAPI 3.0 has no const, and schemas live under components.
+ */
+function toOpenApiSchema(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(toOpenApiSchema);
+  if (!value || typeof value !== 'object') return value;
+
+  const schema: Schema = {};
+  for (const [key, child] of Object.entries(value)) {
+    if (key === 'const') {
+      schema.enum = [child];
+    } else if (key === '$ref' && typeof child === 'string') {
+      schema.$ref = child.replace('#/definitions/', '#/components/schemas/');
+    } else {
+      schema[key] = toOpenApiSchema(child);
+    }
+  }
+  return schema;
+}
+
+function main() {
+  fs.writeFileSync(OPENAPI_FILE, `${JSON.stringify(buildDeviceApiSpec(), null, 2)}\n`);
+  console.log(`✅ Wrote ${path.relative(process.cwd(), OPENAPI_FILE)}`);
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,86 @@
+/**
+ * Tests for the DynamoDB attempt store
+ *
+ * The client's send is replaced by a small table that applies the store's
+ * version condition the way DynamoDB does.
+ */
+import {
+  AttributeValue,
+  ConditionalCheckFailedException,
+  DynamoDBClient,
+  GetItemCommand,
+  PutItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import {
+  ATTEMPT_WINDOW_SECONDS,
+  createDynamoDbAttemptStore,
+} from '../lib/lambda/device-code/attempt-limiter';
+
+type Item = Record<string, AttributeValue>;
+
+function fakeTable(
+  beforePut: (items: Map<string, Item>) => void = () => undefined
+): { client: DynamoDBClient; items: Map<string, Item> } {
+  const client = new DynamoDBClient({ region: 'eu-central-1' });
+  const items = new Map<string, Item>();
+
+  jest.spyOn(client, 'send').mockImplementation(async (command: unknown) => {
+    if (command instanceof GetItemCommand) {
+      return { Item: items.get(command.input.Key!.callerKey.S!) };
+    }
+    if (command instanceof PutItemCommand) {
+      beforePut(items);
+      const item = command.input.Item!;
+      const stored = items.get(item.callerKey.S!);
+      // attribute_not_exists(version) OR version = :version
+      if (stored?.version && stored.version.N !== command.input.ExpressionAttributeValues![':version'].N) {
+        throw new ConditionalCheckFailedException({ message: 'The conditional request failed', $metadata: {} });
+      }
+      items.set(item.callerKey.S!, item);
+      return {};
+    }
+    throw new Error(`Unexpected command: ${(command as object).constructor.name}`);
+  });
+
+  return { client, items };
+}
+
+describe('DynamoDB Attempt Store', () => {
+  const now = 1_700_000_000;
+
+  test('failures that have left the window are dropped when a failure is recorded', async () => {
+    const { client, items } = fakeTable();
+    const store = createDynamoDbAttemptStore('device-attempts', client);
+
+    // A caller failing just under the limit for hours
+    for (let time = now; time < now + 4 * ATTEMPT_WINDOW_SECONDS; time += 60) {
+      await store.recordFailure('ip#198.51.100.7', time, time + ATTEMPT_WINDOW_SECONDS);
+    }
+
+    const last = now + 4 * ATTEMPT_WINDOW_SECONDS - 60;
+    expect(items.get('ip#198.51.100.7')!.failures.L).toHaveLength(ATTEMPT_WINDOW_SECONDS / 60);
+    expect(await store.getFailures('ip#198.51.100.7', last - ATTEMPT_WINDOW_SECONDS + 1))
+      .toHaveLength(ATTEMPT_WINDOW_SECONDS / 60);
+  });
+
+  test('a failure recorded concurrently is not lost', async () => {
+    let concurrent = true;
+    const { client } = fakeTable((items) => {
+      if (concurrent) {
+        concurrent = false;
+        // Another request records its failure between our read and write
+        items.set('sub#user-sub', {
+          callerKey: { S: 'sub#user-sub' },
+          failures: { L: [{ N: now.toString() }] },
+          version: { N: '1' },
+          ttl: { N: (now + ATTEMPT_WINDOW_SECONDS).toString() },
+        });
+      }
+    });
+    const store = createDynamoDbAttemptStore('device-attempts', client);
+
+    await store.recordFailure('sub#user-sub', now + 1, now + 1 + ATTEMPT_WINDOW_SECONDS);
+
+    expect(await store.getFailures('sub#user-sub', now)).toEqual([now, now + 1]);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Tests for the device client registry
+ *
+ * Only registered clients may use the device grant, and only with the
+ * scopes they are allowed to request.
+ */
+import * as fc from 'fast-check';
+import { DeviceClient, resolveScope } from '../lib/lambda/device-code/client-registry';
+
+describe('Device Client Registry', () => {
+  const vrClient: DeviceClient = {
+    displayName: 'TheSafeZone VR',
+    allowedScopes: ['openid', 'email', 'profile'],
+  };
+
+  const allowedScopeArb = fc.constantFrom(...vrClient.allowedScopes);
+
+  describe('resolveScope', () => {
+    test('defaults to all allowed scopes when scope is omitted', () => {
+      expect(resolveScope(vrClient)).toEqual({ ok: true, scope: 'openid email profile' });
+    });
+
+    test('accepts any combination of allowed scopes', () => {
+      fc.assert(
+        fc.property(fc.array(allowedScopeArb, { minLength: 1, maxLength: 6 }), (scopes) => {
+          const result = resolveScope(vrClient, scopes.join(' '));
+          expect(result.ok).toBe(true);
+          if (result.ok) {
+            // Duplicates are removed, order is preserved
+            expect(result.scope).toBe(Array.from(new Set(scopes)).join(' '));
+          }
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    test('rejects any request containing a disallowed scope', () => {
+      fc.assert(
+        fc.property(
+          fc.array(allowedScopeArb, { maxLength: 3 }),
+          fc.constantFrom('aws.cognito.signin.user.admin', 'phone', 'admin', 'openid2'),
+          (allowed, disallowed) => {
+            const result = resolveScope(vrClient, [...allowed, disallowed].join(' '));
+            expect(result.ok).toBe(false);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    test('rejects an empty scope', () => {
+      expect(resolveScope(vrClient, '').ok).toBe(false);
+      expect(resolveScope(vrClient, '   ').ok).toBe(false);
+    });
+  });
+});
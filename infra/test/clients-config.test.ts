@@ -0,0 +1,77 @@
+/**
+ * Tests for the user pool client registry
+ *
+ * The stack refuses to synthesize a registry it cannot generate clients from.
+ */
+import { ClientConfig, CLIENTS, validateClientConfigs } from '../lib/clients.config';
+
+function partnerClient(overrides: Partial<ClientConfig> = {}): ClientConfig {
+  return {
+    key: 'Partner',
+    name: 'thesafezone-partner',
+    description: 'Partner App Client ID',
+    type: 'public',
+    flows: ['authorization_code'],
+    scopes: ['openid', 'email'],
+    contextPrefix: 'partnerClient',
+    callbackUrls: ['https://partner.example.com/callback'],
+    logoutUrls: ['https://partner.example.com'],
+    ...overrides,
+  };
+}
+
+describe('Client Registry', () => {
+  test('the registry is valid', () => {
+    expect(validateClientConfigs(CLIENTS)).toEqual([]);
+  });
+
+  test('a partner app can be added', () => {
+    expect(validateClientConfigs([...CLIENTS, partnerClient()])).toEqual([]);
+  });
+
+  test('keys, names and context prefixes are unique', () => {
+    const errors = validateClientConfigs([...CLIENTS, partnerClient({ key: 'VR', contextPrefix: 'vr' })]);
+    expect(errors).toEqual([
+      'key VR is used by more than one client',
+      'contextPrefix vr is used by more than one client',
+    ]);
+  });
+
+  test('the Login UI client is required', () => {
+    expect(validateClientConfigs([partnerClient()])).toEqual(['the Login UI client WebMobile is missing']);
+  });
+
+  test('device clients need device grant metadata and must be public', () => {
+    const errors = validateClientConfigs([
+      ...CLIENTS,
+      partnerClient({ flows: ['device_code'], type: 'confidential' }),
+    ]);
+    expect(errors).toEqual([
+      'Partner: deviceGrant must be given exactly for device_code clients',
+      'Partner: device_code clients must be public',
+    ]);
+  });
+
+  test('device flow overrides are validated', () => {
+    const errors = validateClientConfigs([
+      ...CLIENTS,
+      partnerClient({
+        flows: ['device_code'],
+        deviceGrant: { displayName: 'Partner Kiosk', deviceFlow: { interval: 0 } },
+      }),
+    ]);
+    expect(errors).toEqual(['Partner: deviceGrant.deviceFlow.interval must be an integer from 1 to 60']);
+  });
+
+  test('clients need openid and, for sign-in, a callback URL', () => {
+    const errors = validateClientConfigs([
+      ...CLIENTS,
+      partnerClient({ key: 'partner', scopes: ['email'], callbackUrls: [] }),
+    ]);
+    expect(errors).toEqual([
+      'partner: key must be PascalCase letters and digits',
+      'partner: scopes must include openid',
+      'partner: authorization_code clients need at least one callback URL',
+    ]);
+  });
+});
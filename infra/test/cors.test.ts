@@ -0,0 +1,89 @@
+/**
+ * Tests for CORS headers on Device Code API responses
+ *
+ * Only origins on the allowlist (CORS_ALLOWED_ORIGINS) may read responses
+ * from a browser; every response varies by Origin.
+ */
+import { APIGatewayProxyEvent, APIGatewayProxyEventV2 } from 'aws-lambda';
+import { corsHeaders, getAllowedOrigins, withCors } from '../lib/lambda/device-code/cors';
+
+const LOGIN_UI_ORIGIN = 'https://d111111abcdef8.cloudfront.net';
+const ALLOWED_ORIGINS = [LOGIN_UI_ORIGIN, 'http://localhost:5173'];
+
+function eventFrom(origin?: string): APIGatewayProxyEvent {
+  return {
+    httpMethod: 'GET',
+    path: '/devices',
+    headers: origin ? { Origin: origin } : {},
+  } as unknown as APIGatewayProxyEvent;
+}
+
+const handler = withCors(async () => ({
+  statusCode: 401,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify({ error: 'invalid_token' }),
+}), ALLOWED_ORIGINS);
+
+describe('CORS', () => {
+  describe('withCors', () => {
+    test('allows origins on the allowlist, on errors as well', async () => {
+      const result = await handler(eventFrom(LOGIN_UI_ORIGIN));
+
+      expect(result.statusCode).toBe(401);
+      expect(result.headers).toEqual({
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': LOGIN_UI_ORIGIN,
+        'Access-Control-Expose-Headers': 'Retry-After',
+        Vary: 'Origin',
+      });
+    });
+
+    test('does not allow other origins', async () => {
+      const result = await handler(eventFrom('https://evil.example.com'));
+
+      expect(result.headers).not.toHaveProperty('Access-Control-Allow-Origin');
+      expect(result.headers).toHaveProperty('Vary', 'Origin');
+    });
+
+    test('leaves requests without an origin alone', async () => {
+      const result = await handler(eventFrom());
+      expect(result.headers).toEqual({ 'Content-Type': 'application/json', Vary: 'Origin' });
+    });
+
+    test('reads the origin of HTTP API events', async () => {
+      const event = {
+        version: '2.0',
+        headers: { origin: 'http://localhost:5173' },
+      } as unknown as APIGatewayProxyEventV2;
+
+      const result = await handler(event);
+      expect(result.headers).toHaveProperty('Access-Control-Allow-Origin', 'http://localhost:5173');
+    });
+  });
+
+  describe('corsHeaders', () => {
+    test('matches origins without a trailing slash and ignoring case', () => {
+      expect(corsHeaders('HTTP://LOCALHOST:5173', ['http://localhost:5173/']))
+        .toHaveProperty('Access-Control-Allow-Origin', 'HTTP://LOCALHOST:5173');
+    });
+
+    test('does not allow the null origin', () => {
+      expect(corsHeaders('null', ALLOWED_ORIGINS)).toEqual({ Vary: 'Origin' });
+    });
+  });
+
+  describe('getAllowedOrigins', () => {
+    afterEach(() => {
+      delete process.env.CORS_ALLOWED_ORIGINS;
+    });
+
+    test('reads and normalizes CORS_ALLOWED_ORIGINS', () => {
+      process.env.CORS_ALLOWED_ORIGINS = `${LOGIN_UI_ORIGIN}/, HTTP://localhost:5173,,`;
+      expect(getAllowedOrigins()).toEqual(ALLOWED_ORIGINS);
+    });
+
+    test('allows no origins by default', () => {
+      expect(getAllowedOrigins()).toEqual([]);
+    });
+  });
+});
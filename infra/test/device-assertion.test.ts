@@ -0,0 +1,55 @@
+/**
+ * Tests for the device assertions answering the custom-auth challenge
+ *
+ * Uses a local HMAC key in place of KMS.
+ */
+import * as crypto from 'crypto';
+import {
+  createLocalMacProvider,
+  createDeviceAssertion,
+  verifyDeviceAssertion,
+} from '../lib/lambda/device-code/device-assertion';
+
+describe('Device Assertions', () => {
+  const provider = createLocalMacProvider(crypto.randomBytes(32));
+  const deviceCode = 'a'.repeat(32);
+  const now = 1_700_000_000;
+
+  test('valid assertion is accepted for the same user', async () => {
+    const assertion = await createDeviceAssertion('user-1', deviceCode, 'openid profile', now, provider);
+    expect(await verifyDeviceAssertion(assertion, 'user-1', now + 10, provider)).toEqual({
+      username: 'user-1',
+      deviceCode,
+      scope: 'openid profile',
+      iat: now,
+    });
+  });
+
+  test('assertion for another user is rejected', async () => {
+    const assertion = await createDeviceAssertion('user-1', deviceCode, 'openid profile', now, provider);
+    expect(await verifyDeviceAssertion(assertion, 'user-2', now, provider)).toBeNull();
+  });
+
+  test('expired assertion is rejected', async () => {
+    const assertion = await createDeviceAssertion('user-1', deviceCode, 'openid profile', now, provider);
+    expect(await verifyDeviceAssertion(assertion, 'user-1', now + 61, provider)).toBeNull();
+  });
+
+  test('assertion signed with another key is rejected', async () => {
+    const other = createLocalMacProvider(crypto.randomBytes(32));
+    const assertion = await createDeviceAssertion('user-1', deviceCode, 'openid profile', now, other);
+    expect(await verifyDeviceAssertion(assertion, 'user-1', now, provider)).toBeNull();
+  });
+
+  test('tampered claims are rejected', async () => {
+    const assertion = await createDeviceAssertion('user-1', deviceCode, 'openid profile', now, provider);
+    const [, mac] = assertion.split('.');
+    const forged = Buffer.from(JSON.stringify({ username: 'user-2', deviceCode, scope: 'openid profile', iat: now })).toString('base64url');
+    expect(await verifyDeviceAssertion(`${forged}.${mac}`, 'user-2', now, provider)).toBeNull();
+  });
+
+  test('malformed assertion is rejected', async () => {
+    expect(await verifyDeviceAssertion('not-an-assertion', 'user-1', now, provider)).toBeNull();
+    expect(await verifyDeviceAssertion('.', 'user-1', now, provider)).toBeNull();
+  });
+});
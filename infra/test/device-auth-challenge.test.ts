@@ -0,0 +1,155 @@
+/**
+ * Tests for the Cognito triggers behind device token minting
+ *
+ * Covers the scope put on device access tokens by the pre token generation
+ * trigger, with a local HMAC key in place of KMS and the in-memory user
+ * device registry in place of DynamoDB.
+ */
+import * as crypto from 'crypto';
+import { PreTokenGenerationV2TriggerEvent } from 'aws-lambda';
+import { handler } from '../lib/lambda/device-auth-challenge';
+import {
+  createDeviceAssertion,
+  createLocalMacProvider,
+  setAssertionMacProvider,
+} from '../lib/lambda/device-code/device-assertion';
+import {
+  UserDeviceRegistry,
+  createInMemoryUserDeviceRegistry,
+  setUserDeviceRegistry,
+} from '../lib/lambda/device-code/user-device-registry';
+import { UserDevice } from '../lib/lambda/device-code/types';
+
+const VR_CLIENT_ID = 'vr-client';
+const DEVICE_CODE = 'a'.repeat(32);
+
+function tokenGenerationEvent(
+  triggerSource: PreTokenGenerationV2TriggerEvent['triggerSource'],
+  clientMetadata?: Record<string, string>
+): PreTokenGenerationV2TriggerEvent {
+  return {
+    version: '2',
+    triggerSource,
+    region: 'eu-west-1',
+    userPoolId: 'eu-west-1_example',
+    userName: 'user-1',
+    callerContext: { awsSdkVersion: 'aws-sdk-js-3', clientId: VR_CLIENT_ID },
+    request: {
+      userAttributes: { sub: 'user-sub' },
+      groupConfiguration: {},
+      scopes: ['aws.cognito.signin.user.admin'],
+      clientMetadata,
+    },
+    response: { claimsAndScopeOverrideDetails: {} },
+  } as PreTokenGenerationV2TriggerEvent;
+}
+
+function userDevice(deviceId: string, clientId: string, scope?: string): UserDevice {
+  return {
+    userId: 'user-sub',
+    deviceId,
+    clientId,
+    scope,
+    firstSeenAt: 0,
+    signedInAt: 0,
+    encryptedRefreshToken: {
+      encryptedKey: Buffer.alloc(0),
+      iv: Buffer.alloc(0),
+      ciphertext: Buffer.alloc(0),
+      authTag: Buffer.alloc(0),
+    },
+  };
+}
+
+describe('Device Auth Challenge Triggers', () => {
+  let devices: UserDeviceRegistry;
+
+  beforeAll(() => {
+    setAssertionMacProvider(createLocalMacProvider(crypto.randomBytes(32)));
+  });
+
+  afterAll(() => {
+    setAssertionMacProvider(null);
+  });
+
+  beforeEach(() => {
+    devices = createInMemoryUserDeviceRegistry();
+    setUserDeviceRegistry(devices);
+  });
+
+  afterEach(() => {
+    setUserDeviceRegistry(null);
+  });
+
+  describe('Pre token generation', () => {
+    test('minted access tokens carry the scope in the device assertion', async () => {
+      const assertion = await createDeviceAssertion('user-1', DEVICE_CODE, 'openid email');
+      const result = await handler(tokenGenerationEvent('TokenGeneration_Authentication', { deviceAssertion: assertion }));
+
+      expect((result as PreTokenGenerationV2TriggerEvent).response.claimsAndScopeOverrideDetails).toEqual({
+        accessTokenGeneration: {
+          scopesToAdd: ['openid', 'email'],
+          scopesToSuppress: ['aws.cognito.signin.user.admin'],
+        },
+      });
+    });
+
+    test('a forged assertion fails token generation', async () => {
+      const other = createLocalMacProvider(crypto.randomBytes(32));
+      const assertion = await createDeviceAssertion('user-1', DEVICE_CODE, 'openid email', undefined, other);
+
+      await expect(handler(tokenGenerationEvent('TokenGeneration_Authentication', { deviceAssertion: assertion })))
+        .rejects.toThrow('Invalid device assertion');
+    });
+
+    test('sign-ins without an assertion keep their tokens as issued', async () => {
+      for (const source of ['TokenGeneration_Authentication', 'TokenGeneration_HostedAuth'] as const) {
+        const result = await handler(tokenGenerationEvent(source));
+        expect((result as PreTokenGenerationV2TriggerEvent).response.claimsAndScopeOverrideDetails).toEqual({});
+      }
+    });
+
+    test('refreshed access tokens keep the scope granted to the client', async () => {
+      await devices.put(userDevice('1'.repeat(32), VR_CLIENT_ID, 'openid email'));
+      await devices.put(userDevice('2'.repeat(32), VR_CLIENT_ID, 'openid profile'));
+      await devices.put(userDevice('3'.repeat(32), 'kiosk-client', 'openid phone'));
+
+      const result = await handler(tokenGenerationEvent('TokenGeneration_RefreshTokens'));
+
+      expect((result as PreTokenGenerationV2TriggerEvent).response.claimsAndScopeOverrideDetails).toEqual({
+        accessTokenGeneration: {
+          scopesToAdd: ['openid', 'email', 'profile'],
+          scopesToSuppress: ['aws.cognito.signin.user.admin'],
+        },
+      });
+    });
+
+    test("a refresh marks the user's only device of the client as seen", async () => {
+      await devices.put(userDevice('1'.repeat(32), VR_CLIENT_ID, 'openid'));
+      await devices.put(userDevice('3'.repeat(32), 'kiosk-client', 'openid'));
+
+      await handler(tokenGenerationEvent('TokenGeneration_RefreshTokens'));
+
+      expect((await devices.get('user-sub', '1'.repeat(32)))?.lastSeenAt).toBeGreaterThan(0);
+      expect((await devices.get('user-sub', '3'.repeat(32)))?.lastSeenAt).toBeUndefined();
+    });
+
+    test("a refresh marks no device as seen if it can't tell which one refreshed", async () => {
+      await devices.put(userDevice('1'.repeat(32), VR_CLIENT_ID, 'openid'));
+      await devices.put(userDevice('2'.repeat(32), VR_CLIENT_ID, 'openid'));
+
+      await handler(tokenGenerationEvent('TokenGeneration_RefreshTokens'));
+
+      for (const device of await devices.list('user-sub')) {
+        expect(device.lastSeenAt).toBeUndefined();
+      }
+    });
+
+    test('refreshed tokens of clients without signed-in devices are left as issued', async () => {
+      await devices.put(userDevice('3'.repeat(32), 'kiosk-client', 'openid'));
+
+      const result = await handler(tokenGenerationEvent('TokenGeneration_RefreshTokens'));
+      expect((result as PreTokenGenerationV2TriggerEvent).response.claimsAndScopeOverrideDetails).toEqual({});
+    });
+  });
+});
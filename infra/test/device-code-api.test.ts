@@ -0,0 +1,168 @@
+import * as cdk from 'aws-cdk-lib';
+import * as acm from 'aws-cdk-lib/aws-certificatemanager';
+import * as route53 from 'aws-cdk-lib/aws-route53';
+import * as cognito from 'aws-cdk-lib/aws-cognito';
+import { Template, Match } from 'aws-cdk-lib/assertions';
+import { DeviceCodeApi, DeviceCodeApiProps } from '../lib/constructs/device-code-api';
+import { DeviceFlowSettings } from '../lib/lambda/device-code/device-flow-config';
+
+/**
+ * The Device Code API in front of a user pool it does not own, as another
+ * team would deploy it
+ */
+function synth(
+  props: Partial<DeviceCodeApiProps> = {},
+  kioskDeviceFlow?: DeviceFlowSettings
+): { api: DeviceCodeApi; template: Template } {
+  const stack = new cdk.Stack(new cdk.App(), 'TestStack');
+  const userPool = new cognito.UserPool(stack, 'PartnerUserPool');
+  const webClient = userPool.addClient('PartnerWebClient');
+  const kioskClient = userPool.addClient('PartnerKioskClient', { authFlows: { custom: true } });
+
+  const api = new DeviceCodeApi(stack, 'DeviceCode', {
+    userPool,
+    authorizingClient: webClient,
+    deviceClients: [{
+      client: kioskClient,
+      displayName: 'Partner Kiosk',
+      allowedScopes: ['openid'],
+      deviceFlow: kioskDeviceFlow,
+      refreshTokenValidity: cdk.Duration.days(7),
+    }],
+    namePrefix: 'partner',
+    verificationUri: 'https://partner.example.com/activate',
+    ...props,
+  });
+  return { api, template: Template.fromStack(stack) };
+}
+
+describe('DeviceCodeApi', () => {
+  let api: DeviceCodeApi;
+  let template: Template;
+
+  beforeAll(() => {
+    ({ api, template } = synth({ allowedOrigins: ['https://partner.example.com'] }));
+  });
+
+  test('Tables are named with the prefix and retained by default', () => {
+    for (const name of ['partner-device-codes', 'partner-device-attempts', 'partner-user-devices', 'partner-device-connections']) {
+      template.hasResource('AWS::DynamoDB::Table', {
+        Properties: Match.objectLike({ TableName: name }),
+        DeletionPolicy: 'Retain',
+      });
+    }
+  });
+
+  test('Custom auth triggers are added to the given user pool', () => {
+    template.hasResourceProperties('AWS::Cognito::UserPool', {
+      LambdaConfig: {
+        DefineAuthChallenge: Match.anyValue(),
+        CreateAuthChallenge: Match.anyValue(),
+        VerifyAuthChallengeResponse: Match.anyValue(),
+        PreTokenGenerationConfig: {
+          LambdaArn: Match.anyValue(),
+          LambdaVersion: 'V2_0',
+        },
+      },
+    });
+  });
+
+  test('Device Code Lambda is configured for the given pool and clients', () => {
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      FunctionName: 'partner-device-code',
+      Environment: {
+        Variables: Match.objectLike({
+          VERIFICATION_URI: 'https://partner.example.com/activate',
+          USER_POOL_ID: { Ref: Match.stringLikeRegexp('PartnerUserPool') },
+          USER_POOL_CLIENT_ID: { Ref: Match.stringLikeRegexp('PartnerWebClient') },
+          DEVICE_CLIENTS: Match.anyValue(),
+          CORS_ALLOWED_ORIGINS: 'https://partner.example.com',
+          DEVICE_FLOW_DEFAULTS: '{}',
+        }),
+      },
+    });
+  });
+
+  test('REST API is created by default', () => {
+    expect(api.restApi).toBeDefined();
+    expect(api.httpApi).toBeUndefined();
+    template.resourceCountIs('AWS::ApiGateway::RestApi', 1);
+    template.resourceCountIs('AWS::ApiGatewayV2::Api', 1); // Push WebSocket API
+    template.hasResourceProperties('AWS::ApiGateway::Stage', { StageName: 'v1' });
+  });
+
+  test('HTTP API may be created instead', () => {
+    const http = synth({ apiType: 'http' });
+
+    expect(http.api.restApi).toBeUndefined();
+    expect(http.api.httpApi).toBeDefined();
+    http.template.resourceCountIs('AWS::ApiGateway::RestApi', 0);
+    http.template.hasResourceProperties('AWS::ApiGatewayV2::Api', { ProtocolType: 'HTTP' });
+    http.template.hasResourceProperties('AWS::ApiGatewayV2::Stage', { StageName: 'v1' });
+  });
+
+  test('Base paths are passed to the Lambda router', () => {
+    synth({ basePaths: ['/device'] }).template.hasResourceProperties('AWS::Lambda::Function', {
+      FunctionName: 'partner-device-code',
+      Environment: { Variables: Match.objectLike({ DEVICE_API_BASE_PATHS: '/device' }) },
+    });
+  });
+
+  test('Preflight is only answered for browser origins', () => {
+    const deviceOnly = synth();
+
+    template.hasResourceProperties('AWS::ApiGateway::Method', { HttpMethod: 'OPTIONS' });
+    deviceOnly.template.resourcePropertiesCountIs('AWS::ApiGateway::Method', { HttpMethod: 'OPTIONS' }, 0);
+  });
+
+  test('Gateway errors can be read by browser origins', () => {
+    for (const responseType of ['DEFAULT_4XX', 'DEFAULT_5XX', 'BAD_REQUEST_BODY', 'BAD_REQUEST_PARAMETERS']) {
+      template.hasResourceProperties('AWS::ApiGateway::GatewayResponse', {
+        ResponseType: responseType,
+        ResponseParameters: Match.objectLike({
+          'gatewayresponse.header.Access-Control-Allow-Origin': "'https://partner.example.com'",
+        }),
+      });
+    }
+
+    // A list of origins can't be matched, so the request's origin is echoed
+    synth({ allowedOrigins: ['https://partner.example.com', 'https://kiosk.example.com'] })
+      .template.hasResourceProperties('AWS::ApiGateway::GatewayResponse', {
+        ResponseType: 'DEFAULT_4XX',
+        ResponseParameters: Match.objectLike({
+          'gatewayresponse.header.Access-Control-Allow-Origin': 'method.request.header.Origin',
+        }),
+      });
+    synth().template.resourcePropertiesCountIs('AWS::ApiGateway::GatewayResponse', { ResponseType: 'DEFAULT_4XX' }, 0);
+  });
+
+  test('HTTP API may be served from a custom domain', () => {
+    const http = synth({
+      apiType: 'http',
+      domain: {
+        domainName: 'api.partner.example.com',
+        certificate: acm.Certificate.fromCertificateArn(new cdk.Stack(), 'Certificate',
+          'arn:aws:acm:eu-central-1:123456789012:certificate/example'),
+        hostedZone: route53.HostedZone.fromHostedZoneAttributes(new cdk.Stack(), 'HostedZone', {
+          hostedZoneId: 'Z0123456789EXAMPLE',
+          zoneName: 'partner.example.com',
+        }),
+      },
+    });
+
+    expect(http.api.url).toBe('https://api.partner.example.com/');
+    http.template.hasResourceProperties('AWS::ApiGatewayV2::DomainName', { DomainName: 'api.partner.example.com' });
+    http.template.hasResourceProperties('AWS::ApiGatewayV2::ApiMapping', {
+      Stage: 'v1',
+    });
+    http.template.hasResourceProperties('AWS::Route53::RecordSet', { Name: 'api.partner.example.com.', Type: 'A' });
+  });
+
+  test('Invalid device flow defaults are rejected', () => {
+    expect(() => synth({ deviceFlowDefaults: { expiresIn: 5 } })).toThrow(/Invalid deviceFlowDefaults/);
+  });
+
+  test('Invalid device client settings are rejected', () => {
+    expect(() => synth({}, { interval: 0 })).toThrow(/Invalid deviceFlow for Partner Kiosk/);
+  });
+});
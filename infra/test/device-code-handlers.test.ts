@@ -0,0 +1,904 @@
+/**
+ * Handler-level tests for the Device Code Flow lifecycle
+ *
+ * Runs code -> lookup -> authorize/deny -> token against the in-memory store,
+ * with a local encryption key, a fake access token verifier and a fake token
+ * minter in place of KMS and Cognito.
+ */
+import * as crypto from 'crypto';
+import { APIGatewayProxyEvent, APIGatewayProxyResult, DynamoDBStreamEvent } from 'aws-lambda';
+import { DevicePushMessage } from '@thesafezone/idp-common';
+import { DeviceCodeStore } from '../lib/lambda/device-code/device-code-store';
+import { createInMemoryDeviceCodeStore } from '../lib/lambda/device-code/in-memory-store';
+import {
+  AttemptStore,
+  createInMemoryAttemptStore,
+  MAX_FAILED_ATTEMPTS_PER_CALLER,
+  MAX_FAILED_ATTEMPTS_PER_CODE,
+  ATTEMPT_WINDOW_SECONDS,
+} from '../lib/lambda/device-code/attempt-limiter';
+import { createLocalEncryptionProvider, setTokenEncryptionProvider } from '../lib/lambda/device-code/token-encryption';
+import { setVerifier } from '../lib/lambda/device-code/jwt-verifier';
+import { setTokenMinter } from '../lib/lambda/device-code/token-minting';
+import { handleDeviceCodeRequest } from '../lib/lambda/device-code/handlers/device-code';
+import { handleDeviceTokenRequest } from '../lib/lambda/device-code/handlers/device-token';
+import { handleDeviceAuthorizeRequest } from '../lib/lambda/device-code/handlers/device-authorize';
+import { handleDeviceDenyRequest } from '../lib/lambda/device-code/handlers/device-deny';
+import { handleDeviceLookupRequest } from '../lib/lambda/device-code/handlers/device-lookup';
+import { handleDeviceConnect } from '../lib/lambda/device-code/handlers/device-connect';
+import { handleDeviceDisconnect } from '../lib/lambda/device-code/handlers/device-disconnect';
+import { handleDeviceStatusStream } from '../lib/lambda/device-code/handlers/device-status-stream';
+import { ConnectionManager, createInMemoryConnectionManager } from '../lib/lambda/device-code/connection-manager';
+import { generateUserCode } from '../lib/lambda/device-code/code-generator';
+import {
+  UserDeviceRegistry,
+  createInMemoryUserDeviceRegistry,
+  setUserDeviceRegistry,
+} from '../lib/lambda/device-code/user-device-registry';
+import { setTokenRevoker } from '../lib/lambda/device-code/token-revocation';
+import { handleListUserDevicesRequest } from '../lib/lambda/device-code/handlers/user-devices';
+import { handleRevokeUserDeviceRequest } from '../lib/lambda/device-code/handlers/revoke-user-device';
+
+const VR_CLIENT_ID = 'vr-client';
+const START = Date.UTC(2025, 0, 1);
+
+const KIOSK_CLIENT_ID = 'kiosk-client';
+
+process.env.DEVICE_CLIENTS = JSON.stringify({
+  [VR_CLIENT_ID]: {
+    displayName: 'TheSafeZone VR',
+    allowedScopes: ['openid', 'email', 'profile'],
+    refreshTokenValidity: 30 * 24 * 3600,
+  },
+  [KIOSK_CLIENT_ID]: {
+    displayName: 'TheSafeZone Kiosk',
+    allowedScopes: ['openid'],
+    deviceFlow: { expiresIn: 900, interval: 10, userCode: { length: 6, chars: '0123456789' } },
+  },
+});
+
+function jsonEvent(body: Record<string, string>, sourceIp = '203.0.113.10'): APIGatewayProxyEvent {
+  return {
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+    isBase64Encoded: false,
+    requestContext: { identity: { sourceIp } },
+  } as unknown as APIGatewayProxyEvent;
+}
+
+function lookupEvent(userCode: string, accessToken: string): APIGatewayProxyEvent {
+  return {
+    body: null,
+    headers: { Authorization: `Bearer ${accessToken}` },
+    queryStringParameters: { user_code: userCode },
+    isBase64Encoded: false,
+  } as unknown as APIGatewayProxyEvent;
+}
+
+function tokenEvent(deviceCode: string): APIGatewayProxyEvent {
+  return jsonEvent({
+    grant_type: 'urn:ietf:params:oauth:grant-type:device_code',
+    device_code: deviceCode,
+    client_id: VR_CLIENT_ID,
+  });
+}
+
+function bearerEvent(accessToken?: string): APIGatewayProxyEvent {
+  return {
+    body: null,
+    headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {},
+    isBase64Encoded: false,
+  } as unknown as APIGatewayProxyEvent;
+}
+
+function connectEvent(connectionId: string, deviceCode: string): APIGatewayProxyEvent {
+  return {
+    body: null,
+    headers: {},
+    queryStringParameters: { device_code: deviceCode },
+    isBase64Encoded: false,
+    requestContext: { connectionId, routeKey: '$connect' },
+  } as unknown as APIGatewayProxyEvent;
+}
+
+function disconnectEvent(connectionId: string): APIGatewayProxyEvent {
+  return {
+    body: null,
+    headers: {},
+    isBase64Encoded: false,
+    requestContext: { connectionId, routeKey: '$disconnect' },
+  } as unknown as APIGatewayProxyEvent;
+}
+
+// What the device code table stream delivers for a status change
+function statusChangeEvent(deviceCode: string, from: string, to: string): DynamoDBStreamEvent {
+  return {
+    Records: [{
+      eventName: 'MODIFY',
+      dynamodb: {
+        Keys: { deviceCode: { S: deviceCode } },
+        OldImage: { deviceCode: { S: deviceCode }, status: { S: from } },
+        NewImage: { deviceCode: { S: deviceCode }, status: { S: to } },
+      },
+    }],
+  };
+}
+
+function body(result: APIGatewayProxyResult) {
+  return JSON.parse(result.body);
+}
+
+function advanceSeconds(seconds: number): void {
+  jest.setSystemTime(Date.now() + seconds * 1000);
+}
+
+describe('Device Code Handlers', () => {
+  let store: DeviceCodeStore;
+  let attempts: AttemptStore;
+  let devices: UserDeviceRegistry;
+  let mintedScopes: string[];
+
+  beforeAll(() => {
+    setTokenEncryptionProvider(createLocalEncryptionProvider(crypto.randomBytes(32)));
+    setVerifier({
+      async verify(accessToken) {
+        if (accessToken === 'valid-access-token') return { sub: 'user-sub', username: 'user-1' };
+        if (accessToken === 'other-access-token') return { sub: 'other-sub', username: 'user-2' };
+        // Any number of further users, e.g. guessers with many accounts
+        const [, user] = accessToken.match(/^user-token:(\d+)$/) ?? [];
+        if (user) return { sub: `user-${user}-sub`, username: `user-${user}` };
+        throw new Error('invalid token');
+      },
+    });
+    setTokenMinter({
+      async mint(clientId, username, deviceCode, scope) {
+        mintedScopes.push(scope);
+        return {
+          accessToken: `access:${clientId}:${username}:${deviceCode.slice(0, 8)}`,
+          idToken: 'id-token',
+          refreshToken: 'refresh-token',
+          expiresIn: 3600,
+        };
+      },
+    });
+  });
+
+  afterAll(() => {
+    setTokenEncryptionProvider(null);
+    setVerifier(null);
+    setTokenMinter(null);
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: START });
+    store = createInMemoryDeviceCodeStore();
+    attempts = createInMemoryAttemptStore();
+    devices = createInMemoryUserDeviceRegistry();
+    setUserDeviceRegistry(devices);
+    mintedScopes = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    setUserDeviceRegistry(null);
+  });
+
+  async function requestCode() {
+    const result = await handleDeviceCodeRequest(jsonEvent({ client_id: VR_CLIENT_ID }), store);
+    expect(result.statusCode).toBe(200);
+    return body(result) as { device_code: string; user_code: string; interval: number; expires_in: number };
+  }
+
+  test('code -> lookup -> authorize -> token issues minted tokens once', async () => {
+    const code = await requestCode();
+
+    const pending = await handleDeviceTokenRequest(tokenEvent(code.device_code), store);
+    expect(body(pending).error).toBe('authorization_pending');
+
+    const lookup = await handleDeviceLookupRequest(lookupEvent(code.user_code, 'valid-access-token'), store, attempts);
+    expect(lookup.statusCode).toBe(200);
+    expect(body(lookup)).toMatchObject({ client_id: VR_CLIENT_ID, client_name: 'TheSafeZone VR' });
+
+    const authorize = await handleDeviceAuthorizeRequest(
+      jsonEvent({ user_code: code.user_code, access_token: 'valid-access-token' }), store, attempts);
+    expect(authorize.statusCode).toBe(200);
+
+    // Tokens are stored encrypted, never in plaintext
+    const record = await store.get(code.device_code);
+    expect(record?.status).toBe('authorized');
+    expect(record?.userId).toBe('user-sub');
+    expect(record?.encryptedTokens?.ciphertext.toString('utf-8')).not.toContain('access:');
+
+    advanceSeconds(code.interval);
+    const tokens = await handleDeviceTokenRequest(tokenEvent(code.device_code), store);
+    expect(tokens.statusCode).toBe(200);
+    expect(body(tokens)).toEqual({
+      access_token: `access:${VR_CLIENT_ID}:user-1:${code.device_code.slice(0, 8)}`,
+      id_token: 'id-token',
+      refresh_token: 'refresh-token',
+      token_type: 'Bearer',
+      expires_in: 3600,
+    });
+
+    // The record is consumed by the successful poll and its tokens dropped
+    const consumed = await store.get(code.device_code);
+    expect(consumed?.status).toBe('consumed');
+    expect(consumed?.encryptedTokens).toBeUndefined();
+
+    advanceSeconds(code.interval);
+    const replay = await handleDeviceTokenRequest(tokenEvent(code.device_code), store);
+    expect(body(replay)).toEqual({
+      error: 'invalid_grant',
+      error_description: 'Device code has already been used',
+    });
+  });
+
+  test('code -> deny -> token returns access_denied', async () => {
+    const code = await requestCode();
+
+    const deny = await handleDeviceDenyRequest(
+      jsonEvent({ user_code: code.user_code, access_token: 'valid-access-token' }), store, attempts);
+    expect(deny.statusCode).toBe(200);
+
+    const result = await handleDeviceTokenRequest(tokenEvent(code.device_code), store);
+    expect(body(result).error).toBe('access_denied');
+    expect((await store.get(code.device_code))?.status).toBe('consumed');
+  });
+
+  test('polling faster than the interval returns slow_down', async () => {
+    const code = await requestCode();
+
+    await handleDeviceTokenRequest(tokenEvent(code.device_code), store);
+    advanceSeconds(1);
+    const result = await handleDeviceTokenRequest(tokenEvent(code.device_code), store);
+    expect(body(result).error).toBe('slow_down');
+  });
+
+  test('authorize is rejected with an invalid access token', async () => {
+    const code = await requestCode();
+
+    const result = await handleDeviceAuthorizeRequest(
+      jsonEvent({ user_code: code.user_code, access_token: 'forged' }), store, attempts);
+    expect(result.statusCode).toBe(401);
+    expect((await store.get(code.device_code))?.status).toBe('pending');
+  });
+
+  test('tokens are minted for the scope the device was granted', async () => {
+    const result = await handleDeviceCodeRequest(jsonEvent({ client_id: VR_CLIENT_ID, scope: 'openid email' }), store);
+    const code = body(result) as { device_code: string; user_code: string };
+
+    await handleDeviceAuthorizeRequest(
+      jsonEvent({ user_code: code.user_code, access_token: 'valid-access-token' }), store, attempts);
+    expect(mintedScopes).toEqual(['openid email']);
+
+    // The scope is kept for the device's refreshed tokens
+    await handleDeviceTokenRequest(tokenEvent(code.device_code), store);
+    const [device] = await devices.list('user-sub');
+    expect(device.scope).toBe('openid email');
+  });
+
+  test('a device code cannot be authorized twice', async () => {
+    const code = await requestCode();
+    const event = jsonEvent({ user_code: code.user_code, access_token: 'valid-access-token' });
+
+    expect((await handleDeviceAuthorizeRequest(event, store, attempts)).statusCode).toBe(200);
+    const second = await handleDeviceAuthorizeRequest(event, store, attempts);
+    expect(second.statusCode).toBe(400);
+    expect(body(second).error_description).toBe('Device code is already authorized');
+  });
+
+  test('expired device codes return expired_token and can no longer be approved', async () => {
+    const code = await requestCode();
+
+    advanceSeconds(code.expires_in + 1);
+    const expired = await handleDeviceTokenRequest(tokenEvent(code.device_code), store);
+    expect(body(expired).error).toBe('expired_token');
+
+    const lateApproval = await handleDeviceAuthorizeRequest(
+      jsonEvent({ user_code: code.user_code, access_token: 'valid-access-token' }), store, attempts);
+    expect(body(lateApproval).error).toBe('expired_token');
+  });
+
+  describe('Device metadata', () => {
+    test('device details are stored, shown on lookup and kept on the authorized record', async () => {
+      const result = await handleDeviceCodeRequest(jsonEvent({
+        client_id: VR_CLIENT_ID,
+        device_name: '  Living room headset ',
+        device_model: 'Quest 3',
+        app_version: '1.4.0',
+      }), store);
+      expect(result.statusCode).toBe(200);
+      const code = body(result);
+
+      const lookup = await handleDeviceLookupRequest(lookupEvent(code.user_code, 'valid-access-token'), store, attempts);
+      expect(body(lookup)).toMatchObject({
+        device_name: 'Living room headset',
+        device_model: 'Quest 3',
+        app_version: '1.4.0',
+      });
+
+      await handleDeviceAuthorizeRequest(
+        jsonEvent({ user_code: code.user_code, access_token: 'valid-access-token' }), store, attempts);
+      expect(await store.get(code.device_code)).toMatchObject({
+        status: 'authorized',
+        deviceName: 'Living room headset',
+        deviceModel: 'Quest 3',
+        appVersion: '1.4.0',
+      });
+    });
+
+    test('device details are optional', async () => {
+      const code = await requestCode();
+
+      const lookup = await handleDeviceLookupRequest(lookupEvent(code.user_code, 'valid-access-token'), store, attempts);
+      expect(body(lookup).device_name).toBeUndefined();
+      expect((await store.get(code.device_code))?.deviceName).toBeUndefined();
+    });
+
+    test.each([
+      ['device_name must be at most 64 characters', { device_name: 'x'.repeat(65) }],
+      ['device_model contains invalid characters', { device_model: 'Quest\n3' }],
+      ['app_version contains invalid characters', { app_version: '1.4.0\u202e' }],
+    ])('invalid device details are rejected: %s', async (description, metadata) => {
+      const result = await handleDeviceCodeRequest(jsonEvent({ client_id: VR_CLIENT_ID, ...metadata }), store);
+      expect(result.statusCode).toBe(400);
+      expect(body(result)).toEqual({ error: 'invalid_request', error_description: description });
+    });
+  });
+
+  describe('QR codes', () => {
+    test('qr_code=true renders verification_uri_complete as SVG and PNG', async () => {
+      // The PNG encoder streams its output on real timers
+      jest.useRealTimers();
+      const result = await handleDeviceCodeRequest(jsonEvent({ client_id: VR_CLIENT_ID, qr_code: 'true' }), store);
+      expect(result.statusCode).toBe(200);
+
+      const qr = body(result).verification_uri_complete_qr;
+      expect(qr.svg).toMatch(/^<svg[^>]*xmlns="http:\/\/www\.w3\.org\/2000\/svg"/);
+      expect(qr.png).toMatch(/^data:image\/png;base64,/);
+      const png = Buffer.from(qr.png.split(',')[1], 'base64');
+      expect(png.subarray(1, 4).toString('ascii')).toBe('PNG');
+    });
+
+    test('QR codes are only rendered when requested', async () => {
+      const code = await requestCode();
+      expect(code).not.toHaveProperty('verification_uri_complete_qr');
+    });
+
+    test('invalid qr_code values are rejected', async () => {
+      const result = await handleDeviceCodeRequest(jsonEvent({ client_id: VR_CLIENT_ID, qr_code: 'yes' }), store);
+      expect(result.statusCode).toBe(400);
+      expect(body(result)).toEqual({ error: 'invalid_request', error_description: 'qr_code must be true or false' });
+    });
+  });
+
+  describe('Per-client configuration', () => {
+    test('codes use the lifetime, interval and user code format of the client', async () => {
+      const result = await handleDeviceCodeRequest(jsonEvent({ client_id: KIOSK_CLIENT_ID }), store);
+      const code = body(result);
+      expect(code).toMatchObject({ expires_in: 900, interval: 10 });
+      expect(code.user_code).toMatch(/^\d{3}-\d{3}$/);
+
+      const record = await store.get(code.device_code);
+      expect(record).toMatchObject({ expiresAt: START / 1000 + 900, interval: 10 });
+    });
+
+    test('clients without settings use the defaults', async () => {
+      const code = await requestCode();
+      expect(code).toMatchObject({ expires_in: 600, interval: 5 });
+      expect(code.user_code).toMatch(/^[A-Z2-9]{3}-[A-Z2-9]{5}$/);
+    });
+
+    test('user codes of any registered format are accepted on user-facing endpoints', async () => {
+      const kiosk = body(await handleDeviceCodeRequest(jsonEvent({ client_id: KIOSK_CLIENT_ID }), store));
+
+      const lookup = await handleDeviceLookupRequest(lookupEvent(kiosk.user_code, 'valid-access-token'), store, attempts);
+      expect(body(lookup)).toMatchObject({ client_id: KIOSK_CLIENT_ID });
+
+      // Neither 6 alphanumerics nor 8 digits are in any registered format
+      for (const userCode of ['ABC-DEF', '1234-5678']) {
+        const result = await handleDeviceLookupRequest(lookupEvent(userCode, 'valid-access-token'), store, attempts);
+        expect(body(result)).toEqual({ error: 'invalid_request', error_description: 'Invalid user_code' });
+      }
+    });
+  });
+
+  describe('Completion push', () => {
+    let pushed: Array<{ connectionId: string; message: DevicePushMessage }>;
+    let closed: Set<string>;
+    let connections: ConnectionManager;
+
+    beforeEach(() => {
+      pushed = [];
+      closed = new Set();
+      connections = createInMemoryConnectionManager((connectionId, message) => {
+        if (closed.has(connectionId)) return false;
+        pushed.push({ connectionId, message });
+        return true;
+      });
+    });
+
+    afterEach(() => {
+      delete process.env.DEVICE_PUSH_URI;
+    });
+
+    test('the push URI is returned when the WebSocket API is deployed', async () => {
+      expect(await requestCode()).not.toHaveProperty('push_uri');
+
+      process.env.DEVICE_PUSH_URI = 'wss://push.example.com/v1';
+      expect(await requestCode()).toMatchObject({ push_uri: 'wss://push.example.com/v1' });
+    });
+
+    test('approval is pushed and the tokens can be collected without waiting out the interval', async () => {
+      const code = await requestCode();
+      const connect = await handleDeviceConnect(connectEvent('conn-1', code.device_code), store, connections);
+      expect(connect.statusCode).toBe(200);
+
+      const pending = await handleDeviceTokenRequest(tokenEvent(code.device_code), store);
+      expect(body(pending).error).toBe('authorization_pending');
+
+      await handleDeviceAuthorizeRequest(
+        jsonEvent({ user_code: code.user_code, access_token: 'valid-access-token' }), store, attempts);
+      await handleDeviceStatusStream(statusChangeEvent(code.device_code, 'pending', 'authorized'), connections);
+      expect(pushed).toEqual([
+        { connectionId: 'conn-1', message: { type: 'device_code_status', status: 'authorized' } },
+      ]);
+
+      advanceSeconds(1);
+      const tokens = await handleDeviceTokenRequest(tokenEvent(code.device_code), store);
+      expect(tokens.statusCode).toBe(200);
+    });
+
+    test('denials are pushed to every connection waiting on the code', async () => {
+      const code = await requestCode();
+      const other = await requestCode();
+      await handleDeviceConnect(connectEvent('conn-1', code.device_code), store, connections);
+      await handleDeviceConnect(connectEvent('conn-2', code.device_code), store, connections);
+      await handleDeviceConnect(connectEvent('conn-3', other.device_code), store, connections);
+
+      await handleDeviceStatusStream(statusChangeEvent(code.device_code, 'pending', 'denied'), connections);
+      expect(pushed.map((push) => push.connectionId)).toEqual(['conn-1', 'conn-2']);
+      expect(pushed[0].message.status).toBe('denied');
+    });
+
+    test('only codes leaving pending are pushed', async () => {
+      const code = await requestCode();
+      await handleDeviceConnect(connectEvent('conn-1', code.device_code), store, connections);
+
+      await handleDeviceStatusStream(statusChangeEvent(code.device_code, 'authorized', 'consumed'), connections);
+      await handleDeviceStatusStream(statusChangeEvent(code.device_code, 'pending', 'pending'), connections);
+      expect(pushed).toEqual([]);
+    });
+
+    test('connections are rejected for unknown or settled codes', async () => {
+      const unknown = await handleDeviceConnect(connectEvent('conn-1', 'a'.repeat(32)), store, connections);
+      expect(unknown.statusCode).toBe(400);
+      expect(body(unknown).error).toBe('invalid_grant');
+
+      const invalid = await handleDeviceConnect(connectEvent('conn-2', 'not-a-device-code'), store, connections);
+      expect(body(invalid).error).toBe('invalid_request');
+
+      // A device that connects after the user decided polls to get the outcome
+      const code = await requestCode();
+      await handleDeviceDenyRequest(
+        jsonEvent({ user_code: code.user_code, access_token: 'valid-access-token' }), store, attempts);
+      const settled = await handleDeviceConnect(connectEvent('conn-3', code.device_code), store, connections);
+      expect(settled.statusCode).toBe(400);
+      expect(await connections.notify(code.device_code, { type: 'device_code_status', status: 'denied' })).toBe(0);
+    });
+
+    test('disconnected and closed connections are forgotten', async () => {
+      const code = await requestCode();
+      await handleDeviceConnect(connectEvent('conn-1', code.device_code), store, connections);
+      await handleDeviceConnect(connectEvent('conn-2', code.device_code), store, connections);
+
+      const disconnect = await handleDeviceDisconnect(disconnectEvent('conn-1'), connections);
+      expect(disconnect.statusCode).toBe(200);
+
+      // conn-2 went away without $disconnect
+      closed.add('conn-2');
+      const message: DevicePushMessage = { type: 'device_code_status', status: 'authorized' };
+      expect(await connections.notify(code.device_code, message)).toBe(0);
+
+      closed.clear();
+      expect(await connections.notify(code.device_code, message)).toBe(0);
+      expect(pushed).toEqual([]);
+    });
+  });
+
+  describe('Signed-in devices', () => {
+    let revoked: Array<{ clientId: string; refreshToken: string }>;
+
+    beforeEach(() => {
+      revoked = [];
+      setTokenRevoker({
+        async revoke(clientId, refreshToken) {
+          revoked.push({ clientId, refreshToken });
+        },
+      });
+    });
+
+    afterEach(() => {
+      setTokenRevoker(null);
+    });
+
+    // Runs the flow through to the device collecting its tokens
+    async function signIn(params: Record<string, string> = {}, accessToken = 'valid-access-token') {
+      const result = await handleDeviceCodeRequest(jsonEvent({ client_id: VR_CLIENT_ID, ...params }), store);
+      const code = body(result) as { device_code: string; user_code: string };
+      await handleDeviceAuthorizeRequest(
+        jsonEvent({ user_code: code.user_code, access_token: accessToken }), store, attempts);
+      const tokens = await handleDeviceTokenRequest(tokenEvent(code.device_code), store);
+      expect(tokens.statusCode).toBe(200);
+      return code;
+    }
+
+    async function listDevices(accessToken = 'valid-access-token') {
+      const result = await handleListUserDevicesRequest(bearerEvent(accessToken), devices);
+      expect(result.statusCode).toBe(200);
+      return body(result).devices as Array<Record<string, unknown>>;
+    }
+
+    test('the device is recorded with its refresh token when it collects its tokens', async () => {
+      const code = await signIn({ device_name: 'Living room', device_model: 'Quest 3', app_version: '1.4.0' });
+      advanceSeconds(60);
+      await signIn();
+
+      const listed = await listDevices();
+      expect(listed).toHaveLength(2);
+      expect(listed[1]).toEqual({
+        device_id: expect.stringMatching(/^[a-f0-9]{32}$/),
+        client_id: VR_CLIENT_ID,
+        client_name: 'TheSafeZone VR',
+        device_name: 'Living room',
+        device_model: 'Quest 3',
+        app_version: '1.4.0',
+        first_seen_at: START / 1000,
+        signed_in_at: START / 1000,
+      });
+      expect(listed[0].signed_in_at).toBe(START / 1000 + 60);
+
+      // The refresh token is stored encrypted and never listed
+      const stored = await devices.get('user-sub', listed[1].device_id as string);
+      expect(stored?.encryptedRefreshToken.ciphertext.toString('utf-8')).not.toContain('refresh-token');
+      expect(JSON.stringify(listed)).not.toContain(code.device_code);
+
+      // Set once the device is seen refreshing its tokens
+      await devices.touch('user-sub', listed[1].device_id as string, START / 1000 + 120);
+      expect((await listDevices())[1].last_seen_at).toBe(START / 1000 + 120);
+    });
+
+    test('devices are listed per user and expire with the refresh token', async () => {
+      await signIn();
+      await signIn({}, 'other-access-token');
+
+      expect(await listDevices()).toHaveLength(1);
+      expect(await listDevices('other-access-token')).toHaveLength(1);
+
+      advanceSeconds(30 * 24 * 3600);
+      expect(await listDevices()).toEqual([]);
+    });
+
+    test('a denied device is not recorded', async () => {
+      const result = await handleDeviceCodeRequest(jsonEvent({ client_id: VR_CLIENT_ID }), store);
+      const code = body(result) as { device_code: string; user_code: string };
+      await handleDeviceDenyRequest(
+        jsonEvent({ user_code: code.user_code, access_token: 'valid-access-token' }), store, attempts);
+      await handleDeviceTokenRequest(tokenEvent(code.device_code), store);
+
+      expect(await listDevices()).toEqual([]);
+    });
+
+    test('revoking a device revokes its refresh token and forgets it', async () => {
+      await signIn();
+      const [device] = await listDevices();
+      const deviceId = device.device_id as string;
+
+      const result = await handleRevokeUserDeviceRequest(bearerEvent('valid-access-token'), deviceId, devices);
+      expect(result.statusCode).toBe(204);
+      expect(result.body).toBe('');
+      expect(revoked).toEqual([{ clientId: VR_CLIENT_ID, refreshToken: 'refresh-token' }]);
+      expect(await listDevices()).toEqual([]);
+
+      const again = await handleRevokeUserDeviceRequest(bearerEvent('valid-access-token'), deviceId, devices);
+      expect(again.statusCode).toBe(404);
+      expect(revoked).toHaveLength(1);
+    });
+
+    test("other users' devices cannot be revoked", async () => {
+      await signIn();
+      const [device] = await listDevices();
+
+      const result = await handleRevokeUserDeviceRequest(
+        bearerEvent('other-access-token'), device.device_id as string, devices);
+      expect(result.statusCode).toBe(404);
+      expect(body(result).error).toBe('not_found');
+      expect(revoked).toEqual([]);
+      expect(await listDevices()).toHaveLength(1);
+    });
+
+    test('the device is kept if Cognito does not confirm the revocation', async () => {
+      await signIn();
+      const [device] = await listDevices();
+      setTokenRevoker({
+        async revoke() {
+          throw new Error('Cognito unavailable');
+        },
+      });
+
+      const result = await handleRevokeUserDeviceRequest(
+        bearerEvent('valid-access-token'), device.device_id as string, devices);
+      expect(result.statusCode).toBe(500);
+      expect(await listDevices()).toHaveLength(1);
+    });
+
+    test('requests need a valid access token and a well-formed device id', async () => {
+      expect((await handleListUserDevicesRequest(bearerEvent(), devices)).statusCode).toBe(401);
+      expect((await handleListUserDevicesRequest(bearerEvent('forged'), devices)).statusCode).toBe(401);
+
+      const deviceId = 'a'.repeat(32);
+      expect((await handleRevokeUserDeviceRequest(bearerEvent(), deviceId, devices)).statusCode).toBe(401);
+      expect((await handleRevokeUserDeviceRequest(bearerEvent('forged'), deviceId, devices)).statusCode).toBe(401);
+
+      const invalid = await handleRevokeUserDeviceRequest(bearerEvent('valid-access-token'), '../x', devices);
+      expect(invalid.statusCode).toBe(400);
+      expect(body(invalid).error).toBe('invalid_request');
+    });
+  });
+
+  describe('Concurrent transitions', () => {
+    test('of two concurrent approvals only one stores tokens', async () => {
+      const code = await requestCode();
+      const results = await Promise.all([
+        handleDeviceAuthorizeRequest(
+          jsonEvent({ user_code: code.user_code, access_token: 'valid-access-token' }), store, attempts),
+        handleDeviceAuthorizeRequest(
+          jsonEvent({ user_code: code.user_code, access_token: 'other-access-token' }), store, attempts),
+      ]);
+
+      const statuses = results.map((result) => result.statusCode).sort();
+      expect(statuses).toEqual([200, 400]);
+      const loser = results.find((result) => result.statusCode === 400)!;
+      expect(body(loser)).toEqual({
+        error: 'invalid_grant',
+        error_description: 'Device code is already authorized',
+      });
+
+      const winner = results[0].statusCode === 200 ? 'user-sub' : 'other-sub';
+      expect((await store.get(code.device_code))?.userId).toBe(winner);
+    });
+
+    test('an approval racing a denial reports what the code became', async () => {
+      const code = await requestCode();
+      const [approval, denial] = await Promise.all([
+        handleDeviceAuthorizeRequest(
+          jsonEvent({ user_code: code.user_code, access_token: 'valid-access-token' }), store, attempts),
+        handleDeviceDenyRequest(
+          jsonEvent({ user_code: code.user_code, access_token: 'valid-access-token' }), store, attempts),
+      ]);
+
+      const status = (await store.get(code.device_code))?.status;
+      if (status === 'authorized') {
+        expect(approval.statusCode).toBe(200);
+        expect(body(denial).error_description).toBe('Device code is already authorized');
+      } else {
+        expect(status).toBe('denied');
+        expect(denial.statusCode).toBe(200);
+        expect(body(approval).error_description).toBe('Device code is already denied');
+      }
+    });
+
+    test('uncollected tokens expire with the code', async () => {
+      const code = await requestCode();
+      await handleDeviceAuthorizeRequest(
+        jsonEvent({ user_code: code.user_code, access_token: 'valid-access-token' }), store, attempts);
+
+      advanceSeconds(code.expires_in + 1);
+      const poll = await handleDeviceTokenRequest(tokenEvent(code.device_code), store);
+      expect(body(poll).error).toBe('expired_token');
+
+      const record = await store.get(code.device_code);
+      expect(record?.status).toBe('consumed');
+      expect(record?.encryptedTokens).toBeUndefined();
+    });
+  });
+
+  describe('Brute-force protection', () => {
+    async function authorize(userCode: string, accessToken = 'valid-access-token', sourceIp?: string) {
+      return handleDeviceAuthorizeRequest(
+        jsonEvent({ user_code: userCode, access_token: accessToken }, sourceIp), store, attempts);
+    }
+
+    async function failAttempts(count: number, accessToken = 'valid-access-token', sourceIp?: string) {
+      for (let i = 0; i < count; i++) {
+        const result = await authorize(generateUserCode(), accessToken, sourceIp);
+        expect(body(result).error).toBe('invalid_grant');
+      }
+    }
+
+    test('callers over the failed attempt limit get 429 with Retry-After', async () => {
+      await failAttempts(MAX_FAILED_ATTEMPTS_PER_CALLER);
+
+      // Even a real code is rejected once the caller is over the limit
+      const code = await requestCode();
+      const limited = await authorize(code.user_code);
+      expect(limited.statusCode).toBe(429);
+      expect(body(limited).error).toBe('too_many_attempts');
+      expect(limited.headers?.['Retry-After']).toBe(ATTEMPT_WINDOW_SECONDS.toString());
+
+      // Lookups and denials share the limit
+      const lookup = await handleDeviceLookupRequest(lookupEvent(code.user_code, 'valid-access-token'), store, attempts);
+      expect(lookup.statusCode).toBe(429);
+      const deny = await handleDeviceDenyRequest(
+        jsonEvent({ user_code: code.user_code, access_token: 'valid-access-token' }), store, attempts);
+      expect(deny.statusCode).toBe(429);
+    });
+
+    test('the window slides - callers may retry once old failures leave it', async () => {
+      await failAttempts(MAX_FAILED_ATTEMPTS_PER_CALLER - 1);
+      advanceSeconds(300);
+      await failAttempts(1);
+
+      const code = await requestCode();
+      expect((await authorize(code.user_code)).headers?.['Retry-After'])
+        .toBe((ATTEMPT_WINDOW_SECONDS - 300).toString());
+
+      advanceSeconds(ATTEMPT_WINDOW_SECONDS - 300);
+      const fresh = await requestCode();
+      expect((await authorize(fresh.user_code)).statusCode).toBe(200);
+    });
+
+    test('failures are tracked per source IP as well as per user', async () => {
+      await failAttempts(MAX_FAILED_ATTEMPTS_PER_CALLER, 'valid-access-token', '198.51.100.7');
+      const code = await requestCode();
+
+      // Another user from the same IP is limited
+      expect((await authorize(code.user_code, 'other-access-token', '198.51.100.7')).statusCode).toBe(429);
+      // The same user from another IP is still limited by their sub
+      expect((await authorize(code.user_code, 'valid-access-token', '192.0.2.1')).statusCode).toBe(429);
+      // Another user from another IP is not
+      expect((await authorize(code.user_code, 'other-access-token', '192.0.2.1')).statusCode).toBe(200);
+    });
+
+    test('forged access tokens naming a code do not invalidate it', async () => {
+      const code = await requestCode();
+
+      for (let i = 0; i < MAX_FAILED_ATTEMPTS_PER_CODE; i++) {
+        const result = await authorize(code.user_code, 'forged', `192.0.2.${i}`);
+        expect(result.statusCode).toBe(401);
+      }
+
+      expect((await authorize(code.user_code)).statusCode).toBe(200);
+    });
+
+    test('sources spraying forged access tokens get 429', async () => {
+      const code = await requestCode();
+
+      for (let i = 0; i < MAX_FAILED_ATTEMPTS_PER_CALLER; i++) {
+        expect((await authorize(code.user_code, 'forged', '198.51.100.7')).statusCode).toBe(401);
+      }
+
+      const limited = await authorize(code.user_code, 'forged', '198.51.100.7');
+      expect(limited.statusCode).toBe(429);
+      expect(limited.headers?.['Retry-After']).toBe(ATTEMPT_WINDOW_SECONDS.toString());
+
+      // The code is still good for its user elsewhere
+      expect((await authorize(code.user_code, 'valid-access-token', '192.0.2.1')).statusCode).toBe(200);
+    });
+
+    test('a code is invalidated after users over the limit name it repeatedly', async () => {
+      await failAttempts(MAX_FAILED_ATTEMPTS_PER_CALLER, 'other-access-token', '198.51.100.7');
+      const code = await requestCode();
+
+      for (let i = 0; i < MAX_FAILED_ATTEMPTS_PER_CODE; i++) {
+        const result = await authorize(code.user_code, 'other-access-token', `192.0.2.${i}`);
+        expect(result.statusCode).toBe(429);
+      }
+
+      const approval = await authorize(code.user_code);
+      expect(body(approval).error).toBe('expired_token');
+
+      const poll = await handleDeviceTokenRequest(tokenEvent(code.device_code), store);
+      expect(body(poll).error).toBe('expired_token');
+    });
+
+    test('a code is invalidated after users of many accounts behind a limited source name it', async () => {
+      await failAttempts(MAX_FAILED_ATTEMPTS_PER_CALLER, 'other-access-token', '198.51.100.7');
+      const code = await requestCode();
+
+      // Each account is new and under its own limit, but the source is not
+      for (let i = 0; i < MAX_FAILED_ATTEMPTS_PER_CODE; i++) {
+        const result = await authorize(code.user_code, `user-token:${i}`, '198.51.100.7');
+        expect(result.statusCode).toBe(429);
+      }
+
+      const approval = await authorize(code.user_code, 'valid-access-token', '192.0.2.1');
+      expect(body(approval).error).toBe('expired_token');
+    });
+
+    test('successful requests do not count as failures', async () => {
+      for (let i = 0; i < MAX_FAILED_ATTEMPTS_PER_CALLER + 1; i++) {
+        const code = await requestCode();
+        expect((await authorize(code.user_code)).statusCode).toBe(200);
+      }
+    });
+  });
+});
+
+describe('In-Memory Device Code Store', () => {
+  const record = {
+    deviceCode: 'd'.repeat(32),
+    userCode: 'ABCDEFGH',
+    clientId: VR_CLIENT_ID,
+    scope: 'openid',
+    expiresAt: 1600,
+    interval: 5,
+    status: 'pending' as const,
+    ttl: 1660,
+    createdAt: 1000,
+  };
+
+  test('put rejects an existing device code', async () => {
+    const store = createInMemoryDeviceCodeStore(() => 1000);
+    await store.put(record);
+    await expect(store.put(record)).rejects.toThrow();
+  });
+
+  test('records past their TTL are treated as deleted', async () => {
+    let now = 1000;
+    const store = createInMemoryDeviceCodeStore(() => now);
+    await store.put(record);
+
+    now = record.ttl;
+    expect(await store.get(record.deviceCode)).toBeNull();
+    expect(await store.getByUserCode(record.userCode)).toBeNull();
+    expect(await store.transition(record.deviceCode, 'pending', { status: 'denied' }))
+      .toEqual({ ok: false, reason: 'not_found' });
+    expect(await store.recordPoll(record.deviceCode, record.interval, now)).toBeNull();
+
+    // The device code can be reused once the old record has expired
+    await expect(store.put({ ...record, ttl: now + 660 })).resolves.toBeUndefined();
+  });
+
+  test('returned records are copies', async () => {
+    const store = createInMemoryDeviceCodeStore(() => 1000);
+    await store.put(record);
+
+    const fetched = await store.get(record.deviceCode);
+    fetched!.status = 'authorized';
+    expect((await store.get(record.deviceCode))?.status).toBe('pending');
+  });
+
+  test('transitions only succeed from the expected status', async () => {
+    const store = createInMemoryDeviceCodeStore(() => 1000);
+    await store.put(record);
+
+    const [first, second] = await Promise.all([
+      store.transition(record.deviceCode, 'pending', { status: 'authorized', userId: 'user-1' }),
+      store.transition(record.deviceCode, 'pending', { status: 'denied', userId: 'user-2' }),
+    ]);
+    expect(first).toMatchObject({ ok: true, record: { status: 'authorized', userId: 'user-1' } });
+    expect(second).toMatchObject({ ok: false, reason: 'conflict', record: { status: 'authorized' } });
+  });
+
+  test('transitions outside the lifecycle are rejected', async () => {
+    const store = createInMemoryDeviceCodeStore(() => 1000);
+    await store.put(record);
+
+    await expect(store.transition(record.deviceCode, 'pending', { status: 'consumed' })).rejects.toThrow();
+    await expect(store.transition(record.deviceCode, 'denied', { status: 'authorized' })).rejects.toThrow();
+  });
+
+  test('polls with a stale interval are slowed down', async () => {
+    const store = createInMemoryDeviceCodeStore(() => 1000);
+    await store.put(record);
+
+    expect(await store.recordPoll(record.deviceCode, record.interval, 1000))
+      .toEqual({ slowDown: false, interval: 5, lastPolledAt: 1000 });
+    expect(await store.recordPoll(record.deviceCode, record.interval, 1002))
+      .toEqual({ slowDown: true, interval: 10, lastPolledAt: 1002 });
+    // A concurrent poller still holding the old interval is slowed down too
+    expect(await store.recordPoll(record.deviceCode, record.interval, 1020))
+      .toEqual({ slowDown: true, interval: 15, lastPolledAt: 1020 });
+  });
+});
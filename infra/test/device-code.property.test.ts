@@ -4,13 +4,13 @@
  * Uses fast-check for property-based testing as specified in the design document.
  */
 import * as fc from 'fast-check';
+import { isValidUserCode, normalizeUserCode } from '@thesafezone/idp-common';
 import { 
   generateDeviceCode, 
   generateUserCode, 
-  isValidDeviceCode, 
-  isValidUserCode,
-  normalizeUserCode 
+  isValidDeviceCode 
 } from '../lib/lambda/device-code/code-generator';
+import { evaluatePoll, POLL_TOLERANCE_SECONDS, SLOW_DOWN_INCREMENT_SECONDS } from '../lib/lambda/device-code/polling';
 
 describe('Device Code Property Tests', () => {
   /**
@@ -350,3 +350,107 @@ describe('Device Code Polling State Tests', () => {
     });
   });
 });
+
+
+describe('Device Code Polling Rate Tests', () => {
+  /**
+   * **Feature: thesafezone-idp, Property 17: Device Code Polling Rate**
+   * 
+   * *For any* sequence of token polls, a poll made sooner than the current
+   * interval after the previous poll SHALL return "slow_down" and raise the
+   * interval by 5 seconds; polls that respect the interval SHALL NOT.
+   * 
+   * **Validates: RFC 8628 Section 3.5**
+   */
+  describe('Property 17: Device Code Polling Rate', () => {
+    const intervalArb = fc.integer({ min: 1, max: 60 });
+    // Intervals a poll can arrive too early for, past the tolerance
+    const enforcedIntervalArb = fc.integer({ min: POLL_TOLERANCE_SECONDS + 1, max: 60 });
+    const startArb = fc.integer({ min: 1000000000, max: 2000000000 });
+
+    test('first poll is never slowed down', () => {
+      fc.assert(
+        fc.property(intervalArb, startArb, (interval, now) => {
+          const outcome = evaluatePoll({ interval }, now);
+          expect(outcome.slowDown).toBe(false);
+          expect(outcome.interval).toBe(interval);
+          expect(outcome.lastPolledAt).toBe(now);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    test('well-behaved pollers never receive slow_down', () => {
+      fc.assert(
+        fc.property(
+          intervalArb,
+          startArb,
+          fc.array(fc.integer({ min: 0, max: 30 }), { minLength: 1, maxLength: 20 }), // extra wait per poll
+          (initialInterval, start, extraWaits) => {
+            let state = evaluatePoll({ interval: initialInterval }, start);
+            for (const extra of extraWaits) {
+              const next = evaluatePoll(state, state.lastPolledAt + state.interval + extra);
+              expect(next.slowDown).toBe(false);
+              expect(next.interval).toBe(initialInterval);
+              state = next;
+            }
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    test('polls up to a second early are accepted', () => {
+      fc.assert(
+        fc.property(intervalArb, startArb, (interval, start) => {
+          const first = evaluatePoll({ interval }, start);
+          const early = evaluatePoll(first, start + interval - POLL_TOLERANCE_SECONDS);
+          expect(early.slowDown).toBe(false);
+          expect(early.interval).toBe(interval);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    test('fast pollers receive slow_down and the interval grows by 5 seconds each time', () => {
+      fc.assert(
+        fc.property(
+          enforcedIntervalArb,
+          startArb,
+          fc.array(fc.integer({ min: 0, max: 100 }), { minLength: 1, maxLength: 20 }), // % of interval waited
+          (initialInterval, start, waitPercents) => {
+            let state = evaluatePoll({ interval: initialInterval }, start);
+            waitPercents.forEach((percent, index) => {
+              // Always earlier than the tolerance allows
+              const wait = Math.floor(((state.interval - POLL_TOLERANCE_SECONDS - 1) * percent) / 100);
+              const next = evaluatePoll(state, state.lastPolledAt + wait);
+              expect(next.slowDown).toBe(true);
+              expect(next.interval).toBe(initialInterval + (index + 1) * SLOW_DOWN_INCREMENT_SECONDS);
+              state = next;
+            });
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    test('after slow_down, polling at the raised interval is accepted', () => {
+      fc.assert(
+        fc.property(enforcedIntervalArb, startArb, (interval, start) => {
+          const first = evaluatePoll({ interval }, start);
+          const tooFast = evaluatePoll(first, start + interval - POLL_TOLERANCE_SECONDS - 1);
+          expect(tooFast.slowDown).toBe(true);
+
+          // Waiting the old interval is no longer enough
+          const oldPace = evaluatePoll(tooFast, tooFast.lastPolledAt + interval);
+          expect(oldPace.slowDown).toBe(true);
+
+          const newPace = evaluatePoll(oldPace, oldPace.lastPolledAt + oldPace.interval);
+          expect(newPace.slowDown).toBe(false);
+          expect(newPace.interval).toBe(interval + 2 * SLOW_DOWN_INCREMENT_SECONDS);
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+});
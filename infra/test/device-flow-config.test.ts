@@ -0,0 +1,106 @@
+/**
+ * Tests for per-client device flow configuration
+ *
+ * Client settings override the stack-level defaults, which override the
+ * built-in defaults; settings outside the allowed bounds are rejected.
+ */
+import {
+  DEFAULT_DEVICE_FLOW_CONFIG,
+  getUserCodeFormats,
+  loadDeviceFlowConfig,
+  resolveDeviceFlowConfig,
+  validateDeviceFlowSettings,
+} from '../lib/lambda/device-code/device-flow-config';
+import { isValidUserCode, normalizeUserCode } from '@thesafezone/idp-common';
+import { generateUserCode } from '../lib/lambda/device-code/code-generator';
+
+const NUMERIC = { length: 6, chars: '0123456789' };
+
+process.env.DEVICE_FLOW_DEFAULTS = JSON.stringify({ interval: 8 });
+process.env.DEVICE_CLIENTS = JSON.stringify({
+  'vr-client': { displayName: 'VR', allowedScopes: ['openid'], deviceFlow: { expiresIn: 900 } },
+  'kiosk-client': { displayName: 'Kiosk', allowedScopes: ['openid'], deviceFlow: { userCode: NUMERIC } },
+  'plain-client': { displayName: 'Plain', allowedScopes: ['openid'] },
+});
+
+describe('Device Flow Configuration', () => {
+  describe('resolveDeviceFlowConfig', () => {
+    test('client settings override the stack-level defaults', () => {
+      expect(resolveDeviceFlowConfig('vr-client')).toEqual({
+        expiresIn: 900,
+        interval: 8,
+        userCode: DEFAULT_DEVICE_FLOW_CONFIG.userCode,
+      });
+      expect(resolveDeviceFlowConfig('kiosk-client').userCode).toEqual(NUMERIC);
+    });
+
+    test('clients without settings get the stack-level defaults', () => {
+      expect(resolveDeviceFlowConfig('plain-client')).toEqual({ ...DEFAULT_DEVICE_FLOW_CONFIG, interval: 8 });
+    });
+
+  });
+
+  describe('loadDeviceFlowConfig', () => {
+    const env = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...env };
+    });
+
+    // Loads the settings in a fresh container (module registry)
+    function loadFresh(): ReturnType<typeof loadDeviceFlowConfig> {
+      let config: ReturnType<typeof loadDeviceFlowConfig> | undefined;
+      jest.isolateModules(() => {
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        config = require('../lib/lambda/device-code/device-flow-config').loadDeviceFlowConfig();
+      });
+      return config!;
+    }
+
+    test('settings are loaded once per container', () => {
+      expect(loadDeviceFlowConfig()).toBe(loadDeviceFlowConfig());
+    });
+
+    test('invalid client settings fail the load', () => {
+      process.env.DEVICE_CLIENTS = JSON.stringify({
+        'broken-client': { displayName: 'Broken', allowedScopes: ['openid'], deviceFlow: { interval: 0 } },
+      });
+      expect(loadFresh).toThrow('Invalid deviceFlow settings for client broken-client');
+    });
+
+    test('invalid stack-level defaults fail the load', () => {
+      process.env.DEVICE_FLOW_DEFAULTS = JSON.stringify({ expiresIn: 30 });
+      expect(loadFresh).toThrow('Invalid DEVICE_FLOW_DEFAULTS configuration');
+    });
+  });
+
+  describe('getUserCodeFormats', () => {
+    test('lists each distinct format once', () => {
+      expect(getUserCodeFormats()).toEqual([DEFAULT_DEVICE_FLOW_CONFIG.userCode, NUMERIC]);
+    });
+
+    test('generated codes are valid in their own format only', () => {
+      const userCode = generateUserCode(NUMERIC);
+      expect(normalizeUserCode(userCode)).toMatch(/^\d{6}$/);
+      expect(isValidUserCode(userCode, [NUMERIC])).toBe(true);
+      expect(isValidUserCode(userCode)).toBe(false);
+    });
+  });
+
+  describe('validateDeviceFlowSettings', () => {
+    test('accepts settings within bounds', () => {
+      expect(validateDeviceFlowSettings({ expiresIn: 1800, interval: 1, userCode: NUMERIC })).toEqual([]);
+    });
+
+    test.each([
+      [{ expiresIn: 30 }, 'expiresIn must be an integer from 60 to 1800'],
+      [{ interval: 2.5 }, 'interval must be an integer from 1 to 60'],
+      [{ userCode: { length: 13, chars: NUMERIC.chars } }, 'userCode.length must be an integer from 6 to 12'],
+      [{ userCode: { length: 6, chars: 'abcdefghij' } }, 'userCode.chars must be distinct uppercase letters and digits'],
+      [{ userCode: { length: 6, chars: '0123456780' } }, 'userCode.chars must be distinct uppercase letters and digits'],
+      [{ userCode: { length: 8, chars: '01234567' } }, 'userCode.chars must contain at least 10 characters'],
+    ])('rejects %j', (settings, error) => {
+      expect(validateDeviceFlowSettings(settings)).toEqual([error]);
+    });
+  });
+});
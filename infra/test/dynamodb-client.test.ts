@@ -0,0 +1,141 @@
+/**
+ * Tests for the DynamoDB device code store
+ *
+ * The client's send is replaced by a small table that applies the store's
+ * key conditions, filters and poll conditions the way DynamoDB does.
+ */
+import {
+  AttributeValue,
+  ConditionalCheckFailedException,
+  DynamoDBClient,
+  PutItemCommand,
+  QueryCommand,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { createDynamoDbDeviceCodeStore } from '../lib/lambda/device-code/dynamodb-client';
+import { POLL_TOLERANCE_SECONDS, SLOW_DOWN_INCREMENT_SECONDS } from '../lib/lambda/device-code/polling';
+import { DeviceCodeRecord } from '../lib/lambda/device-code/types';
+
+type Item = Record<string, AttributeValue>;
+
+function fakeTable(): { client: DynamoDBClient; items: Item[] } {
+  const client = new DynamoDBClient({ region: 'eu-central-1' });
+  const items: Item[] = [];
+
+  jest.spyOn(client, 'send').mockImplementation(async (command: unknown) => {
+    if (command instanceof PutItemCommand) {
+      items.push(command.input.Item!);
+      return {};
+    }
+    if (command instanceof QueryCommand) {
+      const { FilterExpression, ExpressionAttributeValues: values, Limit } = command.input;
+      // Like DynamoDB, Limit caps the items read before the filter is applied
+      const read = items.filter((item) => item.userCode.S === values![':userCode'].S).slice(0, Limit);
+      const filtered = FilterExpression
+        ? read.filter((item) => Number(item.ttl.N) > Number(values![':now'].N))
+        : read;
+      return { Items: filtered };
+    }
+    if (command instanceof UpdateItemCommand) {
+      const { Key, ConditionExpression, ExpressionAttributeValues: values } = command.input;
+      const item = items.find((candidate) => candidate.deviceCode.S === Key!.deviceCode.S);
+      const conditionFailed = () =>
+        new ConditionalCheckFailedException({ message: 'The conditional request failed', $metadata: {} });
+      if (!item) throw conditionFailed();
+
+      if (ConditionExpression!.includes(':earliest')) {
+        // #interval = :interval AND (attribute_not_exists(lastPolledAt) OR lastPolledAt <= :earliest)
+        const inTime = !item.lastPolledAt || Number(item.lastPolledAt.N) <= Number(values![':earliest'].N);
+        if (item.interval.N !== values![':interval'].N || !inTime) throw conditionFailed();
+        item.lastPolledAt = values![':now'];
+        return {};
+      }
+      // SET #interval = #interval + :increment, lastPolledAt = :now
+      item.interval = { N: (Number(item.interval.N) + Number(values![':increment'].N)).toString() };
+      item.lastPolledAt = values![':now'];
+      return { Attributes: { interval: item.interval, lastPolledAt: item.lastPolledAt } };
+    }
+    throw new Error(`Unexpected command: ${(command as object).constructor.name}`);
+  });
+
+  return { client, items };
+}
+
+function record(deviceCode: string, overrides: Partial<DeviceCodeRecord> = {}): DeviceCodeRecord {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    deviceCode,
+    userCode: '123456',
+    clientId: 'kiosk-client',
+    scope: 'openid',
+    expiresAt: now + 600,
+    interval: 5,
+    status: 'pending',
+    ttl: now + 600,
+    createdAt: now,
+    ...overrides,
+  };
+}
+
+describe('DynamoDB Device Code Store', () => {
+  describe('getByUserCode', () => {
+    test('finds the live record when an expired one in the index shares its user code', async () => {
+      const { client } = fakeTable();
+      const store = createDynamoDbDeviceCodeStore('device-codes', client);
+      const now = Math.floor(Date.now() / 1000);
+
+      // Past its TTL but not yet deleted by DynamoDB
+      await store.put(record('a'.repeat(32), { createdAt: now - 1200, expiresAt: now - 600, ttl: now - 600 }));
+      await store.put(record('b'.repeat(32)));
+
+      expect((await store.getByUserCode('123456'))?.deviceCode).toBe('b'.repeat(32));
+    });
+
+    test('returns the newest live record', async () => {
+      const { client } = fakeTable();
+      const store = createDynamoDbDeviceCodeStore('device-codes', client);
+      const now = Math.floor(Date.now() / 1000);
+
+      await store.put(record('a'.repeat(32), { createdAt: now - 60 }));
+      await store.put(record('b'.repeat(32)));
+
+      expect((await store.getByUserCode('123456'))?.deviceCode).toBe('b'.repeat(32));
+    });
+
+    test('reports a user code only used by expired records as unused', async () => {
+      const { client } = fakeTable();
+      const store = createDynamoDbDeviceCodeStore('device-codes', client);
+      const now = Math.floor(Date.now() / 1000);
+
+      await store.put(record('a'.repeat(32), { ttl: now - 1 }));
+
+      expect(await store.getByUserCode('123456')).toBeNull();
+    });
+  });
+
+  describe('recordPoll', () => {
+    const now = 1_700_000_000;
+
+    test('a poll a second before the interval has passed is accepted', async () => {
+      const { client } = fakeTable();
+      const store = createDynamoDbDeviceCodeStore('device-codes', client);
+      await store.put(record('a'.repeat(32)));
+
+      expect(await store.recordPoll('a'.repeat(32), 5, now)).toEqual({ slowDown: false, interval: 5, lastPolledAt: now });
+      expect(await store.recordPoll('a'.repeat(32), 5, now + 5 - POLL_TOLERANCE_SECONDS))
+        .toEqual({ slowDown: false, interval: 5, lastPolledAt: now + 4 });
+    });
+
+    test('a poll earlier than the tolerance raises the interval', async () => {
+      const { client, items } = fakeTable();
+      const store = createDynamoDbDeviceCodeStore('device-codes', client);
+      await store.put(record('a'.repeat(32)));
+
+      await store.recordPoll('a'.repeat(32), 5, now);
+      const outcome = await store.recordPoll('a'.repeat(32), 5, now + 5 - POLL_TOLERANCE_SECONDS - 1);
+
+      expect(outcome).toEqual({ slowDown: true, interval: 5 + SLOW_DOWN_INCREMENT_SECONDS, lastPolledAt: now + 3 });
+      expect(items[0].interval.N).toBe((5 + SLOW_DOWN_INCREMENT_SECONDS).toString());
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import * as cdk from 'aws-cdk-lib';
+import * as acm from 'aws-cdk-lib/aws-certificatemanager';
+import * as route53 from 'aws-cdk-lib/aws-route53';
+import { Template, Match } from 'aws-cdk-lib/assertions';
+import { IdentityCore, IdentityCoreProps } from '../lib/constructs/identity-core';
+import { ClientConfig } from '../lib/clients.config';
+import { CustomDomainOptions } from '../lib/constructs/custom-domain';
+
+function customDomain(scope: cdk.Stack, domainName: string): CustomDomainOptions {
+  return {
+    domainName,
+    certificate: acm.Certificate.fromCertificateArn(scope, 'Certificate',
+      'arn:aws:acm:us-east-1:123456789012:certificate/example'),
+    hostedZone: route53.HostedZone.fromHostedZoneAttributes(scope, 'HostedZone', {
+      hostedZoneId: 'Z0123456789EXAMPLE',
+      zoneName: 'example.com',
+    }),
+  };
+}
+
+describe('IdentityCore', () => {
+  const portalClient: ClientConfig = {
+    key: 'Portal',
+    name: 'example-portal',
+    description: 'Portal Client ID',
+    type: 'public',
+    flows: ['authorization_code'],
+    scopes: ['openid', 'email'],
+    contextPrefix: 'portal',
+    callbackUrls: ['http://localhost:4000/callback'],
+    logoutUrls: ['http://localhost:4000'],
+    hostedOn: { app: 'loginUi', callbackPaths: ['/callback'] },
+    branding: true,
+  };
+  const kioskClient: ClientConfig = {
+    key: 'Kiosk',
+    name: 'example-kiosk',
+    description: 'Kiosk Client ID',
+    type: 'public',
+    flows: ['device_code'],
+    scopes: ['openid'],
+    contextPrefix: 'kiosk',
+    callbackUrls: [],
+    logoutUrls: [],
+    tokenValidity: { refreshTokenDays: 90 },
+    deviceGrant: { displayName: 'Kiosk' },
+  };
+
+  function synth(
+    props: Partial<IdentityCoreProps> = {},
+    configure?: (identity: IdentityCore) => void
+  ): { identity: IdentityCore; template: Template } {
+    const stack = new cdk.Stack(new cdk.App(), 'TestStack');
+    const identity = new IdentityCore(stack, 'Identity', {
+      namePrefix: 'example',
+      cognitoDomainPrefix: 'example-auth',
+      clients: [portalClient, kioskClient],
+      tokenValidity: { accessTokenHours: 1, idTokenHours: 1, refreshTokenDays: 30 },
+      ...props,
+    });
+    configure?.(identity);
+    return { identity, template: Template.fromStack(stack) };
+  }
+
+  test('User pool and identity pool are named with the prefix', () => {
+    const { template } = synth();
+
+    template.hasResourceProperties('AWS::Cognito::UserPool', {
+      UserPoolName: 'example-user-pool',
+      UsernameAttributes: ['email'],
+    });
+    template.hasResourceProperties('AWS::Cognito::IdentityPool', {
+      IdentityPoolName: 'example-identity-pool',
+      AllowUnauthenticatedIdentities: true,
+    });
+    template.hasResourceProperties('AWS::Cognito::UserPoolDomain', {
+      Domain: 'example-auth',
+      ManagedLoginVersion: 2,
+    });
+  });
+
+  test('User pool is retained by default', () => {
+    synth().template.hasResource('AWS::Cognito::UserPool', { DeletionPolicy: 'Retain' });
+    synth({ removalPolicy: cdk.RemovalPolicy.DESTROY })
+      .template.hasResource('AWS::Cognito::UserPool', { DeletionPolicy: 'Delete' });
+  });
+
+  test('A client is created for each client config', () => {
+    const { identity, template } = synth();
+
+    expect(Object.keys(identity.clients)).toEqual(['Portal', 'Kiosk']);
+    template.resourceCountIs('AWS::Cognito::UserPoolClient', 2);
+    template.hasResourceProperties('AWS::Cognito::UserPoolClient', {
+      ClientName: 'example-portal',
+      AllowedOAuthFlows: ['code'],
+      AllowedOAuthScopes: ['openid', 'email'],
+      CallbackURLs: ['http://localhost:4000/callback'],
+    });
+    template.hasResourceProperties('AWS::Cognito::UserPoolClient', {
+      ClientName: 'example-kiosk',
+      ExplicitAuthFlows: Match.arrayWith(['ALLOW_CUSTOM_AUTH']),
+      RefreshTokenValidity: 90 * 24 * 60,
+    });
+    template.hasResourceProperties('AWS::Cognito::IdentityPool', {
+      CognitoIdentityProviders: [Match.anyValue(), Match.anyValue()],
+    });
+  });
+
+  test('Clients without their own token validity get the default', () => {
+    const { identity } = synth();
+
+    expect(identity.tokenValidityOf(portalClient).refreshTokenDays).toBe(30);
+    expect(identity.tokenValidityOf(kioskClient).refreshTokenDays).toBe(90);
+  });
+
+  test('Branding is applied only to clients that use it', () => {
+    const { template } = synth();
+
+    template.resourceCountIs('AWS::Cognito::ManagedLoginBranding', 1);
+    template.hasResourceProperties('AWS::Cognito::ManagedLoginBranding', {
+      ClientId: { Ref: Match.stringLikeRegexp('PortalClient') },
+    });
+  });
+
+  test('Hosted app URLs are added to the clients hosted on the app', () => {
+    const { template } = synth({}, (identity) => identity.addHostedAppUrl('loginUi', 'https://portal.example.com'));
+
+    template.hasResourceProperties('AWS::Cognito::UserPoolClient', {
+      ClientName: 'example-portal',
+      CallbackURLs: ['http://localhost:4000/callback', 'https://portal.example.com/callback'],
+      LogoutURLs: ['http://localhost:4000', 'https://portal.example.com'],
+    });
+  });
+
+  test('Custom domain serves the OAuth2 endpoints next to the prefix domain', () => {
+    const stack = new cdk.Stack(new cdk.App(), 'TestStack');
+    const identity = new IdentityCore(stack, 'Identity', {
+      namePrefix: 'example',
+      cognitoDomainPrefix: 'example-auth',
+      customDomain: customDomain(stack, 'auth.example.com'),
+      clients: [portalClient],
+      tokenValidity: { accessTokenHours: 1, idTokenHours: 1, refreshTokenDays: 30 },
+    });
+    const template = Template.fromStack(stack);
+
+    template.resourceCountIs('AWS::Cognito::UserPoolDomain', 2);
+    template.hasResourceProperties('AWS::Cognito::UserPoolDomain', {
+      Domain: 'auth.example.com',
+      CustomDomainConfig: { CertificateArn: 'arn:aws:acm:us-east-1:123456789012:certificate/example' },
+      ManagedLoginVersion: 2,
+    });
+    template.hasResourceProperties('AWS::Route53::RecordSet', {
+      Name: 'auth.example.com.',
+      Type: 'A',
+      HostedZoneId: 'Z0123456789EXAMPLE',
+    });
+    expect(stack.resolve(identity.domainUrl)).toEqual({
+      'Fn::Join': ['', ['https://', { Ref: expect.stringMatching(/CustomDomain/) }]],
+    });
+  });
+
+  test('Threat protection is only enabled when configured', () => {
+    const { template } = synth();
+
+    template.hasResourceProperties('AWS::Cognito::UserPool', {
+      UserPoolTier: Match.absent(),
+      UserPoolAddOns: Match.absent(),
+    });
+    template.resourceCountIs('AWS::Cognito::UserPoolRiskConfigurationAttachment', 0);
+  });
+
+  test('Risk actions may be configured', () => {
+    const { template } = synth({
+      threatProtection: {
+        mode: 'enforced',
+        riskActions: { medium: 'BLOCK' },
+        compromisedCredentialsAction: 'NO_ACTION',
+      },
+    });
+
+    template.hasResourceProperties('AWS::Cognito::UserPool', {
+      UserPoolTier: 'PLUS',
+      UserPoolAddOns: Match.objectLike({ AdvancedSecurityMode: 'ENFORCED' }),
+    });
+    template.hasResourceProperties('AWS::Cognito::UserPoolRiskConfigurationAttachment', {
+      AccountTakeoverRiskConfiguration: {
+        Actions: {
+          LowAction: { EventAction: 'NO_ACTION', Notify: false },
+          MediumAction: { EventAction: 'BLOCK', Notify: false },
+          HighAction: { EventAction: 'BLOCK', Notify: false },
+        },
+      },
+      CompromisedCredentialsRiskConfiguration: Match.objectLike({ Actions: { EventAction: 'NO_ACTION' } }),
+    });
+  });
+
+  test('Google sign-in is added only with credentials', () => {
+    synth().template.resourceCountIs('AWS::Cognito::UserPoolIdentityProvider', 0);
+    synth({ google: { clientId: 'google-client', clientSecret: 'google-secret' } })
+      .template.hasResourceProperties('AWS::Cognito::UserPoolIdentityProvider', {
+        ProviderName: 'Google',
+        ProviderDetails: Match.objectLike({ client_id: 'google-client' }),
+      });
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * Tests for the local access token verifier used by the dev server
+ */
+import { createLocalVerifier, signLocalAccessToken } from '../lib/lambda/device-code/jwt-verifier';
+
+describe('Local Access Token Verifier', () => {
+  const secret = 'test-dev-key';
+  const verifier = createLocalVerifier(secret, 'web-client');
+  const now = Math.floor(Date.now() / 1000);
+  const claims = { sub: 'user-sub', username: 'user-1', token_use: 'access', client_id: 'web-client', exp: now + 300 };
+
+  test('accepts tokens signed with the dev key', async () => {
+    await expect(verifier.verify(signLocalAccessToken(claims, secret))).resolves.toMatchObject({
+      sub: 'user-sub',
+      username: 'user-1',
+    });
+  });
+
+  test('rejects tokens signed with another key', async () => {
+    await expect(verifier.verify(signLocalAccessToken(claims, 'other-key'))).rejects.toThrow('signature');
+  });
+
+  test('rejects expired tokens', async () => {
+    await expect(verifier.verify(signLocalAccessToken({ ...claims, exp: now - 1 }, secret))).rejects.toThrow('expired');
+  });
+
+  test('rejects id tokens and tokens for other clients', async () => {
+    await expect(verifier.verify(signLocalAccessToken({ ...claims, token_use: 'id' }, secret))).rejects.toThrow();
+    await expect(verifier.verify(signLocalAccessToken({ ...claims, client_id: 'vr-client' }, secret))).rejects.toThrow();
+  });
+
+  test('rejects malformed tokens', async () => {
+    await expect(verifier.verify('not-a-jwt')).rejects.toThrow('Malformed');
+  });
+});
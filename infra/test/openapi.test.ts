@@ -0,0 +1,70 @@
+/**
+ * Tests for the OpenAPI document of the Device Code API
+ *
+ * The document is generated from the shared types in packages/idp-common and
+ * committed, so the Lambda can serve it and the stack can derive its request
+ * models from it. Run `npm run generate:openapi` after changing the types.
+ */
+import * as fs from 'fs';
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { buildDeviceApiSpec, OPENAPI_FILE } from '../scripts/generate-openapi';
+import { handler } from '../lib/lambda/device-code/index';
+
+type Spec = {
+  paths: Record<string, Record<string, unknown>>;
+  components: { schemas: Record<string, unknown> };
+  servers?: Array<{ url: string }>;
+};
+
+function openApiEvent(requestContext: Record<string, string>): APIGatewayProxyEvent {
+  return {
+    path: '/device/openapi.json',
+    httpMethod: 'GET',
+    body: null,
+    headers: {},
+    isBase64Encoded: false,
+    requestContext,
+  } as unknown as APIGatewayProxyEvent;
+}
+
+describe('Device Code API OpenAPI document', () => {
+  const committed: Spec = JSON.parse(fs.readFileSync(OPENAPI_FILE, 'utf-8'));
+
+  test('the committed document matches the shared types', () => {
+    expect(buildDeviceApiSpec()).toEqual(committed);
+  }, 60000);
+
+  test('every referenced schema is defined', () => {
+    const refs = JSON.stringify(committed).match(/#\/components\/schemas\/\w+/g) ?? [];
+    for (const ref of new Set(refs)) {
+      expect(committed.components.schemas).toHaveProperty(ref.replace('#/components/schemas/', ''));
+    }
+  });
+
+  test('every route of the Lambda is documented', () => {
+    expect(Object.keys(committed.paths).sort()).toEqual([
+      '/device/authorize',
+      '/device/code',
+      '/device/deny',
+      '/device/lookup',
+      '/device/openapi.json',
+      '/device/token',
+      '/device/user-code-formats',
+      '/devices',
+      '/devices/{id}',
+    ]);
+  });
+
+  test('the document is served with the server it was fetched from', async () => {
+    const result = await handler(openApiEvent({
+      domainName: 'api.example.com',
+      stage: 'v1',
+      path: '/v1/device/openapi.json',
+    }));
+    expect(result.statusCode).toBe(200);
+
+    const served: Spec = JSON.parse(result.body);
+    expect(served.servers).toEqual([{ url: 'https://api.example.com/v1' }]);
+    expect(served.paths).toEqual(committed.paths);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Tests for Device Code API request parsing
+ *
+ * Covers content-type negotiation (RFC 6749 Appendix B form bodies and JSON),
+ * base64-encoded API Gateway bodies, and HTTP Basic client authentication.
+ */
+import * as fc from 'fast-check';
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import {
+  parseRequestBody,
+  parseBasicAuth,
+  resolveClientId,
+} from '../lib/lambda/device-code/request-parser';
+
+function buildEvent(
+  body: string | null,
+  headers: Record<string, string> = {},
+  isBase64Encoded = false
+): APIGatewayProxyEvent {
+  return { body, headers, isBase64Encoded } as unknown as APIGatewayProxyEvent;
+}
+
+function basic(clientId: string, clientSecret: string): string {
+  const encoded = `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`;
+  return `Basic ${Buffer.from(encoded).toString('base64')}`;
+}
+
+describe('Request Parser', () => {
+  describe('parseRequestBody', () => {
+    test('parses form-urlencoded bodies', () => {
+      const result = parseRequestBody(buildEvent(
+        'grant_type=urn%3Aietf%3Aparams%3Aoauth%3Agrant-type%3Adevice_code&client_id=abc&scope=openid+email',
+        { 'Content-Type': 'application/x-www-form-urlencoded; charset=UTF-8' }
+      ));
+
+      expect(result).toEqual({
+        ok: true,
+        params: {
+          grant_type: 'urn:ietf:params:oauth:grant-type:device_code',
+          client_id: 'abc',
+          scope: 'openid email',
+        },
+      });
+    });
+
+    test('form and JSON encodings of the same parameters are equivalent', () => {
+      fc.assert(
+        fc.property(
+          fc.dictionary(fc.stringOf(fc.constantFrom(...'abcdefghijklmnopqrstuvwxyz_'), { minLength: 1, maxLength: 20 }), fc.string({ maxLength: 50 }), { minKeys: 1 }),
+          (params) => {
+            const form = new URLSearchParams(params).toString();
+            const fromForm = parseRequestBody(buildEvent(form, {
+              'content-type': 'application/x-www-form-urlencoded',
+            }));
+            const fromJson = parseRequestBody(buildEvent(JSON.stringify(params), {
+              'content-type': 'application/json',
+            }));
+
+            expect(fromForm).toEqual({ ok: true, params: { ...params } });
+            expect(fromJson).toEqual(fromForm);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    test('keeps __proto__ as an ordinary parameter', () => {
+      const fromForm = parseRequestBody(buildEvent('__proto__=x&client_id=abc', {
+        'content-type': 'application/x-www-form-urlencoded',
+      }));
+      const fromJson = parseRequestBody(buildEvent('{"__proto__":"x","client_id":"abc"}', {
+        'content-type': 'application/json',
+      }));
+
+      for (const result of [fromForm, fromJson]) {
+        expect(result.ok).toBe(true);
+        if (!result.ok) continue;
+        expect(Object.keys(result.params)).toEqual(['__proto__', 'client_id']);
+        expect(result.params['__proto__']).toBe('x');
+      }
+    });
+
+    test('decodes base64-encoded bodies', () => {
+      const body = Buffer.from('client_id=abc&scope=openid').toString('base64');
+      const result = parseRequestBody(buildEvent(body, {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      }, true));
+
+      expect(result).toEqual({ ok: true, params: { client_id: 'abc', scope: 'openid' } });
+    });
+
+    test('treats a missing Content-Type as JSON', () => {
+      const result = parseRequestBody(buildEvent('{"client_id":"abc"}'));
+      expect(result).toEqual({ ok: true, params: { client_id: 'abc' } });
+    });
+
+    test('rejects unsupported content types', () => {
+      const result = parseRequestBody(buildEvent('client_id=abc', { 'Content-Type': 'text/plain' }));
+      expect(result.ok).toBe(false);
+    });
+
+    test('rejects missing bodies', () => {
+      expect(parseRequestBody(buildEvent(null)).ok).toBe(false);
+    });
+
+    test('rejects repeated form parameters', () => {
+      const result = parseRequestBody(buildEvent('client_id=a&client_id=b', {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      }));
+      expect(result.ok).toBe(false);
+    });
+
+    test('rejects invalid JSON and non-string JSON values', () => {
+      const headers = { 'Content-Type': 'application/json' };
+      expect(parseRequestBody(buildEvent('{not json', headers)).ok).toBe(false);
+      expect(parseRequestBody(buildEvent('["client_id"]', headers)).ok).toBe(false);
+      expect(parseRequestBody(buildEvent('{"client_id":42}', headers)).ok).toBe(false);
+    });
+  });
+
+  describe('HTTP Basic client authentication', () => {
+    test('round-trips any client credentials', () => {
+      fc.assert(
+        fc.property(
+          fc.string({ minLength: 1, maxLength: 40 }),
+          fc.string({ maxLength: 40 }),
+          (clientId, clientSecret) => {
+            const credentials = parseBasicAuth(buildEvent(null, { Authorization: basic(clientId, clientSecret) }));
+            expect(credentials).toEqual({ clientId, clientSecret });
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    test('ignores non-Basic Authorization schemes', () => {
+      expect(parseBasicAuth(buildEvent(null, { Authorization: 'Bearer abc' }))).toBeNull();
+    });
+
+    test('flags malformed Basic credentials', () => {
+      const noSeparator = `Basic ${Buffer.from('client').toString('base64')}`;
+      expect(parseBasicAuth(buildEvent(null, { Authorization: noSeparator }))).toBe('malformed');
+      expect(parseBasicAuth(buildEvent(null, { Authorization: 'Basic !!!' }))).toBe('malformed');
+    });
+
+    test('prefers the Authorization header client_id', () => {
+      const event = buildEvent(null, { authorization: basic('header-client', 'secret') });
+      expect(resolveClientId(event, {})).toEqual({ ok: true, clientId: 'header-client' });
+      expect(resolveClientId(event, { client_id: 'header-client' })).toEqual({ ok: true, clientId: 'header-client' });
+    });
+
+    test('rejects a body client_id that conflicts with the header', () => {
+      const event = buildEvent(null, { Authorization: basic('header-client', 'secret') });
+      const result = resolveClientId(event, { client_id: 'body-client' });
+      expect(result).toMatchObject({ ok: false, error: 'invalid_request' });
+    });
+
+    test('falls back to the body client_id without a header', () => {
+      expect(resolveClientId(buildEvent(null), { client_id: 'abc' })).toEqual({ ok: true, clientId: 'abc' });
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Tests for the Device Code API router
+ *
+ * Covers payload format 1.0 (REST API) and 2.0 (HTTP API) events, base path
+ * stripping for custom domain mappings, and 404/405 answers.
+ */
+import { APIGatewayProxyEvent, APIGatewayProxyEventV2 } from 'aws-lambda';
+import { createRouter, getBasePaths, normalizeEvent, Route } from '../lib/lambda/device-code/router';
+import { handleOpenApiRequest } from '../lib/lambda/device-code/handlers/openapi';
+
+function restEvent(httpMethod: string, path: string): APIGatewayProxyEvent {
+  return {
+    httpMethod,
+    path,
+    body: null,
+    headers: {},
+    isBase64Encoded: false,
+    requestContext: { domainName: 'api.example.com', stage: 'v1', path },
+  } as unknown as APIGatewayProxyEvent;
+}
+
+function httpApiEvent(method: string, rawPath: string, stage = 'v1'): APIGatewayProxyEventV2 {
+  return {
+    version: '2.0',
+    routeKey: '$default',
+    rawPath,
+    rawQueryString: 'user_code=ABCD-EFGH',
+    cookies: ['a=1', 'b=2'],
+    headers: { 'content-type': 'application/json', authorization: 'Bearer token' },
+    queryStringParameters: { user_code: 'ABCD-EFGH' },
+    body: '{"user_code":"ABCD-EFGH"}',
+    isBase64Encoded: false,
+    requestContext: {
+      domainName: 'abc123.execute-api.eu-west-1.amazonaws.com',
+      stage,
+      requestId: 'request-1',
+      timeEpoch: 1700000000000,
+      http: { method, path: rawPath, protocol: 'HTTP/1.1', sourceIp: '203.0.113.7', userAgent: 'curl/8.0' },
+    },
+  } as unknown as APIGatewayProxyEventV2;
+}
+
+function echoRoute(method: string, path: string | RegExp): Route {
+  return {
+    method,
+    path,
+    handler: async (event, params) => ({
+      statusCode: 200,
+      body: JSON.stringify({ path: event.path, params }),
+    }),
+  };
+}
+
+const routes = [
+  echoRoute('POST', '/device/code'),
+  echoRoute('GET', '/devices'),
+  echoRoute('DELETE', /^\/devices\/([^/]+)$/),
+];
+
+describe('Router', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('normalizeEvent', () => {
+    test('returns payload 1.0 events as they are', () => {
+      const event = restEvent('GET', '/devices');
+      expect(normalizeEvent(event)).toBe(event);
+    });
+
+    test('converts payload 2.0 events without the stage in the path', () => {
+      const event = normalizeEvent(httpApiEvent('GET', '/v1/device/lookup'));
+
+      expect(event.httpMethod).toBe('GET');
+      expect(event.path).toBe('/device/lookup');
+      expect(event.queryStringParameters).toEqual({ user_code: 'ABCD-EFGH' });
+      expect(event.body).toBe('{"user_code":"ABCD-EFGH"}');
+      expect(event.headers).toEqual({
+        'content-type': 'application/json',
+        authorization: 'Bearer token',
+        cookie: 'a=1; b=2',
+      });
+      expect(event.requestContext).toMatchObject({
+        domainName: 'abc123.execute-api.eu-west-1.amazonaws.com',
+        stage: 'v1',
+        requestId: 'request-1',
+        path: '/v1/device/lookup',
+        identity: { sourceIp: '203.0.113.7', userAgent: 'curl/8.0' },
+      });
+    });
+
+    test('keeps the path of the $default stage', () => {
+      expect(normalizeEvent(httpApiEvent('GET', '/device/lookup', '$default')).path).toBe('/device/lookup');
+    });
+  });
+
+  describe('createRouter', () => {
+    test('routes REST and HTTP API events alike', async () => {
+      const router = createRouter(routes, []);
+
+      for (const event of [restEvent('POST', '/device/code'), httpApiEvent('POST', '/v1/device/code')]) {
+        const result = await router(event);
+        expect(result.statusCode).toBe(200);
+        expect(JSON.parse(result.body)).toEqual({ path: '/device/code', params: [] });
+      }
+    });
+
+    test('passes pattern groups as params', async () => {
+      const result = await createRouter(routes, [])(restEvent('DELETE', '/devices/0123abcd'));
+      expect(JSON.parse(result.body)).toEqual({ path: '/devices/0123abcd', params: ['0123abcd'] });
+    });
+
+    test('strips the longest matching base path', async () => {
+      const router = createRouter(routes, ['/auth', '/auth/idp']);
+
+      expect(JSON.parse((await router(restEvent('GET', '/auth/devices'))).body).path).toBe('/devices');
+      expect(JSON.parse((await router(httpApiEvent('GET', '/v1/auth/idp/devices'))).body).path).toBe('/devices');
+    });
+
+    test('only strips base paths at a segment boundary', async () => {
+      const result = await createRouter(routes, ['/auth'])(restEvent('GET', '/authdevices'));
+      expect(result.statusCode).toBe(404);
+    });
+
+    test('answers a known path with another method with 405 and Allow', async () => {
+      const result = await createRouter(routes, [])(restEvent('PUT', '/devices/0123abcd'));
+
+      expect(result.statusCode).toBe(405);
+      expect(result.headers).toMatchObject({ Allow: 'DELETE' });
+      expect(JSON.parse(result.body).error).toBe('invalid_request');
+    });
+
+    test('answers unknown paths with 404', async () => {
+      const result = await createRouter(routes, [])(restEvent('GET', '/device/unknown'));
+
+      expect(result.statusCode).toBe(404);
+      expect(JSON.parse(result.body)).toEqual({
+        error: 'not_found',
+        error_description: 'Unknown endpoint: GET /device/unknown',
+      });
+    });
+
+    test('handlers see the routed path and the requested path', async () => {
+      const router = createRouter([
+        { method: 'GET', path: '/device/openapi.json', handler: handleOpenApiRequest },
+      ], ['/auth']);
+
+      const result = await router(restEvent('GET', '/auth/device/openapi.json'));
+      expect(JSON.parse(result.body).servers).toEqual([{ url: 'https://api.example.com/auth' }]);
+    });
+  });
+
+  describe('getBasePaths', () => {
+    afterEach(() => {
+      delete process.env.DEVICE_API_BASE_PATHS;
+    });
+
+    test('reads and normalizes DEVICE_API_BASE_PATHS', () => {
+      process.env.DEVICE_API_BASE_PATHS = 'auth, /idp/ ,,/';
+      expect(getBasePaths()).toEqual(['/auth', '/idp']);
+    });
+
+    test('defaults to no base paths', () => {
+      expect(getBasePaths()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import * as cdk from 'aws-cdk-lib';
+import * as acm from 'aws-cdk-lib/aws-certificatemanager';
+import * as route53 from 'aws-cdk-lib/aws-route53';
+import { Template, Match } from 'aws-cdk-lib/assertions';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SpaSite } from '../lib/constructs/spa-site';
+import { CustomDomainOptions } from '../lib/constructs/custom-domain';
+
+function customDomain(scope: cdk.Stack, domainName: string): CustomDomainOptions {
+  return {
+    domainName,
+    certificate: acm.Certificate.fromCertificateArn(scope, 'Certificate',
+      'arn:aws:acm:us-east-1:123456789012:certificate/example'),
+    hostedZone: route53.HostedZone.fromHostedZoneAttributes(scope, 'HostedZone', {
+      hostedZoneId: 'Z0123456789EXAMPLE',
+      zoneName: 'example.com',
+    }),
+  };
+}
+
+describe('SpaSite', () => {
+  const siteProps = {
+    bucketName: 'example-portal',
+    displayName: 'Portal',
+    comment: 'Example Portal',
+  };
+
+  function synth(props: Partial<ConstructorParameters<typeof SpaSite>[2]> = {}): Template {
+    const stack = new cdk.Stack(new cdk.App(), 'TestStack');
+    new SpaSite(stack, 'Portal', { ...siteProps, ...props });
+    return Template.fromStack(stack);
+  }
+
+  test('Custom domain is served with alias records', () => {
+    const stack = new cdk.Stack(new cdk.App(), 'TestStack');
+    const site = new SpaSite(stack, 'Portal', { ...siteProps, domain: customDomain(stack, 'portal.example.com') });
+    const template = Template.fromStack(stack);
+
+    expect(site.url).toBe('https://portal.example.com');
+    template.hasResourceProperties('AWS::CloudFront::Distribution', {
+      DistributionConfig: Match.objectLike({
+        Aliases: ['portal.example.com'],
+        ViewerCertificate: Match.objectLike({
+          AcmCertificateArn: 'arn:aws:acm:us-east-1:123456789012:certificate/example',
+        }),
+      }),
+    });
+    for (const type of ['A', 'AAAA']) {
+      template.hasResourceProperties('AWS::Route53::RecordSet', {
+        Name: 'portal.example.com.',
+        Type: type,
+        HostedZoneId: 'Z0123456789EXAMPLE',
+      });
+    }
+    template.hasOutput('PortalUrl', { Value: 'https://portal.example.com' });
+  });
+
+  test('Bucket is private and only read by CloudFront via OAC', () => {
+    const template = synth();
+
+    template.hasResourceProperties('AWS::S3::Bucket', {
+      BucketName: 'example-portal',
+      PublicAccessBlockConfiguration: {
+        BlockPublicAcls: true,
+        BlockPublicPolicy: true,
+        IgnorePublicAcls: true,
+        RestrictPublicBuckets: true,
+      },
+      VersioningConfiguration: { Status: 'Enabled' },
+    });
+    template.resourceCountIs('AWS::CloudFront::OriginAccessControl', 1);
+    template.hasResourceProperties('AWS::S3::BucketPolicy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({ Principal: { Service: 'cloudfront.amazonaws.com' } }),
+        ]),
+      },
+    });
+  });
+
+  test('Unknown paths are answered with index.html for SPA routing', () => {
+    synth().hasResourceProperties('AWS::CloudFront::Distribution', {
+      DistributionConfig: Match.objectLike({
+        Comment: 'Example Portal',
+        DefaultRootObject: 'index.html',
+        CustomErrorResponses: [
+          { ErrorCode: 403, ResponseCode: 200, ResponsePagePath: '/index.html', ErrorCachingMinTTL: 300 },
+          { ErrorCode: 404, ResponseCode: 200, ResponsePagePath: '/index.html', ErrorCachingMinTTL: 300 },
+        ],
+        DefaultCacheBehavior: Match.objectLike({ ViewerProtocolPolicy: 'redirect-to-https' }),
+      }),
+    });
+  });
+
+  test('Bucket is retained by default', () => {
+    const template = synth();
+
+    template.hasResource('AWS::S3::Bucket', { DeletionPolicy: 'Retain' });
+    template.resourceCountIs('Custom::S3AutoDeleteObjects', 0);
+  });
+
+  test('Objects are deleted with the bucket when it is destroyed', () => {
+    const template = synth({ removalPolicy: cdk.RemovalPolicy.DESTROY });
+
+    template.hasResource('AWS::S3::Bucket', { DeletionPolicy: 'Delete' });
+    template.resourceCountIs('Custom::S3AutoDeleteObjects', 1);
+  });
+
+  test('Built app is deployed only if its folder exists', () => {
+    const distPath = fs.mkdtempSync(path.join(os.tmpdir(), 'spa-site-'));
+    fs.writeFileSync(path.join(distPath, 'index.html'), '<!doctype html>');
+
+    synth({ distPath }).hasResourceProperties('Custom::CDKBucketDeployment', {
+      DistributionPaths: ['/*'],
+    });
+    synth({ distPath: path.join(distPath, 'missing') }).resourceCountIs('Custom::CDKBucketDeployment', 0);
+  });
+
+  test('Runtime config is deployed next to the built app', () => {
+    const distPath = fs.mkdtempSync(path.join(os.tmpdir(), 'spa-site-'));
+    fs.writeFileSync(path.join(distPath, 'index.html'), '<!doctype html>');
+    const stack = new cdk.Stack(new cdk.App(), 'TestStack');
+    const site = new SpaSite(stack, 'Portal', { ...siteProps, distPath });
+    const pool = new cdk.CfnResource(stack, 'Pool', { type: 'AWS::Cognito::UserPool' });
+
+    site.addRuntimeConfig({ userPoolId: pool.ref, apiEndpoint: 'https://api.example.com/' });
+
+    Template.fromStack(stack).hasResourceProperties('Custom::CDKBucketDeployment', {
+      SourceObjectKeys: [Match.anyValue(), Match.anyValue()],
+      // The pool ID is filled in when the stack is deployed
+      SourceMarkers: [{}, { '<<marker:0xbaba:0>>': Match.anyValue() }],
+    });
+  });
+
+  test('Outputs are named after the construct ID', () => {
+    const template = synth();
+
+    template.hasOutput('PortalBucketName', { Description: 'S3 bucket name for Portal' });
+    template.hasOutput('PortalDistributionId', { Description: 'CloudFront distribution ID for Portal' });
+    template.hasOutput('PortalUrl', {
+      Value: { 'Fn::Join': ['', ['https://', { 'Fn::GetAtt': [Match.stringLikeRegexp('PortalDistribution'), 'DomainName'] }]] },
+    });
+  });
+
+  test('Output prefix may be set', () => {
+    synth({ outputPrefix: 'Docs' }).hasOutput('DocsUrl', Match.anyValue());
+  });
+});
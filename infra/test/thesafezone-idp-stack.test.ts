@@ -1,6 +1,10 @@
 import * as cdk from 'aws-cdk-lib';
 import { Template, Match } from 'aws-cdk-lib/assertions';
 import { TheSafeZoneIdpStack } from '../lib/thesafezone-idp-stack';
+import { CLIENTS } from '../lib/clients.config';
+import { getStageConfig, STAGES } from '../lib/stage.config';
+import { getStageDomains } from '../lib/domain.config';
+import { TheSafeZoneCertificateStack } from '../lib/certificate-stack';
 
 describe('TheSafeZoneIdpStack', () => {
   let app: cdk.App;
@@ -81,6 +85,59 @@ describe('TheSafeZoneIdpStack', () => {
     });
   });
 
+  describe('Threat Protection', () => {
+    let prodTemplate: Template;
+
+    beforeAll(() => {
+      prodTemplate = Template.fromStack(new TheSafeZoneIdpStack(new cdk.App(), STAGES.prod.stackId, { stage: STAGES.prod }));
+    });
+
+    test('dev only audits sign-in risks', () => {
+      template.hasResourceProperties('AWS::Cognito::UserPool', {
+        UserPoolTier: 'PLUS',
+        UserPoolAddOns: {
+          AdvancedSecurityMode: 'AUDIT',
+          AdvancedSecurityAdditionalFlows: { CustomAuthMode: 'AUDIT' },
+        },
+      });
+    });
+
+    test('prod enforces threat protection on sign-ins', () => {
+      prodTemplate.hasResourceProperties('AWS::Cognito::UserPool', {
+        UserPoolTier: 'PLUS',
+        UserPoolAddOns: {
+          AdvancedSecurityMode: 'ENFORCED',
+          // Device tokens are minted with custom auth from the Device Code Lambda
+          AdvancedSecurityAdditionalFlows: { CustomAuthMode: 'AUDIT' },
+        },
+      });
+    });
+
+    test('Risky sign-ins and compromised credentials are blocked for all clients', () => {
+      prodTemplate.hasResourceProperties('AWS::Cognito::UserPoolRiskConfigurationAttachment', {
+        UserPoolId: { Ref: Match.stringLikeRegexp('TheSafeZoneUserPool') },
+        ClientId: 'ALL',
+        AccountTakeoverRiskConfiguration: {
+          Actions: {
+            LowAction: { EventAction: 'NO_ACTION', Notify: false },
+            MediumAction: { EventAction: 'MFA_IF_CONFIGURED', Notify: false },
+            HighAction: { EventAction: 'BLOCK', Notify: false },
+          },
+        },
+        CompromisedCredentialsRiskConfiguration: {
+          Actions: { EventAction: 'BLOCK' },
+          EventFilter: ['SIGN_IN', 'SIGN_UP', 'PASSWORD_CHANGE'],
+        },
+      });
+    });
+
+    test('Every stage configures threat protection', () => {
+      expect(STAGES.dev.threatProtection.mode).toBe('audit');
+      expect(STAGES.staging.threatProtection.mode).toBe('enforced');
+      expect(STAGES.prod.threatProtection.mode).toBe('enforced');
+    });
+  });
+
   describe('Google Federation', () => {
     test('Google Identity Provider is created when credentials provided', () => {
       // Create stack with Google credentials
@@ -209,8 +266,80 @@ describe('TheSafeZoneIdpStack', () => {
       });
     });
 
-    test('Three app clients are created (web/mobile, VR, sample)', () => {
-      template.resourceCountIs('AWS::Cognito::UserPoolClient', 3);
+    test('One app client is created per client registry entry', () => {
+      template.resourceCountIs('AWS::Cognito::UserPoolClient', CLIENTS.length);
+    });
+
+    describe.each(CLIENTS)('$key client', (client) => {
+      test('is generated from its registry entry', () => {
+        template.hasResourceProperties('AWS::Cognito::UserPoolClient', {
+          ClientName: client.name,
+          GenerateSecret: client.type === 'confidential',
+          AllowedOAuthFlows: client.flows.includes('authorization_code') ? ['code'] : Match.absent(),
+          AllowedOAuthScopes: client.scopes,
+          ExplicitAuthFlows: client.flows.includes('device_code')
+            ? ['ALLOW_CUSTOM_AUTH', 'ALLOW_USER_SRP_AUTH', 'ALLOW_REFRESH_TOKEN_AUTH']
+            : ['ALLOW_USER_SRP_AUTH', 'ALLOW_REFRESH_TOKEN_AUTH'],
+          CallbackURLs: Match.arrayWith(client.callbackUrls),
+          LogoutURLs: Match.arrayWith(client.logoutUrls),
+          EnableTokenRevocation: true,
+        });
+      });
+
+      test('is linked to the identity pool', () => {
+        template.hasResourceProperties('AWS::Cognito::IdentityPool', {
+          CognitoIdentityProviders: Match.arrayWith([
+            Match.objectLike({ ClientId: { Ref: Match.stringLikeRegexp(`UserPool${client.key}Client`) } }),
+          ]),
+        });
+      });
+
+      test('has its client ID output', () => {
+        template.hasOutput(`${client.key}ClientId`, {
+          Description: client.description,
+          Value: { Ref: Match.stringLikeRegexp(`UserPool${client.key}Client`) },
+        });
+      });
+
+      test(client.branding ? 'has the Managed Login branding' : 'has no branding', () => {
+        const brandings = template.findResources('AWS::Cognito::ManagedLoginBranding', {
+          Properties: { ClientId: { Ref: Match.stringLikeRegexp(`UserPool${client.key}Client`) } },
+        });
+        expect(Object.keys(brandings)).toHaveLength(client.branding ? 1 : 0);
+      });
+
+      if (client.hostedOn) {
+        test('accepts redirects to the app hosted by the stack', () => {
+          const distribution = client.hostedOn!.app === 'loginUi' ? 'LoginUiDistribution' : 'SampleClientDistribution';
+          template.hasResourceProperties('AWS::Cognito::UserPoolClient', {
+            ClientName: client.name,
+            CallbackURLs: Match.arrayWith(client.hostedOn!.callbackPaths.map((callbackPath) => ({
+              'Fn::Join': ['', [
+                'https://',
+                { 'Fn::GetAtt': [Match.stringLikeRegexp(distribution), 'DomainName'] },
+                callbackPath,
+              ]],
+            }))),
+          });
+        });
+      }
+    });
+
+    test('Callback URLs may be overridden from context', () => {
+      const appWithUrls = new cdk.App({
+        context: {
+          arthurClientCallbackUrls: ['https://arthur.example.com/callback'],
+          // As given on the command line
+          arthurClientLogoutUrls: 'https://arthur.example.com, https://arthur.example.com/logout',
+        },
+      });
+      const templateWithUrls = Template.fromStack(new TheSafeZoneIdpStack(appWithUrls, 'TestStackWithUrls'));
+
+      templateWithUrls.hasResourceProperties('AWS::Cognito::UserPoolClient', {
+        ClientName: 'thesafezone-arthur',
+        CallbackURLs: ['https://arthur.example.com/callback'],
+        LogoutURLs: ['https://arthur.example.com', 'https://arthur.example.com/logout'],
+      });
     });
   });
 
@@ -257,5 +386,731 @@ describe('TheSafeZoneIdpStack', () => {
         BillingMode: 'PAY_PER_REQUEST',
       });
     });
+
+    test('Device attempts table tracks failed user code attempts with TTL', () => {
+      template.hasResourceProperties('AWS::DynamoDB::Table', {
+        TableName: 'thesafezone-device-attempts',
+        KeySchema: [
+          {
+            AttributeName: 'callerKey',
+            KeyType: 'HASH',
+          },
+        ],
+        TimeToLiveSpecification: {
+          AttributeName: 'ttl',
+          Enabled: true,
+        },
+      });
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        FunctionName: 'thesafezone-device-code',
+        Environment: {
+          Variables: Match.objectLike({
+            DEVICE_ATTEMPTS_TABLE_NAME: { Ref: Match.stringLikeRegexp('DeviceAttemptsTable') },
+          }),
+        },
+      });
+    });
+  });
+
+  describe('User Devices', () => {
+    test('User devices table is keyed by user and device with TTL', () => {
+      template.hasResourceProperties('AWS::DynamoDB::Table', {
+        TableName: 'thesafezone-user-devices',
+        KeySchema: [
+          {
+            AttributeName: 'userId',
+            KeyType: 'HASH',
+          },
+          {
+            AttributeName: 'deviceId',
+            KeyType: 'RANGE',
+          },
+        ],
+        TimeToLiveSpecification: {
+          AttributeName: 'ttl',
+          Enabled: true,
+        },
+      });
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        FunctionName: 'thesafezone-device-code',
+        Environment: {
+          Variables: Match.objectLike({
+            USER_DEVICES_TABLE_NAME: { Ref: Match.stringLikeRegexp('UserDevicesTable') },
+          }),
+        },
+      });
+    });
+
+    test('Devices can be listed and revoked through the API', () => {
+      template.hasResourceProperties('AWS::ApiGateway::Resource', {
+        PathPart: 'devices',
+      });
+      template.hasResourceProperties('AWS::ApiGateway::Resource', {
+        PathPart: '{id}',
+      });
+      template.hasResourceProperties('AWS::ApiGateway::Method', {
+        HttpMethod: 'DELETE',
+        ResourceId: { Ref: Match.stringLikeRegexp('DeviceCodeApidevicesid') },
+      });
+    });
+
+    test('VR client tokens can be revoked', () => {
+      template.hasResourceProperties('AWS::Cognito::UserPoolClient', {
+        ClientName: 'thesafezone-vr-client',
+        EnableTokenRevocation: true,
+      });
+    });
+  });
+
+  describe('Device Token Encryption', () => {
+    test('KMS key with rotation is created for relayed tokens', () => {
+      template.hasResourceProperties('AWS::KMS::Key', {
+        EnableKeyRotation: true,
+      });
+      template.hasResourceProperties('AWS::KMS::Alias', {
+        AliasName: 'alias/thesafezone-device-tokens',
+      });
+    });
+
+    test('Device Code Lambda can generate and decrypt data keys', () => {
+      template.hasResourceProperties('AWS::IAM::Policy', {
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({
+              Action: Match.arrayWith(['kms:Decrypt', 'kms:GenerateDataKey*']),
+              Resource: { 'Fn::GetAtt': [Match.stringLikeRegexp('DeviceTokenKey'), 'Arn'] },
+            }),
+          ]),
+        },
+        Roles: [{ Ref: Match.stringLikeRegexp('DeviceCodeLambda') }],
+      });
+    });
+  });
+
+  describe('Device Token Minting', () => {
+    test('VR client allows the custom auth flow', () => {
+      template.hasResourceProperties('AWS::Cognito::UserPoolClient', {
+        ClientName: 'thesafezone-vr-client',
+        ExplicitAuthFlows: Match.arrayWith(['ALLOW_CUSTOM_AUTH']),
+      });
+    });
+
+    test('User pool has custom auth challenge triggers', () => {
+      const trigger = { 'Fn::GetAtt': [Match.stringLikeRegexp('DeviceAuthChallengeLambda'), 'Arn'] };
+      template.hasResourceProperties('AWS::Cognito::UserPool', {
+        LambdaConfig: {
+          DefineAuthChallenge: trigger,
+          CreateAuthChallenge: trigger,
+          VerifyAuthChallengeResponse: trigger,
+          PreTokenGenerationConfig: { LambdaArn: trigger, LambdaVersion: 'V2_0' },
+        },
+      });
+    });
+
+    test('HMAC key is created for device assertions', () => {
+      template.hasResourceProperties('AWS::KMS::Key', {
+        KeySpec: 'HMAC_256',
+        KeyUsage: 'GENERATE_VERIFY_MAC',
+      });
+    });
+  });
+
+  describe('Device Code API', () => {
+    test('Device flow defaults are passed from context', () => {
+      const appWithDefaults = new cdk.App({
+        context: {
+          deviceFlowDefaults: { interval: 10, userCode: { length: 6, chars: '0123456789' } },
+        },
+      });
+      const templateWithDefaults = Template.fromStack(new TheSafeZoneIdpStack(appWithDefaults, 'TestStackWithDefaults'));
+
+      templateWithDefaults.hasResourceProperties('AWS::Lambda::Function', {
+        FunctionName: 'thesafezone-device-code',
+        Environment: {
+          Variables: Match.objectLike({
+            DEVICE_FLOW_DEFAULTS: '{"interval":10,"userCode":{"length":6,"chars":"0123456789"}}',
+          }),
+        },
+      });
+    });
+
+    test('Device flow defaults may be given as a JSON string on the command line', () => {
+      const appWithDefaults = new cdk.App({
+        context: { deviceFlowDefaults: '{"expiresIn":900}' },
+      });
+      const templateWithDefaults = Template.fromStack(new TheSafeZoneIdpStack(appWithDefaults, 'TestStackWithDefaults'));
+
+      templateWithDefaults.hasResourceProperties('AWS::Lambda::Function', {
+        FunctionName: 'thesafezone-device-code',
+        Environment: {
+          Variables: Match.objectLike({ DEVICE_FLOW_DEFAULTS: '{"expiresIn":900}' }),
+        },
+      });
+    });
+
+    test('Invalid device flow defaults fail synthesis', () => {
+      const appWithInvalidDefaults = new cdk.App({
+        context: { deviceFlowDefaults: { userCode: { length: 4, chars: '0123456789' } } },
+      });
+      expect(() => new TheSafeZoneIdpStack(appWithInvalidDefaults, 'TestStackWithInvalidDefaults'))
+        .toThrow('userCode.length must be an integer from 6 to 12');
+    });
+
+    test('Device endpoints are exposed as API Gateway resources', () => {
+      for (const pathPart of ['code', 'token', 'authorize', 'deny', 'lookup', 'user-code-formats', 'openapi.json']) {
+        template.hasResourceProperties('AWS::ApiGateway::Resource', {
+          PathPart: pathPart,
+        });
+      }
+    });
+
+    test('An HTTP API may front the Lambda instead of the REST API', () => {
+      const appWithHttpApi = new cdk.App({ context: { deviceApiType: 'http' } });
+      const templateWithHttpApi = Template.fromStack(new TheSafeZoneIdpStack(appWithHttpApi, 'TestStackWithHttpApi'));
+
+      templateWithHttpApi.hasResourceProperties('AWS::ApiGatewayV2::Api', {
+        Name: 'TheSafeZone Device Code API',
+        ProtocolType: 'HTTP',
+        CorsConfiguration: Match.objectLike({
+          AllowMethods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
+          AllowOrigins: Match.arrayWith(['http://localhost:5173']),
+        }),
+      });
+      templateWithHttpApi.hasResourceProperties('AWS::ApiGatewayV2::Stage', {
+        StageName: 'v1',
+        AutoDeploy: true,
+      });
+      templateWithHttpApi.hasResourceProperties('AWS::ApiGatewayV2::Integration', {
+        IntegrationType: 'AWS_PROXY',
+        PayloadFormatVersion: '2.0',
+      });
+      templateWithHttpApi.resourceCountIs('AWS::ApiGateway::RestApi', 0);
+      templateWithHttpApi.hasOutput('DeviceCodeApiUrl', {
+        Value: Match.objectLike({ 'Fn::Join': ['', Match.arrayWith(['/v1/'])] }),
+      });
+    });
+
+    test('Invalid device API types fail synthesis', () => {
+      const appWithInvalidType = new cdk.App({ context: { deviceApiType: 'graphql' } });
+      expect(() => new TheSafeZoneIdpStack(appWithInvalidType, 'TestStackWithInvalidApiType'))
+        .toThrow('Invalid deviceApiType context: graphql');
+    });
+
+    test('Device API base paths are passed from context', () => {
+      const appWithBasePaths = new cdk.App({ context: { deviceApiBasePaths: ['/auth', '/idp'] } });
+      const templateWithBasePaths = Template.fromStack(new TheSafeZoneIdpStack(appWithBasePaths, 'TestStackWithBasePaths'));
+
+      templateWithBasePaths.hasResourceProperties('AWS::Lambda::Function', {
+        FunctionName: 'thesafezone-device-code',
+        Environment: {
+          Variables: Match.objectLike({ DEVICE_API_BASE_PATHS: '/auth,/idp' }),
+        },
+      });
+    });
+
+    test('CORS is limited to the Login UI and trusted origins', () => {
+      const loginUiOrigin = {
+        'Fn::Join': ['', [
+          Match.stringLikeRegexp('https://'),
+          { 'Fn::GetAtt': [Match.stringLikeRegexp('LoginUiDistribution'), 'DomainName'] },
+          Match.anyValue(),
+        ]],
+      };
+
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        FunctionName: 'thesafezone-device-code',
+        Environment: {
+          Variables: Match.objectLike({ CORS_ALLOWED_ORIGINS: loginUiOrigin }),
+        },
+      });
+      template.hasResourceProperties('AWS::ApiGateway::Method', {
+        HttpMethod: 'OPTIONS',
+        Integration: Match.objectLike({
+          IntegrationResponses: [Match.objectLike({
+            ResponseParameters: Match.objectLike({
+              'method.response.header.Access-Control-Allow-Origin': loginUiOrigin,
+              'method.response.header.Vary': "'Origin'",
+            }),
+          })],
+        }),
+      });
+    });
+
+    test('Trusted origins are passed from context', () => {
+      const appWithOrigins = new cdk.App({ context: { trustedOrigins: 'https://app.thesafezone.com' } });
+      const templateWithOrigins = Template.fromStack(new TheSafeZoneIdpStack(appWithOrigins, 'TestStackWithOrigins'));
+
+      templateWithOrigins.hasResourceProperties('AWS::Lambda::Function', {
+        FunctionName: 'thesafezone-device-code',
+        Environment: {
+          Variables: Match.objectLike({
+            CORS_ALLOWED_ORIGINS: {
+              'Fn::Join': ['', Match.arrayWith([',https://app.thesafezone.com'])],
+            },
+          }),
+        },
+      });
+    });
+
+    test('Only the VR client is registered for the device grant', () => {
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        FunctionName: 'thesafezone-device-code',
+        Environment: {
+          Variables: Match.objectLike({
+            DEVICE_CLIENTS: {
+              'Fn::Join': ['', [
+                '{"',
+                { Ref: Match.stringLikeRegexp('VRClient') },
+                '":{"displayName":"TheSafeZone VR","allowedScopes":["openid","email","profile"],' +
+                  '"deviceFlow":{"expiresIn":900},"refreshTokenValidity":2592000}}',
+              ]],
+            },
+          }),
+        },
+      });
+    });
+  });
+
+  describe('Device Code API Validation', () => {
+    test('JSON request models are generated from the shared request types', () => {
+      template.hasResourceProperties('AWS::ApiGateway::Model', {
+        Name: 'DeviceTokenRequest',
+        ContentType: 'application/json',
+        Schema: Match.objectLike({
+          $schema: 'http://json-schema.org/draft-04/schema#',
+          type: 'object',
+          required: ['grant_type', 'device_code'],
+          properties: Match.objectLike({
+            // Wrong grant types are left to the handler (unsupported_grant_type)
+            grant_type: { type: 'string' },
+            device_code: { type: 'string', pattern: '^[a-fA-F0-9]{32}$' },
+          }),
+        }),
+      });
+      template.hasResourceProperties('AWS::ApiGateway::Model', {
+        Name: 'DeviceCodeRequest',
+        Schema: Match.objectLike({
+          properties: Match.objectLike({
+            device_name: Match.objectLike({ type: 'string', maxLength: 64 }),
+            qr_code: { type: 'string', enum: ['true', 'false'], description: Match.anyValue() },
+          }),
+        }),
+      });
+      template.resourceCountIs('AWS::ApiGateway::Model', 3);
+    });
+
+    test('POST endpoints validate JSON bodies against their model', () => {
+      for (const model of ['DeviceCodeRequest', 'DeviceTokenRequest', 'DeviceDecisionRequest']) {
+        template.hasResourceProperties('AWS::ApiGateway::Method', {
+          HttpMethod: 'POST',
+          RequestValidatorId: { Ref: Match.stringLikeRegexp('DeviceCodeBodyValidator') },
+          RequestModels: { 'application/json': { Ref: Match.stringLikeRegexp(`${model}Model`) } },
+        });
+      }
+    });
+
+    test('Lookup requires a user code', () => {
+      template.hasResourceProperties('AWS::ApiGateway::Method', {
+        HttpMethod: 'GET',
+        RequestValidatorId: { Ref: Match.stringLikeRegexp('DeviceCodeParameterValidator') },
+        RequestParameters: { 'method.request.querystring.user_code': true },
+      });
+    });
+
+    test('Validation failures are answered as OAuth errors', () => {
+      for (const responseType of ['BAD_REQUEST_BODY', 'BAD_REQUEST_PARAMETERS']) {
+        template.hasResourceProperties('AWS::ApiGateway::GatewayResponse', {
+          ResponseType: responseType,
+          StatusCode: '400',
+          ResponseTemplates: {
+            'application/json': Match.stringLikeRegexp('"error":"invalid_request"'),
+          },
+        });
+      }
+    });
+  });
+
+  describe('Device Push', () => {
+    test('Device Code table streams status changes', () => {
+      template.hasResourceProperties('AWS::DynamoDB::Table', {
+        TableName: 'thesafezone-device-codes',
+        StreamSpecification: {
+          StreamViewType: 'NEW_AND_OLD_IMAGES',
+        },
+      });
+    });
+
+    test('Connections table is keyed by connection with a GSI on deviceCode and TTL', () => {
+      template.hasResourceProperties('AWS::DynamoDB::Table', {
+        TableName: 'thesafezone-device-connections',
+        KeySchema: [
+          {
+            AttributeName: 'connectionId',
+            KeyType: 'HASH',
+          },
+        ],
+        GlobalSecondaryIndexes: [
+          Match.objectLike({
+            IndexName: 'deviceCode-index',
+            KeySchema: [
+              {
+                AttributeName: 'deviceCode',
+                KeyType: 'HASH',
+              },
+            ],
+          }),
+        ],
+        TimeToLiveSpecification: {
+          AttributeName: 'ttl',
+          Enabled: true,
+        },
+      });
+    });
+
+    test('WebSocket API routes $connect and $disconnect', () => {
+      template.hasResourceProperties('AWS::ApiGatewayV2::Api', {
+        ProtocolType: 'WEBSOCKET',
+      });
+      for (const routeKey of ['$connect', '$disconnect']) {
+        template.hasResourceProperties('AWS::ApiGatewayV2::Route', {
+          RouteKey: routeKey,
+        });
+      }
+    });
+
+    test('Stream Lambda is only invoked for codes leaving pending', () => {
+      template.hasResourceProperties('AWS::Lambda::EventSourceMapping', {
+        StartingPosition: 'LATEST',
+        FilterCriteria: {
+          Filters: [
+            {
+              Pattern: JSON.stringify({
+                eventName: ['MODIFY'],
+                dynamodb: {
+                  OldImage: { status: { S: ['pending'] } },
+                  NewImage: { status: { S: ['authorized', 'denied', 'expired'] } },
+                },
+              }),
+            },
+          ],
+        },
+      });
+    });
+
+    test('Stream Lambda may post to WebSocket connections', () => {
+      template.hasResourceProperties('AWS::IAM::Policy', {
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({
+              Action: 'execute-api:ManageConnections',
+              Effect: 'Allow',
+            }),
+          ]),
+        },
+      });
+    });
+
+    test('Device Code Lambda returns the push URI', () => {
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        FunctionName: 'thesafezone-device-code',
+        Environment: {
+          Variables: Match.objectLike({
+            DEVICE_PUSH_URI: Match.anyValue(),
+          }),
+        },
+      });
+    });
+  });
+
+  describe('Constructs', () => {
+    test('Stack is composed of the constructs', () => {
+      expect(stack.identity.clients).toHaveProperty('VR');
+      expect(stack.deviceCodeApi.restApi).toBeDefined();
+      expect(stack.deviceCodeApi.httpApi).toBeUndefined();
+      expect(stack.loginUi.bucket).not.toBe(stack.sampleClient.bucket);
+    });
+
+    test('Resources keep the logical IDs they had before moving into constructs', () => {
+      const logicalIds = Object.keys(template.toJSON().Resources);
+
+      // Replacing these would lose users, client IDs, data or URLs, or clash with
+      // the resources they replace
+      expect(logicalIds).toEqual(expect.arrayContaining([
+        'TheSafeZoneUserPool93A3412E',
+        'TheSafeZoneUserPoolWebMobileClientF7E20652',
+        'TheSafeZoneUserPoolVRClientD855D436',
+        'TheSafeZoneUserPoolCognitoDomain6F571346',
+        'TheSafeZoneIdentityPool',
+        'ManagedLoginBranding',
+        'DeviceCodeTable6DAA765F',
+        'DeviceTokenKeyE1DC782A',
+        'DeviceCodeApiDF112766',
+        'DeviceCodeApidevicecodePOST17CA31A0',
+        'DevicePushApiEAD4B551',
+        'DeviceCodeLambdaF02E99EB',
+        'LoginUiBucketBE3931EC',
+        'LoginUiDistribution707B917F',
+        'SampleClientDistributionE7136A60',
+      ]));
+      // Lambda allows one mapping per stream, so it must not be replaced either
+      expect(logicalIds).toContainEqual(
+        expect.stringMatching(/^DeviceStatusStreamLambdaDynamoDBEventSourceTestStackDeviceCodeTable[0-9A-F]{8}[0-9A-F]{8}$/));
+    });
+  });
+
+  describe('Stages', () => {
+    let prodTemplate: Template;
+
+    beforeAll(() => {
+      const prodApp = new cdk.App();
+      prodTemplate = Template.fromStack(new TheSafeZoneIdpStack(prodApp, STAGES.prod.stackId, { stage: STAGES.prod }));
+    });
+
+    test('dev keeps the names of the stack deployed before stages', () => {
+      template.hasResourceProperties('AWS::Cognito::UserPool', { UserPoolName: 'thesafezone-user-pool' });
+      template.hasResourceProperties('AWS::DynamoDB::Table', { TableName: 'thesafezone-device-codes' });
+      template.hasResourceProperties('AWS::Cognito::UserPoolDomain', { Domain: 'thesafezone-auth' });
+    });
+
+    test('Resource names are prefixed with the stage', () => {
+      prodTemplate.hasResourceProperties('AWS::Cognito::UserPool', { UserPoolName: 'thesafezone-prod-user-pool' });
+      prodTemplate.hasResourceProperties('AWS::Cognito::IdentityPool', {
+        IdentityPoolName: 'thesafezone-prod-identity-pool',
+      });
+      prodTemplate.hasResourceProperties('AWS::Cognito::UserPoolDomain', { Domain: 'thesafezone-auth-prod' });
+      for (const table of ['device-codes', 'device-attempts', 'user-devices', 'device-connections']) {
+        prodTemplate.hasResourceProperties('AWS::DynamoDB::Table', { TableName: `thesafezone-prod-${table}` });
+      }
+      for (const fn of ['device-auth-challenge', 'device-code', 'device-push-connection', 'device-status-stream']) {
+        prodTemplate.hasResourceProperties('AWS::Lambda::Function', { FunctionName: `thesafezone-prod-${fn}` });
+      }
+      prodTemplate.hasResourceProperties('AWS::KMS::Alias', { AliasName: 'alias/thesafezone-prod-device-tokens' });
+    });
+
+    test('dev data is deleted with the stack', () => {
+      template.hasResource('AWS::Cognito::UserPool', { DeletionPolicy: 'Delete' });
+      template.hasResource('AWS::DynamoDB::Table', { DeletionPolicy: 'Delete' });
+      template.hasResourceProperties('Custom::S3AutoDeleteObjects', Match.anyValue());
+    });
+
+    test('prod data is retained and protected from deletion', () => {
+      prodTemplate.allResources('AWS::DynamoDB::Table', {
+        DeletionPolicy: 'Retain',
+        Properties: Match.objectLike({ DeletionProtectionEnabled: true }),
+      });
+      prodTemplate.hasResource('AWS::Cognito::UserPool', {
+        DeletionPolicy: 'Retain',
+        Properties: Match.objectLike({ DeletionProtection: 'ACTIVE' }),
+      });
+      prodTemplate.allResources('AWS::KMS::Key', { DeletionPolicy: 'Retain' });
+      prodTemplate.allResources('AWS::S3::Bucket', { DeletionPolicy: 'Retain' });
+      prodTemplate.resourceCountIs('Custom::S3AutoDeleteObjects', 0);
+    });
+
+    test('Lambda logs are kept as long as the stage says', () => {
+      template.allResourcesProperties('AWS::Logs::LogGroup', { RetentionInDays: 7 });
+      prodTemplate.allResourcesProperties('AWS::Logs::LogGroup', { RetentionInDays: 365 });
+      prodTemplate.hasResourceProperties('AWS::Lambda::Function', {
+        FunctionName: 'thesafezone-prod-device-code',
+        LoggingConfig: { LogGroup: { Ref: Match.stringLikeRegexp('DeviceCodeLambdaLogs') } },
+      });
+    });
+
+    test('prod trusts no localhost origins', () => {
+      // Only the Login UI's own origin
+      const loginUiOrigin = {
+        'Fn::Join': ['', [
+          'https://',
+          { 'Fn::GetAtt': [Match.stringLikeRegexp('LoginUiDistribution'), 'DomainName'] },
+        ]],
+      };
+
+      prodTemplate.hasResourceProperties('AWS::Lambda::Function', {
+        FunctionName: 'thesafezone-prod-device-code',
+        Environment: {
+          Variables: Match.objectLike({ CORS_ALLOWED_ORIGINS: loginUiOrigin }),
+        },
+      });
+
+      // API Gateway preflights allow the same origins
+      const preflight = (t: Template) => JSON.stringify(
+        t.findResources('AWS::ApiGateway::Method', { Properties: { HttpMethod: 'OPTIONS' } }));
+      expect(preflight(template)).toContain('http://localhost:5173');
+      expect(preflight(prodTemplate)).not.toContain('http://localhost');
+    });
+
+    test('Token lifetimes follow the stage', () => {
+      const stagingApp = new cdk.App();
+      const stagingTemplate = Template.fromStack(
+        new TheSafeZoneIdpStack(stagingApp, STAGES.staging.stackId, { stage: STAGES.staging }));
+
+      stagingTemplate.hasResourceProperties('AWS::Cognito::UserPoolClient', {
+        ClientName: 'thesafezone-vr-client',
+        RefreshTokenValidity: 10080, // 7 days in minutes
+      });
+      stagingTemplate.hasResourceProperties('AWS::Lambda::Function', {
+        FunctionName: 'thesafezone-staging-device-code',
+        Environment: {
+          Variables: Match.objectLike({
+            DEVICE_CLIENTS: { 'Fn::Join': ['', Match.arrayWith([Match.stringLikeRegexp('"refreshTokenValidity":604800')])] },
+          }),
+        },
+      });
+    });
+
+    test('Unknown stages are rejected', () => {
+      expect(getStageConfig('prod')).toBe(STAGES.prod);
+      expect(() => getStageConfig('qa')).toThrow('Unknown stage: qa (expected dev, staging, prod)');
+    });
+  });
+
+  describe('Custom Domains', () => {
+    const domainContext = { domainName: 'thesafezone.eu', hostedZoneId: 'Z0123456789EXAMPLE' };
+    const account = '123456789012';
+    let certificateTemplate: Template;
+    let domainTemplate: Template;
+
+    beforeAll(() => {
+      const domainApp = new cdk.App({ context: domainContext });
+      const certificates = new TheSafeZoneCertificateStack(domainApp, 'TestCertificates', {
+        env: { account, region: 'us-east-1' },
+        crossRegionReferences: true,
+        domains: getStageDomains(domainApp, STAGES.prod)!,
+      });
+      const domainStack = new TheSafeZoneIdpStack(domainApp, 'TestStackWithDomains', {
+        env: { account, region: 'eu-central-1' },
+        crossRegionReferences: true,
+        stage: STAGES.prod,
+        globalCertificate: certificates.certificate,
+      });
+      certificateTemplate = Template.fromStack(certificates);
+      domainTemplate = Template.fromStack(domainStack);
+    });
+
+    test('Stages get auth, account and api subdomains', () => {
+      const domainApp = new cdk.App({ context: domainContext });
+
+      expect(getStageDomains(domainApp, STAGES.prod)).toEqual({
+        zoneName: 'thesafezone.eu',
+        hostedZoneId: 'Z0123456789EXAMPLE',
+        auth: 'auth.thesafezone.eu',
+        account: 'account.thesafezone.eu',
+        api: 'api.thesafezone.eu',
+      });
+      expect(getStageDomains(domainApp, STAGES.staging)?.auth).toBe('auth.staging.thesafezone.eu');
+      expect(getStageDomains(app, STAGES.prod)).toBeUndefined();
+      expect(() => getStageDomains(new cdk.App({ context: { domainName: 'thesafezone.eu' } }), STAGES.prod))
+        .toThrow('Custom domains need both the domainName and hostedZoneId context');
+    });
+
+    test('Certificate for CloudFront and Cognito is issued in us-east-1', () => {
+      certificateTemplate.hasResourceProperties('AWS::CertificateManager::Certificate', {
+        DomainName: 'account.thesafezone.eu',
+        SubjectAlternativeNames: ['auth.thesafezone.eu'],
+        ValidationMethod: 'DNS',
+        DomainValidationOptions: Match.arrayWith([
+          { DomainName: 'auth.thesafezone.eu', HostedZoneId: 'Z0123456789EXAMPLE' },
+        ]),
+      });
+
+      const otherApp = new cdk.App();
+      expect(() => new TheSafeZoneCertificateStack(otherApp, 'TestCertificates', {
+        env: { account, region: 'eu-central-1' },
+        domains: getStageDomains(new cdk.App({ context: domainContext }), STAGES.prod)!,
+      })).toThrow('TheSafeZoneCertificateStack must be deployed to us-east-1, not eu-central-1');
+    });
+
+    test('Cognito serves the OAuth2 endpoints from the auth domain', () => {
+      domainTemplate.hasResourceProperties('AWS::Cognito::UserPoolDomain', {
+        Domain: 'auth.thesafezone.eu',
+        CustomDomainConfig: { CertificateArn: Match.anyValue() },
+        ManagedLoginVersion: 2,
+      });
+      // The prefix domain keeps working
+      domainTemplate.hasResourceProperties('AWS::Cognito::UserPoolDomain', { Domain: 'thesafezone-auth-prod' });
+      domainTemplate.hasResourceProperties('AWS::Route53::RecordSet', {
+        Name: 'auth.thesafezone.eu.',
+        Type: 'A',
+        HostedZoneId: 'Z0123456789EXAMPLE',
+      });
+      domainTemplate.hasOutput('CognitoDomainUrl', {
+        Value: { 'Fn::Join': ['', ['https://', { Ref: Match.stringLikeRegexp('CustomDomain') }]] },
+      });
+    });
+
+    test('Login UI is served from the account domain', () => {
+      domainTemplate.hasResourceProperties('AWS::CloudFront::Distribution', {
+        DistributionConfig: Match.objectLike({
+          Aliases: ['account.thesafezone.eu'],
+          ViewerCertificate: Match.objectLike({ AcmCertificateArn: Match.anyValue() }),
+        }),
+      });
+      for (const type of ['A', 'AAAA']) {
+        domainTemplate.hasResourceProperties('AWS::Route53::RecordSet', { Name: 'account.thesafezone.eu.', Type: type });
+      }
+      domainTemplate.hasOutput('LoginUiUrl', { Value: 'https://account.thesafezone.eu' });
+      domainTemplate.hasOutput('ActivatePageUrl', { Value: 'https://account.thesafezone.eu/activate' });
+    });
+
+    test('Device Code API is served from the api domain with a regional certificate', () => {
+      domainTemplate.hasResourceProperties('AWS::CertificateManager::Certificate', {
+        DomainName: 'api.thesafezone.eu',
+        ValidationMethod: 'DNS',
+      });
+      domainTemplate.hasResourceProperties('AWS::ApiGateway::DomainName', {
+        DomainName: 'api.thesafezone.eu',
+        EndpointConfiguration: { Types: ['REGIONAL'] },
+        RegionalCertificateArn: { Ref: Match.stringLikeRegexp('ApiCertificate') },
+        SecurityPolicy: 'TLS_1_2',
+      });
+      domainTemplate.hasResourceProperties('AWS::ApiGateway::BasePathMapping', {
+        DomainName: { Ref: Match.stringLikeRegexp('CustomDomain') },
+        Stage: { Ref: Match.stringLikeRegexp('DeviceCodeApiDeploymentStagev1') },
+      });
+      domainTemplate.hasResourceProperties('AWS::Route53::RecordSet', { Name: 'api.thesafezone.eu.', Type: 'A' });
+      domainTemplate.hasOutput('DeviceCodeApiUrl', { Value: 'https://api.thesafezone.eu/' });
+    });
+
+    test('Verification URI, callback URLs and allowed origins follow the account domain', () => {
+      domainTemplate.hasResourceProperties('AWS::Lambda::Function', {
+        FunctionName: 'thesafezone-prod-device-code',
+        Environment: {
+          Variables: Match.objectLike({
+            VERIFICATION_URI: 'https://account.thesafezone.eu/activate',
+            CORS_ALLOWED_ORIGINS: {
+              'Fn::Join': ['', Match.arrayWith([Match.stringLikeRegexp(',https://account\\.thesafezone\\.eu$')])],
+            },
+          }),
+        },
+      });
+      domainTemplate.hasResourceProperties('AWS::Cognito::UserPoolClient', {
+        ClientName: 'thesafezone-web-mobile-client',
+        CallbackURLs: Match.arrayWith([
+          'https://account.thesafezone.eu/activate',
+          'https://account.thesafezone.eu/profile/callback',
+        ]),
+        LogoutURLs: Match.arrayWith(['https://account.thesafezone.eu']),
+      });
+    });
+
+    test('Verification URI is the Login UI activate page without custom domains', () => {
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        FunctionName: 'thesafezone-device-code',
+        Environment: {
+          Variables: Match.objectLike({
+            VERIFICATION_URI: {
+              'Fn::Join': ['', ['https://', { 'Fn::GetAtt': [Match.stringLikeRegexp('LoginUiDistribution'), 'DomainName'] }, '/activate']],
+            },
+          }),
+        },
+      });
+      template.resourceCountIs('AWS::Route53::RecordSet', 0);
+    });
+
+    test('Custom domains need the us-east-1 certificate', () => {
+      const domainApp = new cdk.App({ context: domainContext });
+      expect(() => new TheSafeZoneIdpStack(domainApp, 'TestStackWithoutCertificate', { stage: STAGES.prod }))
+        .toThrow('Custom domains need a us-east-1 certificate (globalCertificate, see TheSafeZoneCertificateStack)');
+    });
   });
 });
@@ -0,0 +1,75 @@
+/**
+ * Tests for envelope encryption of relayed device tokens
+ *
+ * Uses a local fake key in place of KMS.
+ */
+import * as crypto from 'crypto';
+import * as fc from 'fast-check';
+import {
+  createLocalEncryptionProvider,
+  encryptTokens,
+  decryptTokens,
+  encryptRefreshToken,
+  decryptRefreshToken,
+} from '../lib/lambda/device-code/token-encryption';
+
+describe('Token Encryption', () => {
+  const provider = createLocalEncryptionProvider(crypto.randomBytes(32));
+  const deviceCodeArb = fc.hexaString({ minLength: 32, maxLength: 32 });
+  const tokensArb = fc.record({
+    accessToken: fc.string({ minLength: 10, maxLength: 200 }),
+    idToken: fc.string({ minLength: 10, maxLength: 200 }),
+    refreshToken: fc.string({ minLength: 10, maxLength: 200 }),
+    expiresIn: fc.integer({ min: 300, max: 86400 }),
+  });
+
+  test('tokens round-trip through encryption', async () => {
+    await fc.assert(
+      fc.asyncProperty(deviceCodeArb, tokensArb, async (deviceCode, tokens) => {
+        const encrypted = await encryptTokens(tokens, deviceCode, provider);
+        expect(await decryptTokens(encrypted, deviceCode, provider)).toEqual(tokens);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  test('ciphertext does not contain the plaintext tokens', async () => {
+    const tokens = { accessToken: 'access-token-value', idToken: 'id-token-value', refreshToken: 'refresh-token-value', expiresIn: 3600 };
+    const encrypted = await encryptTokens(tokens, 'a'.repeat(32), provider);
+    const stored = Buffer.concat([encrypted.encryptedKey, encrypted.iv, encrypted.ciphertext, encrypted.authTag]);
+
+    expect(stored.toString('utf-8')).not.toContain('access-token-value');
+    expect(stored.toString('utf-8')).not.toContain('refresh-token-value');
+  });
+
+  test('ciphertext is bound to its device code', async () => {
+    const tokens = { accessToken: 'a'.repeat(20), idToken: 'b'.repeat(20), refreshToken: 'c'.repeat(20), expiresIn: 3600 };
+    const encrypted = await encryptTokens(tokens, 'a'.repeat(32), provider);
+
+    await expect(decryptTokens(encrypted, 'b'.repeat(32), provider)).rejects.toThrow();
+  });
+
+  test('stored refresh tokens are bound to their user and device', async () => {
+    const encrypted = await encryptRefreshToken('refresh-token-value', 'user-sub', 'a'.repeat(32), provider);
+
+    expect(await decryptRefreshToken(encrypted, 'user-sub', 'a'.repeat(32), provider)).toBe('refresh-token-value');
+    await expect(decryptRefreshToken(encrypted, 'other-sub', 'a'.repeat(32), provider)).rejects.toThrow();
+    await expect(decryptRefreshToken(encrypted, 'user-sub', 'b'.repeat(32), provider)).rejects.toThrow();
+  });
+
+  test('tampered ciphertext is rejected', async () => {
+    const tokens = { accessToken: 'a'.repeat(20), idToken: 'b'.repeat(20), refreshToken: 'c'.repeat(20), expiresIn: 3600 };
+    const encrypted = await encryptTokens(tokens, 'a'.repeat(32), provider);
+    encrypted.ciphertext[0] ^= 0xff;
+
+    await expect(decryptTokens(encrypted, 'a'.repeat(32), provider)).rejects.toThrow();
+  });
+
+  test('a different master key cannot decrypt', async () => {
+    const tokens = { accessToken: 'a'.repeat(20), idToken: 'b'.repeat(20), refreshToken: 'c'.repeat(20), expiresIn: 3600 };
+    const encrypted = await encryptTokens(tokens, 'a'.repeat(32), provider);
+    const otherProvider = createLocalEncryptionProvider(crypto.randomBytes(32));
+
+    await expect(decryptTokens(encrypted, 'a'.repeat(32), otherProvider)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Cross-package tests for user codes
+ *
+ * The Lambda generates user codes (code-generator.ts) and the Login UI
+ * formats, cleans up and validates what the user types with the helpers in
+ * @thesafezone/idp-common. Any code a device displays must survive the
+ * round-trip through the Login UI input back to the stored form.
+ */
+import * as fc from 'fast-check';
+import {
+  DEFAULT_USER_CODE_FORMAT,
+  UserCodeFormat,
+  formatUserCode,
+  isValidUserCode,
+  normalizeUserCode,
+  sanitizeUserCodeInput,
+} from '@thesafezone/idp-common';
+import { generateUserCode } from '../lib/lambda/device-code/code-generator';
+import { validateDeviceFlowSettings } from '../lib/lambda/device-code/device-flow-config';
+
+// Any user code format the stack accepts
+const formatArb: fc.Arbitrary<UserCodeFormat> = fc.record({
+  length: fc.integer({ min: 6, max: 12 }),
+  chars: fc.uniqueArray(fc.constantFrom(...'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789'), { minLength: 10, maxLength: 36 })
+    .map((chars) => chars.join('')),
+}).filter((format) => validateDeviceFlowSettings({ userCode: format }).length === 0);
+
+describe('User Code Round-Trip', () => {
+  test('generated codes are already in display format', () => {
+    fc.assert(
+      fc.property(formatArb, (format) => {
+        const userCode = generateUserCode(format);
+        expect(formatUserCode(userCode)).toBe(userCode);
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  test('typing a displayed code into the Login UI yields the stored code', () => {
+    fc.assert(
+      fc.property(formatArb, fc.constantFrom('upper', 'lower', 'spaced'), (format, typing) => {
+        const displayed = generateUserCode(format);
+        const typed = typing === 'upper' ? displayed
+          : typing === 'lower' ? displayed.toLowerCase()
+          : displayed.split('').join(' ');
+
+        const input = sanitizeUserCodeInput(typed, [format]);
+        expect(input).toBe(displayed);
+        expect(isValidUserCode(input, [format])).toBe(true);
+        expect(normalizeUserCode(input)).toBe(normalizeUserCode(displayed));
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  test('the default format excludes ambiguous characters on both sides', () => {
+    for (const char of '0O1IL') {
+      expect(DEFAULT_USER_CODE_FORMAT.chars).not.toContain(char);
+      expect(sanitizeUserCodeInput(char)).toBe('');
+    }
+  });
+
+  test('codes are valid only in a format that allows all their characters', () => {
+    fc.assert(
+      fc.property(formatArb, formatArb, (generatedIn, checkedAgainst) => {
+        const normalized = normalizeUserCode(generateUserCode(generatedIn));
+        const fits = normalized.length === checkedAgainst.length &&
+          [...normalized].every((char) => checkedAgainst.chars.includes(char));
+        expect(isValidUserCode(normalized, [checkedAgainst])).toBe(fits);
+      }),
+      { numRuns: 200 }
+    );
+  });
+});
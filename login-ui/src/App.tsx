@@ -1,5 +1,6 @@
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
-import { ActivatePage, ProfilePage, ProfileCallbackPage } from './pages';
+import { ActivatePage, ProfilePage, ProfileCallbackPage, AccountLockedPage } from './pages';
+import { ACCOUNT_LOCKED_PATH } from './services/auth';
 
 function App() {
   return (
@@ -11,6 +12,9 @@ function App() {
         {/* Profile management */}
         <Route path="/profile" element={<ProfilePage />} />
         <Route path="/profile/callback" element={<ProfileCallbackPage />} />
+
+        {/* Explains sign-ins refused after failed attempts or risky sign-ins (Requirement 13.1) */}
+        <Route path={ACCOUNT_LOCKED_PATH} element={<AccountLockedPage />} />
         
         {/* Default redirect to activate */}
         <Route path="/" element={<Navigate to="/activate" replace />} />
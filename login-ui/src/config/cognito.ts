@@ -1,6 +1,7 @@
 /**
  * Cognito configuration for TheSafeZone IDP
- * These values should be set via environment variables in production
+ * Build-time values from environment variables; deployed stages replace them
+ * with the values from config.json (runtime.ts)
  */
 export const cognitoConfig = {
   // User Pool configuration
@@ -23,7 +24,11 @@ export const cognitoConfig = {
 
 /**
  * Get the full Cognito OAuth URL
+ * The domain may include a scheme, e.g. http://localhost:4000 for the local
+ * Device Code API dev server, which emulates the OAuth endpoints.
  */
 export const getCognitoOAuthUrl = (path: string): string => {
-  return `https://${cognitoConfig.cognitoDomain}${path}`;
+  const domain = cognitoConfig.cognitoDomain;
+  const base = /^https?:\/\//.test(domain) ? domain.replace(/\/$/, '') : `https://${domain}`;
+  return `${base}${path}`;
 };
@@ -0,0 +1,71 @@
+/**
+ * Tests for the runtime configuration deployed stages write to config.json
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { cognitoConfig } from './cognito';
+import { applyRuntimeConfig, getRuntimeTrustedOrigins, loadRuntimeConfig } from './runtime';
+
+describe('Runtime Config', () => {
+  const buildTimeConfig = { ...cognitoConfig };
+
+  beforeEach(() => {
+    Object.assign(cognitoConfig, {
+      userPoolId: 'eu-central-1_build',
+      userPoolClientId: 'build-client',
+      cognitoDomain: 'build.auth.eu-central-1.amazoncognito.com',
+      apiEndpoint: 'https://build.example.com/v1',
+    });
+  });
+
+  afterEach(() => {
+    Object.assign(cognitoConfig, buildTimeConfig);
+    vi.unstubAllGlobals();
+  });
+
+  it('should replace the build-time values with the stage values', () => {
+    applyRuntimeConfig({
+      userPoolId: 'eu-central-1_prod',
+      userPoolClientId: 'prod-client',
+      cognitoDomain: 'https://auth.thesafezone.eu',
+      apiEndpoint: 'https://api.thesafezone.eu/',
+      trustedOrigins: 'https://sample.thesafezone.eu',
+    });
+
+    expect(cognitoConfig.userPoolId).toBe('eu-central-1_prod');
+    expect(cognitoConfig.userPoolClientId).toBe('prod-client');
+    expect(cognitoConfig.cognitoDomain).toBe('https://auth.thesafezone.eu');
+    expect(cognitoConfig.apiEndpoint).toBe('https://api.thesafezone.eu');
+    expect(getRuntimeTrustedOrigins()).toBe('https://sample.thesafezone.eu');
+  });
+
+  it('should keep build-time values the config does not set', () => {
+    applyRuntimeConfig({ userPoolClientId: 'prod-client', apiEndpoint: '' });
+
+    expect(cognitoConfig.userPoolId).toBe('eu-central-1_build');
+    expect(cognitoConfig.userPoolClientId).toBe('prod-client');
+    expect(cognitoConfig.apiEndpoint).toBe('https://build.example.com/v1');
+  });
+
+  it('should load config.json bypassing the cache', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ userPoolClientId: 'staging-client' }), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await loadRuntimeConfig();
+
+    expect(fetchMock).toHaveBeenCalledWith('/config.json', { cache: 'no-store' });
+    expect(cognitoConfig.userPoolClientId).toBe('staging-client');
+  });
+
+  it('should keep the build-time values without a config.json', async () => {
+    // The dev server and SPA routing answer unknown paths with index.html
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('<!doctype html>', { status: 200 })));
+    await loadRuntimeConfig();
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('', { status: 404 })));
+    await loadRuntimeConfig();
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+    await loadRuntimeConfig();
+
+    expect(cognitoConfig.userPoolClientId).toBe('build-client');
+  });
+});
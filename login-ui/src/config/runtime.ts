@@ -0,0 +1,59 @@
+/**
+ * Runtime configuration of the deployed Login UI
+ *
+ * The app is built once for all stages; each stage deploys config.json next
+ * to it with the stage's values (SpaSite.addRuntimeConfig in infra). Values
+ * it sets replace the build-time VITE_* values. The dev server has no
+ * config.json and keeps the build-time values.
+ */
+import { cognitoConfig } from './cognito';
+
+export interface RuntimeConfig {
+  userPoolId?: string;
+  userPoolClientId?: string;
+  cognitoDomain?: string;   // May include the scheme, e.g. https://auth.thesafezone.eu
+  apiEndpoint?: string;
+  trustedOrigins?: string;  // Comma-separated, like VITE_TRUSTED_ORIGINS
+}
+
+let trustedOrigins: string | undefined;
+
+/**
+ * Returns the trusted origins from config.json, if it set them
+ */
+export function getRuntimeTrustedOrigins(): string | undefined {
+  return trustedOrigins;
+}
+
+/**
+ * Applies the values a runtime configuration sets over the build-time values
+ */
+export function applyRuntimeConfig(config: RuntimeConfig): void {
+  const value = (key: keyof RuntimeConfig): string | undefined => {
+    const setting = config[key];
+    return typeof setting === 'string' && setting.length > 0 ? setting : undefined;
+  };
+
+  cognitoConfig.userPoolId = value('userPoolId') ?? cognitoConfig.userPoolId;
+  cognitoConfig.userPoolClientId = value('userPoolClientId') ?? cognitoConfig.userPoolClientId;
+  cognitoConfig.cognitoDomain = value('cognitoDomain') ?? cognitoConfig.cognitoDomain;
+  // Requests append /device/..., the deployed API URL ends in /
+  cognitoConfig.apiEndpoint = value('apiEndpoint')?.replace(/\/$/, '') ?? cognitoConfig.apiEndpoint;
+  trustedOrigins = value('trustedOrigins') ?? trustedOrigins;
+}
+
+/**
+ * Loads config.json and applies it
+ * Never fails - without a readable config.json the build-time values are kept.
+ */
+export async function loadRuntimeConfig(url = '/config.json'): Promise<void> {
+  try {
+    const response = await fetch(url, { cache: 'no-store' });
+    if (!response.ok) {
+      return;
+    }
+    applyRuntimeConfig(await response.json());
+  } catch {
+    // No config.json - SPA routing answers with index.html, which is not JSON
+  }
+}
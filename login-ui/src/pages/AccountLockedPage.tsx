@@ -0,0 +1,52 @@
+/**
+ * Account Locked Page
+ * Explains why sign-in is refused after Cognito locked the account following
+ * repeated failed passwords, or blocked a sign-in that looked risky. Managed
+ * Login only shows Cognito's short error, so the activate page links here.
+ *
+ * Requirements: 13.1
+ */
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AuthLayout } from '../components/layout';
+import { Card, CardHeader, CardContent, Alert, Button } from '../components/ui';
+import styles from './AuthPages.module.css';
+
+export const AccountLockedPage: React.FC = () => {
+  const navigate = useNavigate();
+
+  return (
+    <AuthLayout>
+      <Card className={styles.authCard}>
+        <CardHeader>
+          <h2 className={styles.title}>Account Temporarily Locked</h2>
+          <p className={styles.subtitle}>Sign-in is paused to protect your account</p>
+        </CardHeader>
+        <CardContent>
+          <Alert variant="warning" className={styles.message}>
+            If the sign-in page says "Password attempts exceeded", your account is temporarily
+            locked after too many failed sign-in attempts. A sign-in that looked suspicious may
+            also be blocked.
+          </Alert>
+          <p className={styles.instructions}>
+            The lock lasts a second at first and doubles with each further failed attempt, up to
+            about 15 minutes. Sign-ins tried while the account is locked are refused, so make sure
+            you have the right password before trying again.
+          </p>
+          <p className={styles.instructions}>
+            Forgot your password? Choose "Forgot your password?" on the sign-in page to reset it.
+            If you didn't try to sign in, reset your password - someone else may know it.
+          </p>
+          <Button
+            onClick={() => navigate('/activate')}
+            fullWidth
+            size="lg"
+            variant="outline"
+          >
+            Try Again
+          </Button>
+        </CardContent>
+      </Card>
+    </AuthLayout>
+  );
+};
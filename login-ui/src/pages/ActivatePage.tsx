@@ -1,44 +1,140 @@
 import React, { useState, useEffect } from 'react';
-import { useSearchParams } from 'react-router-dom';
+import { useSearchParams, useNavigate } from 'react-router-dom';
 import { AuthLayout } from '../components/layout';
 import { Card, CardHeader, CardContent, Input, Button, Alert } from '../components/ui';
 import {
-  isValidUserCodeFormat,
+  isValidUserCode,
   formatUserCode,
   normalizeUserCode,
+  sanitizeUserCodeInput,
+  getMaxUserCodeLength,
+  DEFAULT_USER_CODE_FORMAT,
+} from '@thesafezone/idp-common';
+import type { UserCodeFormat } from '@thesafezone/idp-common';
+import {
+  fetchUserCodeFormats,
   getDeviceActivationOAuthUrl,
   exchangeCodeForTokens,
   authorizeDevice,
+  denyDevice,
+  lookupDevice,
+  describeScope,
+  describeDevice,
   parseDeviceActivationState,
   storeDeviceFlowState,
   getDeviceFlowState,
   clearDeviceFlowState,
 } from '../services/device';
+import type { DeviceConsentDetails } from '../services/device';
+import { ACCOUNT_LOCKED_PATH } from '../services/auth';
 import styles from './AuthPages.module.css';
 
-type ActivationStep = 'enter_code' | 'authenticating' | 'authorizing' | 'success' | 'error';
+type ActivationStep =
+  | 'enter_code'
+  | 'authenticating'
+  | 'confirm'
+  | 'authorizing'
+  | 'denying'
+  | 'success'
+  | 'denied'
+  | 'error';
+
+/**
+ * Redirect to Cognito to sign in before approving the device with this code
+ */
+const redirectToSignIn = (normalizedUserCode: string) => {
+  // Store the user code in session storage as backup
+  storeDeviceFlowState(normalizedUserCode);
+
+  // Redirect to Cognito for authentication
+  window.location.href = getDeviceActivationOAuthUrl(normalizedUserCode);
+};
 
 /**
  * Device Activation Page for VR authentication
  * 
  * Flow:
- * 1. User enters the code displayed on their VR headset
+ * 1. User enters the code displayed on their VR headset, or opens
+ *    /activate?user_code=... (verification_uri_complete) to skip typing it
  * 2. Page redirects to Cognito Managed Login for authentication
  * 3. After auth, Cognito redirects back with authorization code
- * 4. Page exchanges code for tokens and calls /device/authorize
- * 5. VR device can now poll and receive tokens
+ * 4. Page exchanges code for tokens, looks up the request and shows a consent card
+ * 5. Approve calls /device/authorize; "This wasn't me" calls /device/deny
+ * 6. VR device can now poll and receive tokens (or access_denied)
  * 
  * Requirements: 9.3
  */
 export const ActivatePage: React.FC = () => {
   const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
   const [userCode, setUserCode] = useState('');
   const [step, setStep] = useState<ActivationStep>('enter_code');
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  // Access token from sign-in, held until the user approves or denies
+  const [accessToken, setAccessToken] = useState<string | null>(null);
+  const [consent, setConsent] = useState<DeviceConsentDetails | null>(null);
+  // Formats of the codes registered devices display (e.g. numeric on kiosks)
+  const [formats, setFormats] = useState<UserCodeFormat[]>([DEFAULT_USER_CODE_FORMAT]);
+
+  useEffect(() => {
+    fetchUserCodeFormats().then(setFormats);
+  }, []);
 
   // Handle OAuth callback from Cognito
   useEffect(() => {
+    /**
+     * Exchange the authorization code for tokens, then look up the device
+     * request so the user can see which app and scopes they are granting
+     */
+    const completeSignIn = async (authCode: string, deviceUserCode: string) => {
+      setUserCode(formatUserCode(deviceUserCode));
+
+      try {
+        const exchanged = await exchangeCodeForTokens(
+          authCode,
+          `${window.location.origin}/activate`
+        );
+        // The authorization code is single-use - drop it from the URL
+        window.history.replaceState({}, '', '/activate');
+
+        const lookup = await lookupDevice(deviceUserCode, exchanged.accessToken);
+        if (!lookup.success || !lookup.details) {
+          setStep('error');
+          setError(lookup.errorDescription || 'Failed to look up device request');
+          clearDeviceFlowState();
+          return;
+        }
+
+        setAccessToken(exchanged.accessToken);
+        setConsent(lookup.details);
+        setStep('confirm');
+      } catch (err) {
+        console.error('Token exchange error:', err);
+        setStep('error');
+        setError(err instanceof Error ? err.message : 'Failed to complete sign in');
+        clearDeviceFlowState();
+      }
+    };
+
+    /**
+     * Prefill the code from the link and sign in straight away - the consent
+     * card still shows the request before anything is approved
+     */
+    const handleDeepLink = async (linkedUserCode: string) => {
+      const normalized = normalizeUserCode(linkedUserCode);
+      setUserCode(formatUserCode(normalized));
+
+      if (!isValidUserCode(normalized, await fetchUserCodeFormats())) {
+        setError('The code in this link is not valid. Please enter the code shown on your VR headset.');
+        return;
+      }
+
+      setIsLoading(true);
+      setStep('authenticating');
+      redirectToSignIn(normalized);
+    };
+
     const handleOAuthCallback = async () => {
       const code = searchParams.get('code');
       const state = searchParams.get('state');
@@ -55,9 +151,16 @@ export const ActivatePage: React.FC = () => {
 
       // Check if this is an OAuth callback
       if (!code || !state) {
+        // Deep link from verification_uri_complete (e.g. a QR code on the headset)
+        const linkedUserCode = searchParams.get('user_code');
+        if (linkedUserCode) {
+          await handleDeepLink(linkedUserCode);
+        }
         return;
       }
 
+      setStep('authorizing');
+
       // Parse the state to get the user code
       const deviceState = parseDeviceActivationState(state);
       if (!deviceState) {
@@ -69,71 +172,62 @@ export const ActivatePage: React.FC = () => {
           return;
         }
         // Use stored state
-        await completeDeviceAuthorization(code, storedState.userCode);
+        await completeSignIn(code, storedState.userCode);
         return;
       }
 
-      await completeDeviceAuthorization(code, deviceState.userCode);
+      await completeSignIn(code, deviceState.userCode);
     };
 
     handleOAuthCallback();
   }, [searchParams]);
 
   /**
-   * Complete the device authorization after OAuth callback
+   * Approve the device request - link the user's tokens to the device code
    */
-  const completeDeviceAuthorization = async (authCode: string, deviceUserCode: string) => {
+  const handleApprove = async () => {
+    if (!accessToken) return;
     setStep('authorizing');
-    setUserCode(formatUserCode(deviceUserCode));
-
-    try {
-      // Exchange authorization code for tokens
-      const tokens = await exchangeCodeForTokens(
-        authCode,
-        `${window.location.origin}/activate`
-      );
-
-      // Authorize the device with the tokens
-      const result = await authorizeDevice(
-        deviceUserCode,
-        tokens.accessToken,
-        tokens.idToken,
-        tokens.refreshToken
-      );
-
-      if (result.success) {
-        setStep('success');
-        clearDeviceFlowState();
-      } else {
-        setStep('error');
-        setError(result.errorDescription || 'Failed to authorize device');
-        clearDeviceFlowState();
-      }
-    } catch (err) {
-      console.error('Device authorization error:', err);
+
+    const result = await authorizeDevice(userCode, accessToken);
+
+    setAccessToken(null);
+    setConsent(null);
+    clearDeviceFlowState();
+    if (result.success) {
+      setStep('success');
+    } else {
       setStep('error');
-      setError(err instanceof Error ? err.message : 'Failed to complete device authorization');
-      clearDeviceFlowState();
+      setError(result.errorDescription || 'Failed to authorize device');
     }
   };
 
   /**
-   * Handle user code input change
-   * Auto-format with hyphen
+   * Deny the device request ("This wasn't me")
    */
-  const handleCodeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    let value = e.target.value.toUpperCase();
-    // Remove any non-alphanumeric characters except hyphen
-    value = value.replace(/[^A-Z0-9-]/g, '');
-    // Remove existing hyphens for processing
-    const cleaned = value.replace(/-/g, '');
-    // Add hyphen after 4 characters
-    if (cleaned.length > 4) {
-      value = `${cleaned.slice(0, 4)}-${cleaned.slice(4, 8)}`;
+  const handleDeny = async () => {
+    if (!accessToken) return;
+    setStep('denying');
+
+    const result = await denyDevice(userCode, accessToken);
+
+    setAccessToken(null);
+    setConsent(null);
+    clearDeviceFlowState();
+    if (result.success) {
+      setStep('denied');
     } else {
-      value = cleaned;
+      setStep('error');
+      setError(result.errorDescription || 'Failed to deny device');
     }
-    setUserCode(value);
+  };
+
+  /**
+   * Handle user code input change
+   * Keep only characters a registered format allows and auto-format with hyphen
+   */
+  const handleCodeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setUserCode(sanitizeUserCodeInput(e.target.value, formats));
     setError(null);
   };
 
@@ -147,20 +241,14 @@ export const ActivatePage: React.FC = () => {
     const normalized = normalizeUserCode(userCode);
 
     // Validate code format
-    if (!isValidUserCodeFormat(normalized)) {
-      setError('Please enter a valid 8-character code');
+    if (!isValidUserCode(normalized, formats)) {
+      setError('Please enter the code exactly as shown on your device');
       return;
     }
 
     setIsLoading(true);
     setStep('authenticating');
-
-    // Store the user code in session storage as backup
-    storeDeviceFlowState(normalized);
-
-    // Redirect to Cognito for authentication
-    const oauthUrl = getDeviceActivationOAuthUrl(normalized);
-    window.location.href = oauthUrl;
+    redirectToSignIn(normalized);
   };
 
   /**
@@ -171,6 +259,8 @@ export const ActivatePage: React.FC = () => {
     setUserCode('');
     setError(null);
     setIsLoading(false);
+    setAccessToken(null);
+    setConsent(null);
     clearDeviceFlowState();
     // Clear URL params
     window.history.replaceState({}, '', '/activate');
@@ -188,7 +278,7 @@ export const ActivatePage: React.FC = () => {
             </CardHeader>
             <CardContent>
               <p className={styles.instructions}>
-                Look at your VR headset screen and enter the 8-character code displayed there.
+                Look at your VR headset screen and enter the code displayed there.
               </p>
               {error && (
                 <Alert variant="error" className={styles.message}>
@@ -198,11 +288,11 @@ export const ActivatePage: React.FC = () => {
               <form className={styles.form} onSubmit={handleSubmit}>
                 <Input
                   type="text"
-                  placeholder="XXXX-XXXX"
+                  placeholder={formatUserCode('X'.repeat(getMaxUserCodeLength(formats)))}
                   className={styles.codeInput}
                   value={userCode}
                   onChange={handleCodeChange}
-                  maxLength={9}
+                  maxLength={getMaxUserCodeLength(formats) + 1}
                   autoComplete="off"
                   autoFocus
                   required
@@ -213,11 +303,14 @@ export const ActivatePage: React.FC = () => {
                   fullWidth 
                   size="lg"
                   loading={isLoading}
-                  disabled={isLoading || userCode.replace(/-/g, '').length !== 8}
+                  disabled={isLoading || !isValidUserCode(userCode, formats)}
                 >
                   Activate Device
                 </Button>
               </form>
+              <Button onClick={() => navigate(ACCOUNT_LOCKED_PATH)} fullWidth variant="ghost">
+                Locked out of your account?
+              </Button>
             </CardContent>
           </>
         )}
@@ -236,6 +329,80 @@ export const ActivatePage: React.FC = () => {
           </>
         )}
 
+        {step === 'confirm' && consent && (
+          <>
+            <CardHeader>
+              <h2 className={styles.title}>Confirm Device</h2>
+              <p className={styles.subtitle}>Did you start this sign-in?</p>
+            </CardHeader>
+            <CardContent>
+              <p className={styles.instructions}>
+                <strong>{consent.clientName}</strong> on a device with code <strong>{userCode}</strong> is
+                asking to sign in to your account. Only approve if this code is shown on your own VR headset.
+              </p>
+              <dl className={styles.consentDetails}>
+                {describeDevice(consent) && (
+                  <>
+                    <dt>Device</dt>
+                    <dd>{describeDevice(consent)} (as reported by the device)</dd>
+                  </>
+                )}
+                <dt>This app will be able to</dt>
+                <dd>
+                  <ul className={styles.scopeList}>
+                    {consent.scopes.map((scope) => (
+                      <li key={scope}>{describeScope(scope)}</li>
+                    ))}
+                  </ul>
+                </dd>
+                <dt>Requested</dt>
+                <dd>{consent.createdAt.toLocaleString()}</dd>
+                <dt>Code expires in</dt>
+                <dd>{Math.max(1, Math.ceil(consent.expiresIn / 60))} min</dd>
+              </dl>
+              <div className={styles.form}>
+                <Button onClick={handleApprove} fullWidth size="lg">
+                  Approve
+                </Button>
+                <Button onClick={handleDeny} fullWidth size="lg" variant="outline">
+                  This wasn't me / Deny
+                </Button>
+              </div>
+            </CardContent>
+          </>
+        )}
+
+        {step === 'denying' && (
+          <>
+            <CardHeader>
+              <h2 className={styles.title}>Denying Request</h2>
+              <p className={styles.subtitle}>Please wait...</p>
+            </CardHeader>
+          </>
+        )}
+
+        {step === 'denied' && (
+          <>
+            <CardHeader>
+              <h2 className={styles.title}>Request Denied</h2>
+              <p className={styles.subtitle}>The device was not signed in</p>
+            </CardHeader>
+            <CardContent>
+              <Alert variant="info" className={styles.message}>
+                The request with code <strong>{userCode}</strong> has been denied. The device will not get access to your account.
+              </Alert>
+              <Button 
+                onClick={handleRetry} 
+                fullWidth 
+                size="lg"
+                variant="outline"
+              >
+                Activate a Device
+              </Button>
+            </CardContent>
+          </>
+        )}
+
         {step === 'authorizing' && (
           <>
             <CardHeader>
@@ -9,6 +9,7 @@ import { AuthLayout } from '../components/layout';
 import { Card, CardHeader, CardContent, Input, Button, Alert } from '../components/ui';
 import { getAuthState, isAuthenticated, initiateLogin, type AuthState } from '../services/auth';
 import { updateUserAttributes, type ProfileAttributes } from '../services/profile';
+import { describeDevice, listUserDevices, revokeUserDevice, type UserDevice } from '../services/device';
 import { validateReturnUrl } from '../utils/urlValidation';
 import styles from './AuthPages.module.css';
 
@@ -41,6 +42,9 @@ export const ProfilePage: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [returnUrl, setReturnUrl] = useState<string | null>(null);
   const [returnUrlError, setReturnUrlError] = useState<string | null>(null);
+  const [devices, setDevices] = useState<UserDevice[] | null>(null);
+  const [devicesError, setDevicesError] = useState<string | null>(null);
+  const [revokingDeviceId, setRevokingDeviceId] = useState<string | null>(null);
 
   // Check authentication and load profile on mount
   useEffect(() => {
@@ -83,6 +87,14 @@ export const ProfilePage: React.FC = () => {
       });
       
       setStep('editing');
+
+      // Devices signed in with a device code - the profile form does not wait for them
+      const devicesResult = await listUserDevices(state.accessToken);
+      if (devicesResult.success) {
+        setDevices(devicesResult.devices || []);
+      } else {
+        setDevicesError(devicesResult.errorDescription || 'Failed to load your devices.');
+      }
     };
 
     checkAuthAndLoadProfile();
@@ -167,6 +179,24 @@ export const ProfilePage: React.FC = () => {
     }
   };
 
+  /**
+   * Sign a device out and drop it from the list
+   */
+  const handleRevokeDevice = async (device: UserDevice) => {
+    if (!authState) return;
+
+    setRevokingDeviceId(device.deviceId);
+    setDevicesError(null);
+
+    const result = await revokeUserDevice(device.deviceId, authState.accessToken);
+    if (result.success || result.error === 'not_found') {
+      setDevices(prev => prev?.filter(d => d.deviceId !== device.deviceId) ?? null);
+    } else {
+      setDevicesError(result.errorDescription || 'Failed to sign the device out. Please try again.');
+    }
+    setRevokingDeviceId(null);
+  };
+
   /**
    * Handle cancel - return to return_url or show message
    */
@@ -332,6 +362,52 @@ export const ProfilePage: React.FC = () => {
           </form>
         </CardContent>
       </Card>
+
+      <Card className={`${styles.authCard} ${styles.devicesCard}`}>
+        <CardHeader>
+          <h2 className={styles.title}>Signed-in Devices</h2>
+          <p className={styles.subtitle}>Headsets and other devices signed in with an activation code</p>
+        </CardHeader>
+        <CardContent>
+          {devicesError && (
+            <Alert variant="error" className={styles.message}>
+              {devicesError}
+            </Alert>
+          )}
+
+          {devices === null && !devicesError && (
+            <p className={styles.instructions}>Loading your devices...</p>
+          )}
+
+          {devices?.length === 0 && (
+            <p className={styles.instructions}>No devices are signed in to your account.</p>
+          )}
+
+          {devices && devices.length > 0 && (
+            <ul className={styles.deviceList}>
+              {devices.map(device => (
+                <li key={device.deviceId} className={styles.deviceItem}>
+                  <dl className={styles.consentDetails}>
+                    <dt>{device.clientName}</dt>
+                    <dd>{describeDevice(device) || 'Unnamed device'}</dd>
+                    <dd>Signed in {device.signedInAt.toLocaleString()}</dd>
+                    {device.lastSeenAt && <dd>Last seen {device.lastSeenAt.toLocaleString()}</dd>}
+                  </dl>
+                  <Button
+                    variant="outline"
+                    fullWidth
+                    onClick={() => handleRevokeDevice(device)}
+                    loading={revokingDeviceId === device.deviceId}
+                    disabled={revokingDeviceId !== null}
+                  >
+                    Sign out
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
     </AuthLayout>
   );
 };
@@ -1,3 +1,4 @@
 export { ActivatePage } from './ActivatePage';
 export { ProfilePage } from './ProfilePage';
 export { ProfileCallbackPage } from './ProfileCallbackPage';
+export { AccountLockedPage } from './AccountLockedPage';
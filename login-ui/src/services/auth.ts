@@ -291,3 +291,8 @@ export function getReturnPath(): string {
 export function clearReturnPath(): void {
   sessionStorage.removeItem(RETURN_PATH_KEY);
 }
+
+// Page explaining a temporarily locked account (AccountLockedPage)
+// Managed Login shows lockouts on its own sign-in page and never redirects
+// back with them, so users reach the page from the Login UI's own links.
+export const ACCOUNT_LOCKED_PATH = '/account-locked';
@@ -0,0 +1,53 @@
+/**
+ * Tests for user code handling on the activation page
+ *
+ * The code input must accept exactly the user codes registered device
+ * clients display, whatever their length and alphabet.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  formatUserCode,
+  isValidUserCode,
+  sanitizeUserCodeInput,
+  DEFAULT_USER_CODE_FORMAT,
+  type UserCodeFormat,
+} from '@thesafezone/idp-common';
+
+const NUMERIC: UserCodeFormat = { length: 6, chars: '0123456789' };
+const FORMATS = [DEFAULT_USER_CODE_FORMAT, NUMERIC];
+
+describe('Device Service', () => {
+  describe('formatUserCode', () => {
+    it('should place the hyphen after the first 3 characters like devices do', () => {
+      expect(formatUserCode('abcdefgh')).toBe('ABC-DEFGH');
+      expect(formatUserCode('123456')).toBe('123-456');
+      expect(formatUserCode('AB')).toBe('AB');
+    });
+  });
+
+  describe('isValidUserCode', () => {
+    it('should accept codes matching any registered format', () => {
+      expect(isValidUserCode('ABC-DEFGH', FORMATS)).toBe(true);
+      expect(isValidUserCode('123-456', FORMATS)).toBe(true);
+    });
+
+    it('should reject codes that match no format', () => {
+      expect(isValidUserCode('123-456')).toBe(false);
+      expect(isValidUserCode('ABC-DEF', FORMATS)).toBe(false);
+      expect(isValidUserCode('ABC-DEFGL', FORMATS)).toBe(false);
+      expect(isValidUserCode('1234-5678', FORMATS)).toBe(false);
+    });
+  });
+
+  describe('sanitizeUserCodeInput', () => {
+    it('should drop characters no format allows and format as the user types', () => {
+      expect(sanitizeUserCodeInput('abc def-gh', FORMATS)).toBe('ABC-DEFGH');
+      expect(sanitizeUserCodeInput('12 34 56', FORMATS)).toBe('123-456');
+      expect(sanitizeUserCodeInput('o0i1l', [DEFAULT_USER_CODE_FORMAT])).toBe('');
+    });
+
+    it('should cap input at the longest format', () => {
+      expect(sanitizeUserCodeInput('123456789012', [NUMERIC])).toBe('123-456');
+    });
+  });
+});
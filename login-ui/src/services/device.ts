@@ -4,6 +4,16 @@
  * 
  * Requirements: 9.3
  */
+import { DEFAULT_USER_CODE_FORMAT, normalizeUserCode } from '@thesafezone/idp-common';
+import type {
+  DeviceDecisionRequest,
+  DeviceDecisionResponse,
+  DeviceLookupResponse,
+  OAuthErrorResponse,
+  UserCodeFormat,
+  UserCodeFormatsResponse,
+  UserDevicesResponse,
+} from '@thesafezone/idp-common';
 import { cognitoConfig, getCognitoOAuthUrl } from '../config/cognito';
 
 /**
@@ -16,7 +26,7 @@ export interface DeviceCodeValidationResult {
 }
 
 /**
- * Device authorization response
+ * Device authorization (or denial) response
  */
 export interface DeviceAuthorizeResult {
   success: boolean;
@@ -26,35 +36,109 @@ export interface DeviceAuthorizeResult {
 }
 
 /**
- * Normalize user code by removing hyphens and converting to uppercase
+ * Details of a pending device request, shown on the consent screen
  */
-export const normalizeUserCode = (code: string): string => {
-  return code.replace(/-/g, '').toUpperCase().trim();
-};
+export interface DeviceConsentDetails {
+  userCode: string;
+  clientId: string;
+  clientName: string;
+  scopes: string[];
+  createdAt: Date;
+  expiresIn: number; // seconds remaining
+  deviceName?: string; // self-reported by the device, unverified
+  deviceModel?: string;
+  appVersion?: string;
+}
+
+/**
+ * Device lookup response
+ */
+export interface DeviceLookupResult {
+  success: boolean;
+  details?: DeviceConsentDetails;
+  error?: string;
+  errorDescription?: string;
+}
+
+/**
+ * A device the user signed in with a device code, shown on the profile page
+ */
+export interface UserDevice {
+  deviceId: string;
+  clientId: string;
+  clientName: string;
+  deviceName?: string; // self-reported by the device, unverified
+  deviceModel?: string;
+  appVersion?: string;
+  firstSeenAt: Date;
+  signedInAt: Date;
+  lastSeenAt?: Date; // only known for the user's sole device of an app
+}
+
+/**
+ * Signed-in devices response
+ */
+export interface UserDevicesResult {
+  success: boolean;
+  devices?: UserDevice[];
+  error?: string;
+  errorDescription?: string;
+}
+
+/**
+ * Device revocation response
+ */
+export interface RevokeUserDeviceResult {
+  success: boolean;
+  error?: string;
+  errorDescription?: string;
+}
 
 /**
- * Format user code for display (add hyphen in middle)
+ * Format used until the API reports the registered formats
  */
-export const formatUserCode = (code: string): string => {
-  const normalized = normalizeUserCode(code);
-  if (normalized.length === 8) {
-    return `${normalized.slice(0, 4)}-${normalized.slice(4)}`;
+const DEFAULT_USER_CODE_FORMATS: UserCodeFormat[] = [DEFAULT_USER_CODE_FORMAT];
+
+let userCodeFormats: Promise<UserCodeFormat[]> | null = null;
+
+/**
+ * Fetch the user code formats of the registered device clients (once per page load)
+ * Falls back to the default format if the API is unavailable.
+ */
+export const fetchUserCodeFormats = (): Promise<UserCodeFormat[]> => {
+  if (!userCodeFormats) {
+    userCodeFormats = loadUserCodeFormats();
   }
-  return normalized;
+  return userCodeFormats;
 };
 
 /**
- * Validate user code format
- * User codes are 8 characters from the set: ABCDEFGHJKLMNPQRSTUVWXYZ23456789
+ * Load the formats from GET /device/user-code-formats, ignoring malformed entries
  */
-export const isValidUserCodeFormat = (code: string): boolean => {
-  const normalized = normalizeUserCode(code);
-  if (normalized.length !== 8) {
-    return false;
+const loadUserCodeFormats = async (): Promise<UserCodeFormat[]> => {
+  const apiEndpoint = cognitoConfig.apiEndpoint;
+  if (!apiEndpoint) {
+    return DEFAULT_USER_CODE_FORMATS;
+  }
+
+  try {
+    const response = await fetch(`${apiEndpoint}/device/user-code-formats`);
+    if (!response.ok) {
+      return DEFAULT_USER_CODE_FORMATS;
+    }
+
+    const data: Partial<UserCodeFormatsResponse> = await response.json();
+    const formats: UserCodeFormat[] = Array.isArray(data.formats)
+      ? data.formats.filter(
+          (format: UserCodeFormat) =>
+            Number.isInteger(format?.length) && typeof format?.chars === 'string' && format.chars !== ''
+        )
+      : [];
+    return formats.length > 0 ? formats : DEFAULT_USER_CODE_FORMATS;
+  } catch (error) {
+    console.error('User code formats error:', error);
+    return DEFAULT_USER_CODE_FORMATS;
   }
-  // Valid characters: A-Z (excluding I, O) and 2-9 (excluding 0, 1)
-  const validChars = /^[ABCDEFGHJKLMNPQRSTUVWXYZ23456789]+$/;
-  return validChars.test(normalized);
 };
 
 /**
@@ -147,20 +231,193 @@ export const exchangeCodeForTokens = async (
   };
 };
 
+/**
+ * Look up a pending device request for the consent screen
+ * Shows the user which app and scopes they are granting before approval
+ */
+export const lookupDevice = async (
+  userCode: string,
+  accessToken: string
+): Promise<DeviceLookupResult> => {
+  const params = new URLSearchParams({ user_code: normalizeUserCode(userCode) });
+  const result = await requestDeviceApi<DeviceLookupResponse>(`/device/lookup?${params.toString()}`, {
+    method: 'GET',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+    },
+  }, 'Failed to look up device request');
+  if (!result.success) return result;
+
+  const { data } = result;
+  return {
+    success: true,
+    details: {
+      userCode: data.user_code,
+      clientId: data.client_id,
+      clientName: data.client_name,
+      scopes: data.scope.split(' ').filter(Boolean),
+      createdAt: new Date(data.created_at * 1000),
+      expiresIn: data.expires_in,
+      deviceName: data.device_name,
+      deviceModel: data.device_model,
+      appVersion: data.app_version,
+    },
+  };
+};
+
+/**
+ * Describe a device by its self-reported details, e.g. "Living room · Quest 3 · app 1.4.0"
+ * Returns undefined if the device did not report any details.
+ */
+export const describeDevice = (
+  details: Pick<DeviceConsentDetails, 'deviceName' | 'deviceModel' | 'appVersion'>
+): string | undefined => {
+  const parts = [
+    details.deviceName,
+    details.deviceModel,
+    details.appVersion && `app ${details.appVersion}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : undefined;
+};
+
+/**
+ * Describe an OAuth scope in plain language for the consent screen
+ */
+export const describeScope = (scope: string): string => {
+  switch (scope) {
+    case 'openid':
+      return 'Sign you in with your TheSafeZone account';
+    case 'email':
+      return 'See your email address';
+    case 'profile':
+      return 'See your profile (display name, first and last name)';
+    case 'aws.cognito.signin.user.admin':
+      return 'Manage your account attributes';
+    default:
+      return scope;
+  }
+};
+
 /**
  * Authorize device with the Device Code API
- * Called after user authenticates to link their tokens to the device code
+ * Called after user authenticates. The API mints tokens for the device's own
+ * client; only the access token proving the user's identity is sent.
  * 
  * Requirements: 9.3, 9.4
  */
 export const authorizeDevice = async (
   userCode: string,
-  accessToken: string,
-  idToken: string,
-  refreshToken: string
+  accessToken: string
+): Promise<DeviceAuthorizeResult> => {
+  return postDeviceRequest('/device/authorize', {
+    user_code: normalizeUserCode(userCode),
+    access_token: accessToken,
+  }, 'Device authorized successfully', 'Failed to authorize device');
+};
+
+/**
+ * Deny a device request with the Device Code API
+ * Called when the user does not recognise the request ("This wasn't me").
+ * The polling device receives access_denied.
+ */
+export const denyDevice = async (
+  userCode: string,
+  accessToken: string
 ): Promise<DeviceAuthorizeResult> => {
+  return postDeviceRequest('/device/deny', {
+    user_code: normalizeUserCode(userCode),
+    access_token: accessToken,
+  }, 'Device request denied', 'Failed to deny device');
+};
+
+/**
+ * POST a JSON body to a Device Code API endpoint
+ */
+const postDeviceRequest = async (
+  path: string,
+  body: DeviceDecisionRequest,
+  successMessage: string,
+  failureMessage: string
+): Promise<DeviceAuthorizeResult> => {
+  const result = await requestDeviceApi<Partial<DeviceDecisionResponse>>(path, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  }, failureMessage);
+  if (!result.success) return result;
+
+  return {
+    success: true,
+    message: result.data.message || successMessage,
+  };
+};
+
+/**
+ * List the devices the user has signed in with a device code, most recently signed in first
+ */
+export const listUserDevices = async (accessToken: string): Promise<UserDevicesResult> => {
+  const result = await requestDeviceApi<UserDevicesResponse>('/devices', {
+    method: 'GET',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+    },
+  }, 'Failed to load your devices');
+  if (!result.success) return result;
+
+  return {
+    success: true,
+    devices: result.data.devices.map((device) => ({
+      deviceId: device.device_id,
+      clientId: device.client_id,
+      clientName: device.client_name,
+      deviceName: device.device_name,
+      deviceModel: device.device_model,
+      appVersion: device.app_version,
+      firstSeenAt: new Date(device.first_seen_at * 1000),
+      signedInAt: new Date(device.signed_in_at * 1000),
+      lastSeenAt: device.last_seen_at !== undefined ? new Date(device.last_seen_at * 1000) : undefined,
+    })),
+  };
+};
+
+/**
+ * Sign a device out by revoking its refresh token
+ * The device has to be activated again to sign back in.
+ */
+export const revokeUserDevice = async (
+  deviceId: string,
+  accessToken: string
+): Promise<RevokeUserDeviceResult> => {
+  const result = await requestDeviceApi<void>(`/devices/${encodeURIComponent(deviceId)}`, {
+    method: 'DELETE',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+    },
+  }, 'Failed to sign the device out');
+  return result.success ? { success: true } : result;
+};
+
+/**
+ * Result of a Device Code API request: the response body, or the error to show
+ */
+type DeviceApiResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string; errorDescription: string };
+
+/**
+ * Send a request to the Device Code API
+ * A missing endpoint, error responses and network failures are returned as
+ * OAuth errors; `failureMessage` describes errors the API did not describe.
+ */
+const requestDeviceApi = async <T>(
+  path: string,
+  init: RequestInit,
+  failureMessage: string
+): Promise<DeviceApiResult<T>> => {
   const apiEndpoint = cognitoConfig.apiEndpoint;
-  
+
   if (!apiEndpoint || apiEndpoint === 'https://your-api-id.execute-api.region.amazonaws.com') {
     return {
       success: false,
@@ -170,35 +427,22 @@ export const authorizeDevice = async (
   }
 
   try {
-    const response = await fetch(`${apiEndpoint}/device/authorize`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        user_code: normalizeUserCode(userCode),
-        access_token: accessToken,
-        id_token: idToken,
-        refresh_token: refreshToken,
-      }),
-    });
-
-    const data = await response.json();
+    const response = await fetch(`${apiEndpoint}${path}`, init);
 
     if (!response.ok) {
+      const data: Partial<OAuthErrorResponse> = await response.json();
       return {
         success: false,
         error: data.error || 'unknown_error',
-        errorDescription: data.error_description || 'Failed to authorize device',
+        errorDescription: data.error_description || failureMessage,
       };
     }
 
-    return {
-      success: true,
-      message: data.message || 'Device authorized successfully',
-    };
+    // 204 No Content (DELETE /devices/{id}) has no body
+    const data: T = response.status === 204 ? undefined as T : await response.json();
+    return { success: true, data };
   } catch (error) {
-    console.error('Device authorization error:', error);
+    console.error(`Device API request error (${path}):`, error);
     return {
       success: false,
       error: 'network_error',
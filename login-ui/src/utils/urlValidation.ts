@@ -4,12 +4,14 @@
  * Requirements: 3.4
  */
 
+import { getRuntimeTrustedOrigins } from '../config/runtime';
+
 /**
- * Get trusted origins from environment variable
+ * Get trusted origins from config.json or the environment variable
  * Format: comma-separated list of origins (e.g., "https://app1.example.com,https://app2.example.com")
  */
 export function getTrustedOrigins(): string[] {
-  const envOrigins = import.meta.env.VITE_TRUSTED_ORIGINS || '';
+  const envOrigins = getRuntimeTrustedOrigins() || import.meta.env.VITE_TRUSTED_ORIGINS || '';
   if (!envOrigins) {
     return [];
   }
@@ -36,7 +38,7 @@ export function extractOrigin(url: string): string | null {
  * Check if a URL is from a trusted origin
  * Trusted origins include:
  * - Same origin as current window
- * - Origins configured in VITE_TRUSTED_ORIGINS environment variable
+ * - Origins configured in config.json or the VITE_TRUSTED_ORIGINS environment variable
  * 
  * Requirements: 3.4
  * 
@@ -0,0 +1,183 @@
+import type { UserCodeFormat } from './user-code';
+
+/**
+ * Device Code API Types (RFC 8628)
+ *
+ * Request and response bodies of the Device Code API, shared by the Lambda
+ * that serves them and the Login UI that calls them. Errors are returned as
+ * OAuthErrorResponse (oauth-errors.ts).
+ *
+ * The OpenAPI document served at GET /device/openapi.json is generated from
+ * these types (infra/scripts/generate-openapi.ts), so property doc comments
+ * and validation tags (@maxLength, @pattern, ...) are part of the published
+ * contract. API Gateway validates JSON request bodies against them.
+ */
+
+/**
+ * Request body for POST /device/code
+ */
+export interface DeviceCodeRequest {
+  /**
+   * May be sent via HTTP Basic auth instead
+   * @minLength 1
+   */
+  client_id?: string;
+  /** Space-separated scopes, defaults to all scopes the client may request */
+  scope?: string;
+  /**
+   * Shown on the consent screen, e.g. "Living room headset"
+   * @maxLength 64
+   */
+  device_name?: string;
+  /**
+   * e.g. "Quest 3"
+   * @maxLength 64
+   */
+  device_model?: string;
+  /**
+   * e.g. "1.4.0"
+   * @maxLength 32
+   */
+  app_version?: string;
+  /** Include a QR code of verification_uri_complete */
+  qr_code?: 'true' | 'false';
+}
+
+/**
+ * Response body for POST /device/code (RFC 8628 Section 3.2)
+ */
+export interface DeviceCodeResponse {
+  device_code: string;
+  user_code: string;
+  verification_uri: string;
+  verification_uri_complete?: string;
+  /** Lifetime of the codes in seconds */
+  expires_in: number;
+  /** Minimum seconds between polls of POST /device/token */
+  interval: number;
+  /** Only when requested with qr_code=true */
+  verification_uri_complete_qr?: VerificationQrCode;
+  /** WebSocket for completion pushes, connect with ?device_code= */
+  push_uri?: string;
+}
+
+/**
+ * QR rendering of verification_uri_complete
+ */
+export interface VerificationQrCode {
+  /** Standalone SVG document */
+  svg: string;
+  /** data:image/png;base64,... data URI */
+  png: string;
+}
+
+/**
+ * Request body for POST /device/token (RFC 8628 Section 3.4)
+ */
+export interface DeviceTokenRequest {
+  grant_type: 'urn:ietf:params:oauth:grant-type:device_code';
+  /** @pattern ^[a-fA-F0-9]{32}$ */
+  device_code: string;
+  /**
+   * May be sent via HTTP Basic auth instead
+   * @minLength 1
+   */
+  client_id?: string;
+}
+
+/**
+ * Response body for POST /device/token once the user has approved (RFC 6749 Section 5.1)
+ */
+export interface DeviceTokenResponse {
+  access_token: string;
+  id_token: string;
+  refresh_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+}
+
+/**
+ * Message pushed over push_uri once the user has decided
+ * Tokens are never pushed - the device collects the outcome from
+ * POST /device/token as if its poll interval had elapsed.
+ */
+export interface DevicePushMessage {
+  type: 'device_code_status';
+  status: 'authorized' | 'denied' | 'expired';
+}
+
+/**
+ * Request body for POST /device/authorize and POST /device/deny
+ * The access token proves which user is approving or denying.
+ */
+export interface DeviceDecisionRequest {
+  /** @minLength 1 */
+  user_code: string;
+  /** @minLength 1 */
+  access_token: string;
+}
+
+/**
+ * Response body for POST /device/authorize and POST /device/deny
+ */
+export interface DeviceDecisionResponse {
+  success: true;
+  message: string;
+}
+
+/**
+ * Response body for GET /device/lookup
+ * Shown on the consent screen before the user approves a device
+ */
+export interface DeviceLookupResponse {
+  user_code: string;
+  client_id: string;
+  client_name: string;
+  scope: string;
+  /** Unix timestamp when the device requested the code */
+  created_at: number;
+  /** Remaining lifetime in seconds */
+  expires_in: number;
+  /** Self-reported by the device, unverified */
+  device_name?: string;
+  device_model?: string;
+  app_version?: string;
+}
+
+/**
+ * Response body for GET /device/user-code-formats
+ * A user code is well-formed if it matches any of the formats.
+ */
+export interface UserCodeFormatsResponse {
+  formats: UserCodeFormat[];
+}
+
+/**
+ * A device the user signed in with the device flow, as listed by GET /devices
+ */
+export interface UserDeviceSummary {
+  device_id: string;
+  client_id: string;
+  client_name: string;
+  /** Self-reported by the device, unverified */
+  device_name?: string;
+  device_model?: string;
+  app_version?: string;
+  /** Unix timestamp the device requested its code */
+  first_seen_at: number;
+  /** Unix timestamp the device collected its tokens, i.e. was signed in */
+  signed_in_at: number;
+  /**
+   * Unix timestamp the device last refreshed its tokens
+   * Only known while the device is the user's sole one of its client.
+   */
+  last_seen_at?: number;
+}
+
+/**
+ * Response body for GET /devices, most recently signed in first
+ * Revoke a device with DELETE /devices/{device_id}.
+ */
+export interface UserDevicesResponse {
+  devices: UserDeviceSummary[];
+}
@@ -0,0 +1,3 @@
+export * from './user-code';
+export * from './oauth-errors';
+export type * from './device-api';
@@ -0,0 +1,38 @@
+/**
+ * OAuth Error Codes
+ *
+ * Error codes returned by the Device Code API, from RFC 6749 Section 5.2,
+ * RFC 6750 Section 3.1 and RFC 8628 Section 3.5, plus too_many_attempts for
+ * the user code attempt limit.
+ */
+
+export const OAUTH_ERROR_CODES = [
+  // RFC 6749 Section 5.2
+  'invalid_request',
+  'invalid_client',
+  'invalid_grant',
+  'invalid_scope',
+  'unsupported_grant_type',
+  'server_error',
+  // RFC 6750 Section 3.1
+  'invalid_token',
+  // RFC 8628 Section 3.5
+  'authorization_pending',
+  'slow_down',
+  'access_denied',
+  'expired_token',
+  // Device Code API
+  'too_many_attempts',
+  'not_found',
+] as const;
+
+export type OAuthErrorCode = typeof OAUTH_ERROR_CODES[number];
+
+/**
+ * Error response body (RFC 6749 Section 5.2)
+ */
+export interface OAuthErrorResponse {
+  error: OAuthErrorCode;
+  error_description?: string;
+}
+
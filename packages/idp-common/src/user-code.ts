@@ -0,0 +1,83 @@
+/**
+ * User Codes (RFC 8628 Section 6.1)
+ *
+ * The code a device displays and the user types on the activation page.
+ * Codes are stored and compared normalized (uppercase, no hyphen) and shown
+ * with a hyphen after the first 3 characters, e.g. ABC-DEFGH or 123-456.
+ * Each device client may use its own format (see device-flow-config.ts in
+ * infra), so validation takes the formats a code may be in.
+ */
+
+/**
+ * Length and alphabet of a user code
+ */
+export interface UserCodeFormat {
+  /** Characters, excluding the display hyphen */
+  length: number;
+  /** Uppercase letters and digits only */
+  chars: string;
+}
+
+// Excludes ambiguous characters (0, O, 1, I, L)
+export const DEFAULT_USER_CODE_CHARS = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+export const DEFAULT_USER_CODE_FORMAT: UserCodeFormat = {
+  length: 8,
+  chars: DEFAULT_USER_CODE_CHARS,
+};
+
+const DISPLAY_GROUP_LENGTH = 3;
+
+/**
+ * Normalizes a user code for storage and comparison
+ * Removes hyphens and whitespace and converts to uppercase.
+ */
+export function normalizeUserCode(code: string): string {
+  return code.replace(/[-\s]/g, '').toUpperCase();
+}
+
+/**
+ * Formats a user code for display, e.g. ABCDEFGH -> ABC-DEFGH
+ */
+export function formatUserCode(code: string): string {
+  const normalized = normalizeUserCode(code);
+  if (normalized.length <= DISPLAY_GROUP_LENGTH) {
+    return normalized;
+  }
+  return `${normalized.slice(0, DISPLAY_GROUP_LENGTH)}-${normalized.slice(DISPLAY_GROUP_LENGTH)}`;
+}
+
+/**
+ * Validates a user code (with or without hyphen) against the formats it may be in
+ */
+export function isValidUserCode(
+  code: string,
+  formats: readonly UserCodeFormat[] = [DEFAULT_USER_CODE_FORMAT]
+): boolean {
+  if (typeof code !== 'string') return false;
+  const normalized = normalizeUserCode(code);
+
+  return formats.some((format) =>
+    normalized.length === format.length &&
+    [...normalized].every((char) => format.chars.includes(char)));
+}
+
+/**
+ * Longest user code of any format, excluding the hyphen
+ */
+export function getMaxUserCodeLength(formats: readonly UserCodeFormat[] = [DEFAULT_USER_CODE_FORMAT]): number {
+  return Math.max(...formats.map((format) => format.length));
+}
+
+/**
+ * Cleans up code input as the user types: drops characters no format
+ * allows, caps at the longest format and adds the display hyphen
+ */
+export function sanitizeUserCodeInput(
+  value: string,
+  formats: readonly UserCodeFormat[] = [DEFAULT_USER_CODE_FORMAT]
+): string {
+  const allowed = new Set(formats.flatMap((format) => [...format.chars]));
+  const cleaned = [...value.toUpperCase()].filter((char) => allowed.has(char)).join('');
+  return formatUserCode(cleaned.slice(0, getMaxUserCodeLength(formats)));
+}
@@ -1,5 +1,7 @@
 /**
  * OAuth/OIDC configuration for the sample client
+ * Build-time values from environment variables; deployed stages replace them
+ * with the values from config.json (runtime.ts)
  */
 export const oauthConfig = {
   // Cognito client ID (public client, no secret)
@@ -11,27 +13,39 @@ export const oauthConfig = {
   // This app's callback URL
   redirectUri: import.meta.env.VITE_REDIRECT_URI || 'http://localhost:3001/callback',
   
+  // Login UI for profile editing (default to Vite's default port)
+  loginUiUrl: import.meta.env.VITE_LOGIN_UI_URL || 'http://localhost:5173',
+  
   // OAuth scopes
   scopes: ['openid', 'email', 'profile'],
 };
 
+/**
+ * Get the base URL of the Cognito domain
+ * The domain may include the scheme, as in config.json.
+ */
+function getCognitoBaseUrl(): string {
+  const domain = oauthConfig.cognitoDomain;
+  return /^https?:\/\//.test(domain) ? domain.replace(/\/$/, '') : `https://${domain}`;
+}
+
 /**
  * Get the Cognito OAuth authorize URL
  */
 export function getCognitoAuthorizeUrl(): string {
-  return `https://${oauthConfig.cognitoDomain}/oauth2/authorize`;
+  return `${getCognitoBaseUrl()}/oauth2/authorize`;
 }
 
 /**
  * Get the Cognito OAuth token URL
  */
 export function getCognitoTokenUrl(): string {
-  return `https://${oauthConfig.cognitoDomain}/oauth2/token`;
+  return `${getCognitoBaseUrl()}/oauth2/token`;
 }
 
 /**
  * Get the Cognito logout URL
  */
 export function getCognitoLogoutUrl(): string {
-  return `https://${oauthConfig.cognitoDomain}/logout`;
+  return `${getCognitoBaseUrl()}/logout`;
 }
@@ -0,0 +1,41 @@
+/**
+ * Runtime configuration of the deployed sample client
+ *
+ * The app is built once for all stages; each stage deploys config.json next
+ * to it with the stage's values (SpaSite.addRuntimeConfig in infra). Values
+ * it sets replace the build-time VITE_* values. The dev server has no
+ * config.json and keeps the build-time values.
+ */
+import { oauthConfig } from './oauth';
+
+export interface RuntimeConfig {
+  clientId?: string;
+  cognitoDomain?: string;   // May include the scheme, e.g. https://auth.thesafezone.eu
+  redirectUri?: string;
+  loginUiUrl?: string;
+}
+
+/**
+ * Loads config.json and applies the values it sets
+ * Never fails - without a readable config.json the build-time values are kept.
+ */
+export async function loadRuntimeConfig(url = '/config.json'): Promise<void> {
+  let config: RuntimeConfig;
+  try {
+    const response = await fetch(url, { cache: 'no-store' });
+    if (!response.ok) {
+      return;
+    }
+    config = await response.json();
+  } catch {
+    // No config.json - SPA routing answers with index.html, which is not JSON
+    return;
+  }
+
+  for (const key of ['clientId', 'cognitoDomain', 'redirectUri', 'loginUiUrl'] as const) {
+    const value = config[key];
+    if (typeof value === 'string' && value.length > 0) {
+      oauthConfig[key] = value;
+    }
+  }
+}
@@ -7,11 +7,9 @@
 import { useEffect, useState } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { getAuthState, logout, initiateLogin, clearAuthState, type AuthState } from '../services/auth';
+import { oauthConfig } from '../config/oauth';
 import styles from './Pages.module.css';
 
-// Login UI URL for profile editing (default to Vite's default port)
-const LOGIN_UI_URL = import.meta.env.VITE_LOGIN_UI_URL || 'http://localhost:5173';
-
 export const ProfilePage: React.FC = () => {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
@@ -58,7 +56,7 @@ export const ProfilePage: React.FC = () => {
    */
   const handleEditProfile = () => {
     const returnUrl = encodeURIComponent(`${window.location.origin}/profile?profile_updated=true`);
-    window.location.href = `${LOGIN_UI_URL}/profile?return_url=${returnUrl}`;
+    window.location.href = `${oauthConfig.loginUiUrl}/profile?return_url=${returnUrl}`;
   };
 
   if (!authState) {